@@ -0,0 +1,111 @@
+import React, { useMemo, useSyncExternalStore } from 'react';
+import {
+  serializeGenerationDiagnostics,
+  summarizeGenerationDiagnostics,
+  type GenerationDiagnostics,
+  type GenerationRecord,
+  type LatencySummary,
+} from '../services/generationDiagnostics';
+import { downloadBlob } from '../utils/downloadFile';
+
+interface DiagnosticsPanelProps {
+  diagnostics: GenerationDiagnostics;
+  providerLabel: string;
+  templateVersion: number;
+  textStyle: React.CSSProperties;
+  onClose: () => void;
+}
+
+const RECENT_REQUESTS = 12;
+const TOP_RULES = 8;
+
+const describeLatency = (latency: LatencySummary | null): string =>
+  latency ? `AVG ${latency.meanMs}MS / P50 ${latency.p50Ms}MS / P95 ${latency.p95Ms}MS` : '-';
+
+const describePercent = (ratio: number | null): string => (ratio === null ? '-' : `${Math.round(ratio * 100)}%`);
+
+const describeTokens = (record: GenerationRecord): string => {
+  const reported = record.attempts.flatMap(attempt => (attempt.tokens ? [attempt.tokens.total] : []));
+  return reported.length > 0 ? String(reported.reduce((sum, total) => sum + total, 0)) : '-';
+};
+
+// Overlay for tuning prompts: success ratios, latencies, token use and the
+// validation rules the model breaks most, over every request this session.
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ diagnostics, providerLabel, templateVersion, textStyle, onClose }) => {
+  const records = useSyncExternalStore(diagnostics.subscribe, diagnostics.records);
+  const summary = useMemo(() => summarizeGenerationDiagnostics(records), [records]);
+  const recent = records.slice(-RECENT_REQUESTS).reverse();
+
+  const handleExport = () => {
+    const json = serializeGenerationDiagnostics(records, { provider: providerLabel, templateVersion });
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    downloadBlob(new Blob([json], { type: 'application/json' }), `Future_Cities_Diagnostics_${stamp}.json`);
+  };
+
+  const buttonClass = "uppercase hover:text-white focus:outline-none";
+
+  return (
+    <section
+      role="dialog"
+      aria-label="Generation diagnostics"
+      className="absolute top-3 left-3 z-50 w-[min(640px,calc(100vw-1.5rem))] max-h-[calc(100vh-1.5rem)] overflow-y-auto bg-black/90 border border-current p-3 font-['VT323'] text-sm leading-tight"
+      style={{ ...textStyle, cursor: 'auto' }}
+    >
+      <header className="flex justify-between mb-2">
+        <p>GENERATION DIAGNOSTICS - {providerLabel} (TEMPLATE V{templateVersion})</p>
+        <p>
+          <button type="button" onClick={handleExport} disabled={records.length === 0} className={buttonClass} style={textStyle}>[EXPORT]</button>
+          &nbsp;
+          <button type="button" onClick={diagnostics.clear} className={buttonClass} style={textStyle}>[CLEAR]</button>
+          &nbsp;
+          <button type="button" onClick={onClose} aria-label="Close diagnostics (`)" className={buttonClass} style={textStyle}>[X]</button>
+        </p>
+      </header>
+
+      <p>
+        LANDSCAPES: {summary.landscapes.requested} REQ / {summary.landscapes.accepted} OK / {summary.landscapes.failed} FAILED
+        &nbsp;- {describeLatency(summary.latency.landscape)}
+      </p>
+      <p>
+        CLUSTERS: {summary.clusters.requested} REQ / {summary.clusters.accepted} OK ({describePercent(summary.clusters.successRatio)})
+        &nbsp;/ {summary.clusters.empty} EMPTY / {summary.clusters.failed} FAILED - {describeLatency(summary.latency.cluster)}
+      </p>
+      <p>
+        MODEL ANSWERS: {summary.answers.total} ({summary.answers.accepted} OK / {summary.answers.unparseable} UNPARSEABLE / {summary.answers.invalid} INVALID)
+        &nbsp;- {describeLatency(summary.modelLatency)}
+      </p>
+      <p>
+        TOKENS: {summary.tokens.prompt} PROMPT / {summary.tokens.response} RESPONSE / {summary.tokens.total} TOTAL
+        {summary.tokens.unreported > 0 && <> ({summary.tokens.unreported} ANSWERS UNREPORTED)</>}
+      </p>
+
+      <p className="mt-2">MOST BROKEN RULES:</p>
+      {summary.ruleFailures.length === 0 && <p className="opacity-75">&nbsp;NONE</p>}
+      {summary.ruleFailures.slice(0, TOP_RULES).map(({ rule, count }) => (
+        <p key={rule} className="opacity-75 truncate" title={rule}>&nbsp;{count}x {rule}</p>
+      ))}
+
+      <p className="mt-2">RECENT REQUESTS:</p>
+      <table className="w-full text-left opacity-75">
+        <thead>
+          <tr><th>TIME</th><th>KIND</th><th>KEY</th><th>OUTCOME</th><th>MS</th><th>ANSWERS</th><th>TOKENS</th></tr>
+        </thead>
+        <tbody>
+          {recent.map(record => (
+            <tr key={record.id} title={record.error ?? undefined}>
+              <td>{record.startedAt.slice(11, 19)}</td>
+              <td className="uppercase">{record.kind}</td>
+              <td>{record.key}</td>
+              <td className="uppercase">{record.outcome}</td>
+              <td>{record.latencyMs ?? '...'}</td>
+              <td>{record.attempts.map(attempt => attempt.outcome[0].toUpperCase()).join('') || '-'}</td>
+              <td>{describeTokens(record)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+};
+
+export default DiagnosticsPanel;
@@ -1,5 +1,17 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import type { LandscapeData, CityElementData } from '../App';
+import type { LandscapeData, ClusterData } from '../App';
+import type { ClusterSurroundings } from '../services/cityGenerationProvider';
+import type { GenerationCacheStats } from '../services/generationCache';
+import type { RepairReport } from '../services/cityRepair';
+import { MAX_THEME_PROMPT_LENGTH, type CityTheme } from '../services/cityThemes';
+import { computeCityCensus, type CityCensus } from '../services/cityCensus';
+import type { CitySession, StreamedWorld } from '../services/citySession';
+import type { CityExportFormat } from '../utils/cityExport';
+import { downloadBlob } from '../utils/downloadFile';
+import {
+  CRT_EFFECTS, CRT_EFFECT_LABELS, CRT_STRENGTH_STEP, crtPresetOf, cycleCrtPreset, readCrtSettings, withCrtStrength,
+  writeCrtSettings, type CrtSettings,
+} from '../utils/crtSettings';
 import ThreeCityscape, { ThreeCityscapeHandle } from './ThreeCityscape';
 import LogoSpinner from './LogoSpinner'; // Import the new LogoSpinner component
 import RotatingWireframeMap from './RotatingWireframeMap'; // Import the new map component
@@ -13,10 +25,31 @@ interface MonitorScreenProps {
   isLoading: boolean;
   error: string | null;
   onGenerateClick: () => void;
+  citySeed: string;
+  onSeedSubmit: (seed: string) => void;
+  theme: CityTheme; // Armed for the next city
+  themeLibrary: CityTheme[]; // Built-in presets followed by saved themes
+  savedThemes: CityTheme[];
+  onThemeSelect: (theme: CityTheme) => void;
+  onPromptSubmit: (prompt: string) => void;
+  onSaveTheme: () => void;
+  onDeleteTheme: (id: string) => void;
   isGenerating: boolean;
+  isLandscapeStreamed: boolean; // The landscape arrives part by part, so it is shown while still loading
   canGenerate: boolean;
+  providerLabel: string;
+  repairLog: string[];
+  cacheStats: GenerationCacheStats | null; // null when the active provider is not cached
+  isCacheEnabled: boolean;
+  onToggleCache: () => void;
+  onClearCache: () => void;
   c64GreenStyle: C64GreenStyle;
-  generateBuildingCluster: (clusterIdPrefix: string) => Promise<CityElementData[] | null>;
+  cityColor: string; // Wireframe colour of the city
+  generateBuildingCluster: (clusterIdPrefix: string, surroundings: ClusterSurroundings) => Promise<ClusterData | null>;
+  onPlacementReport: (report: RepairReport) => void;
+  restoredWorld: { landscape: LandscapeData; world: StreamedWorld } | null;
+  onSaveSession: (world: StreamedWorld, terrainRelief: boolean) => void;
+  onLoadSession: (text: string) => CitySession; // Throws when the file cannot be loaded
 }
 
 const CameraIcon = ({ className, style }: { className?: string, style?: React.CSSProperties }) => (
@@ -102,6 +135,13 @@ const researchCharacteristicOptions = [
   "Interstellar Communication", "Zero-Point Energy"
 ];
 
+// Census lines for POPULATE and RESEARCH; the made-up lists above stand in until a city exists.
+const populationLines = (census: CityCensus): string[] =>
+  census.districts.map(d => `${d.district.name}: ${d.residents.toLocaleString()} RESIDENTS`);
+
+const researchLines = (census: CityCensus): string[] =>
+  census.districts.map(d => `${d.district.name} (${d.district.zone.toUpperCase()}): ${d.buildings} BLDGS, AVG ${d.averageHeight} / MAX ${d.tallest}`);
+
 const validationCharacteristicOptions = [
   "Architectural Designs", "City Layout Grid", "Road Network Integrity", "Traffic Flow Simulation", 
   "Power Grid Distribution", "Water Reclamation Systems", "Food Synthesis Plants", "Air Quality Control", 
@@ -142,10 +182,31 @@ const MonitorScreen: React.FC<MonitorScreenProps> = ({
   isLoading,
   error,
   onGenerateClick,
+  citySeed,
+  onSeedSubmit,
+  theme,
+  themeLibrary,
+  savedThemes,
+  onThemeSelect,
+  onPromptSubmit,
+  onSaveTheme,
+  onDeleteTheme,
   isGenerating,
+  isLandscapeStreamed,
   canGenerate,
+  providerLabel,
+  repairLog,
+  cacheStats,
+  isCacheEnabled,
+  onToggleCache,
+  onClearCache,
   c64GreenStyle,
+  cityColor,
   generateBuildingCluster,
+  onPlacementReport,
+  restoredWorld,
+  onSaveSession,
+  onLoadSession,
 }) => {
   const baseButtonDisabled = isGenerating || !canGenerate;
   const threeCityscapeRef = useRef<ThreeCityscapeHandle>(null);
@@ -177,6 +238,32 @@ const MonitorScreen: React.FC<MonitorScreenProps> = ({
   const [currentConsoleLineIndex, setCurrentConsoleLineIndex] = useState(0);
   const consoleIntervalRef = useRef<number | null>(null);
 
+  // Editable copy of the city seed; submitted with Enter
+  const [seedInput, setSeedInput] = useState(citySeed);
+
+  // Editable city prompt; follows the armed theme and is submitted with Enter
+  const [promptInput, setPromptInput] = useState(theme.prompt);
+
+  // View-only setting: toggling relief never regenerates the city
+  const [isTerrainRelief, setIsTerrainRelief] = useState(true);
+
+  // View-only too, and remembered between visits; the strengths show while tuning
+  const [crtSettings, setCrtSettings] = useState<CrtSettings>(readCrtSettings);
+  const [isTuningCrt, setIsTuningCrt] = useState(false);
+  const crtPreset = crtPresetOf(crtSettings);
+
+  useEffect(() => {
+    writeCrtSettings(crtSettings);
+  }, [crtSettings]);
+
+  const sessionFileInputRef = useRef<HTMLInputElement>(null);
+  const [sessionStatus, setSessionStatus] = useState<string | null>(null);
+
+  const [isExportViewOnly, setIsExportViewOnly] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportStatus, setExportStatus] = useState<string | null>(null);
+  const [svgStatus, setSvgStatus] = useState<string | null>(null);
+
   // State for "CITY TERRAIN" window text animation
   const [typedMapCityNamePart, setTypedMapCityNamePart] = useState("");
   const [showMapCityCursor, setShowMapCityCursor] = useState(false);
@@ -267,6 +354,98 @@ const MonitorScreen: React.FC<MonitorScreenProps> = ({
     };
   }, [isLoading]);
 
+  useEffect(() => {
+    setSeedInput(citySeed);
+  }, [citySeed]);
+
+  const handleSeedFormSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (isGenerating) return;
+    onSeedSubmit(seedInput);
+  };
+
+  useEffect(() => {
+    setPromptInput(theme.prompt);
+  }, [theme]);
+
+  const handlePromptFormSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (isGenerating) return;
+    onPromptSubmit(promptInput);
+  };
+
+  // Steps through the library; an unsaved custom theme steps to the first preset.
+  const cycleTheme = (step: 1 | -1) => {
+    const index = themeLibrary.findIndex(t => t.id === theme.id);
+    const next = index === -1 ? 0 : (index + step + themeLibrary.length) % themeLibrary.length;
+    onThemeSelect(themeLibrary[next]);
+  };
+  const isSavedTheme = savedThemes.some(t => t.id === theme.id);
+
+  const handleSaveSession = () => {
+    const world = threeCityscapeRef.current?.captureStreamedWorld();
+    if (!world) return;
+    onSaveSession(world, isTerrainRelief);
+    setSessionStatus(`SAVED ${world.clusters.length} CLUSTERS`);
+  };
+
+  const handleExport = async (format: CityExportFormat) => {
+    const cityscape = threeCityscapeRef.current;
+    if (!cityscape || isExporting) return;
+    setIsExporting(true);
+    setExportStatus('EXPORTING...');
+    try {
+      const result = await cityscape.exportGeometry(format, isExportViewOnly);
+      if (!result) {
+        setExportStatus(null);
+        return;
+      }
+      downloadBlob(result.blob, `Future_Cities_${citySeed}${isExportViewOnly ? '_view' : ''}.${format}`);
+      setExportStatus(`${result.buildings} BLDGS / ${result.roads} ROADS`);
+    } catch (err) {
+      console.error("Error exporting city geometry:", err);
+      setExportStatus('EXPORT FAILED (SEE CONSOLE)');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleSvgExport = async (plotter: boolean) => {
+    const cityscape = threeCityscapeRef.current;
+    if (!cityscape || isExporting) return;
+    setIsExporting(true);
+    setSvgStatus('TRACING...');
+    try {
+      await new Promise(resolve => setTimeout(resolve, 0)); // Show the status before the trace blocks the page
+      const result = cityscape.exportSvg(plotter);
+      if (!result) {
+        setSvgStatus(null);
+        return;
+      }
+      downloadBlob(result.blob, `Future_Cities_${citySeed}${plotter ? '_plotter' : ''}.svg`);
+      setSvgStatus(`${result.paths} PATHS`);
+    } catch (err) {
+      console.error("Error exporting SVG:", err);
+      setSvgStatus('SVG FAILED (SEE CONSOLE)');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleSessionFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Picking the same file again still fires a change
+    if (!file) return;
+    try {
+      const session = onLoadSession(await file.text());
+      setIsTerrainRelief(session.terrainRelief);
+      setSessionStatus(`LOADED ${session.seed}`);
+    } catch (err) {
+      console.error("Error loading session file:", err);
+      setSessionStatus('LOAD FAILED (SEE CONSOLE)');
+    }
+  };
+
   // Cleanup for City Terrain text animation intervals
   useEffect(() => {
     return () => {
@@ -338,14 +517,17 @@ const MonitorScreen: React.FC<MonitorScreenProps> = ({
             if (type === 'populate' || type === 'research' || type === 'validate') {
                 setActiveFlashType(type);
                 let currentOptions: string[];
+                const census = threeCityscapeRef.current?.getCensus()
+                    ?? (landscapeData ? computeCityCensus(landscapeData.districts, landscapeData.buildings) : null);
+                const hasCensus = !!census && census.districts.length > 0;
                 switch(type) {
                     case 'populate':
-                        currentOptions = characteristicOptions;
-                        targetPopulationNumberRef.current = Math.floor(Math.random() * 9000000) + 1000000;
+                        currentOptions = hasCensus ? populationLines(census) : characteristicOptions;
+                        targetPopulationNumberRef.current = hasCensus ? census.residents : Math.floor(Math.random() * 9000000) + 1000000;
                         break;
                     case 'research':
-                        currentOptions = researchCharacteristicOptions;
-                        targetPopulationNumberRef.current = Math.floor(Math.random() * 950000) + 50000;
+                        currentOptions = hasCensus ? researchLines(census) : researchCharacteristicOptions;
+                        targetPopulationNumberRef.current = hasCensus ? census.floorArea : Math.floor(Math.random() * 950000) + 50000;
                         break;
                     case 'validate':
                         currentOptions = validationCharacteristicOptions;
@@ -518,9 +700,277 @@ const MonitorScreen: React.FC<MonitorScreenProps> = ({
           style={infoTextStyle}
         >
           <p>CITYNET OS v9.1 ONLINE</p>
-          <p>SYSTEM: GEMINI URBAN CORE</p>
+          <p>SYSTEM: {providerLabel}</p>
           <p>STATUS: <span className={isLoading ? "animate-pulse" : ""} style={infoTextStyle}>{isLoading ? "RENDERING SECTORS..." : (error ? "SYSTEM FAULT" : "CITY STABLE")}</span></p>
           <p>VIEW: <span style={infoTextStyle}>METROPLEX DRIVE</span></p>
+          <p>
+            GROUND:&nbsp;
+            <button
+              type="button"
+              onClick={() => setIsTerrainRelief(relief => !relief)}
+              aria-pressed={isTerrainRelief}
+              aria-label={isTerrainRelief ? "Terrain relief on. Click for flat ground." : "Flat ground. Click for terrain relief."}
+              className="uppercase hover:text-white focus:outline-none"
+              style={infoTextStyle}
+            >
+              [{isTerrainRelief ? 'RELIEF' : 'FLAT'}]
+            </button>
+          </p>
+          <p>
+            CRT:&nbsp;
+            <button
+              type="button"
+              onClick={() => setCrtSettings(settings => cycleCrtPreset(settings, -1).settings)}
+              aria-label="Previous CRT preset"
+              className="uppercase hover:text-white focus:outline-none"
+              style={infoTextStyle}
+            >
+              [&lt;]
+            </button>
+            &nbsp;{crtPreset ? crtPreset.name : 'CUSTOM'}&nbsp;
+            <button
+              type="button"
+              onClick={() => setCrtSettings(settings => cycleCrtPreset(settings, 1).settings)}
+              aria-label="Next CRT preset"
+              className="uppercase hover:text-white focus:outline-none"
+              style={infoTextStyle}
+            >
+              [&gt;]
+            </button>
+            &nbsp;
+            <button
+              type="button"
+              onClick={() => setIsTuningCrt(tuning => !tuning)}
+              aria-expanded={isTuningCrt}
+              aria-label={isTuningCrt ? "Hide CRT effect strengths" : "Show CRT effect strengths"}
+              className="uppercase hover:text-white focus:outline-none"
+              style={infoTextStyle}
+            >
+              [{isTuningCrt ? 'DONE' : 'TUNE'}]
+            </button>
+          </p>
+          {isTuningCrt && CRT_EFFECTS.map(effect => (
+            <p key={effect}>
+              &nbsp;&nbsp;{CRT_EFFECT_LABELS[effect]}:&nbsp;
+              <button
+                type="button"
+                onClick={() => setCrtSettings(settings => withCrtStrength(settings, effect, settings[effect] - CRT_STRENGTH_STEP))}
+                disabled={crtSettings[effect] === 0}
+                aria-label={`Weaken ${CRT_EFFECT_LABELS[effect].toLowerCase()}`}
+                className="uppercase hover:text-white focus:outline-none"
+                style={infoTextStyle}
+              >
+                [-]
+              </button>
+              &nbsp;{Math.round(crtSettings[effect] * 100)}%&nbsp;
+              <button
+                type="button"
+                onClick={() => setCrtSettings(settings => withCrtStrength(settings, effect, settings[effect] + CRT_STRENGTH_STEP))}
+                disabled={crtSettings[effect] === 1}
+                aria-label={`Strengthen ${CRT_EFFECT_LABELS[effect].toLowerCase()}`}
+                className="uppercase hover:text-white focus:outline-none"
+                style={infoTextStyle}
+              >
+                [+]
+              </button>
+            </p>
+          ))}
+          <form onSubmit={handleSeedFormSubmit} className="flex items-center">
+            <label htmlFor="city-seed-input">SEED:&nbsp;</label>
+            <input
+              id="city-seed-input"
+              type="text"
+              value={seedInput}
+              onChange={(e) => setSeedInput(e.target.value.toUpperCase())}
+              onBlur={() => setSeedInput(citySeed)}
+              disabled={isGenerating}
+              maxLength={32}
+              spellCheck={false}
+              aria-label="City seed. Type a seed and press Enter to regenerate that city."
+              className="bg-transparent border-0 border-b border-dashed p-0 w-24 sm:w-28 focus:outline-none uppercase font-['VT323'] text-[9px] sm:text-[10px] md:text-[11px]"
+              style={{ ...infoTextStyle, borderColor: c64GreenStyle.color }}
+            />
+          </form>
+          <p>
+            THEME:&nbsp;
+            <button
+              type="button"
+              onClick={() => cycleTheme(-1)}
+              aria-label="Previous theme"
+              className="uppercase hover:text-white focus:outline-none"
+              style={infoTextStyle}
+            >
+              [&lt;]
+            </button>
+            &nbsp;{theme.name}&nbsp;
+            <button
+              type="button"
+              onClick={() => cycleTheme(1)}
+              aria-label="Next theme"
+              className="uppercase hover:text-white focus:outline-none"
+              style={infoTextStyle}
+            >
+              [&gt;]
+            </button>
+            &nbsp;
+            {isSavedTheme ? (
+              <button
+                type="button"
+                onClick={() => onDeleteTheme(theme.id)}
+                aria-label={`Delete saved theme ${theme.name}`}
+                className="uppercase hover:text-white focus:outline-none"
+                style={infoTextStyle}
+              >
+                [DEL]
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={onSaveTheme}
+                aria-label="Save the current theme and prompt as a preset"
+                className="uppercase hover:text-white focus:outline-none"
+                style={infoTextStyle}
+              >
+                [SAVE]
+              </button>
+            )}
+          </p>
+          <form onSubmit={handlePromptFormSubmit} className="flex items-center">
+            <label htmlFor="city-prompt-input">PROMPT:&nbsp;</label>
+            <input
+              id="city-prompt-input"
+              type="text"
+              value={promptInput}
+              onChange={(e) => setPromptInput(e.target.value)}
+              disabled={isGenerating}
+              maxLength={MAX_THEME_PROMPT_LENGTH}
+              spellCheck={false}
+              aria-label="City prompt. Describe the city you want and press Enter to rebuild this seed in that style."
+              className="bg-transparent border-0 border-b border-dashed p-0 w-40 sm:w-56 md:w-64 focus:outline-none uppercase font-['VT323'] text-[9px] sm:text-[10px] md:text-[11px]"
+              style={{ ...infoTextStyle, borderColor: c64GreenStyle.color }}
+            />
+          </form>
+          {cacheStats && (
+            <p>
+              CACHE:&nbsp;
+              <button
+                type="button"
+                onClick={onToggleCache}
+                aria-pressed={!isCacheEnabled}
+                aria-label={isCacheEnabled ? "Generation cache on. Click to bypass it." : "Generation cache bypassed. Click to use it."}
+                className="uppercase hover:text-white focus:outline-none"
+                style={infoTextStyle}
+              >
+                [{isCacheEnabled ? 'ON' : 'BYPASS'}]
+              </button>
+              &nbsp;
+              <button
+                type="button"
+                onClick={onClearCache}
+                aria-label="Clear generation cache"
+                className="uppercase hover:text-white focus:outline-none"
+                style={infoTextStyle}
+              >
+                [CLEAR]
+              </button>
+              &nbsp;{cacheStats.entries} ITEMS / {Math.ceil(cacheStats.bytes / 1024)} KB
+            </p>
+          )}
+          <p>
+            SESSION:&nbsp;
+            <button
+              type="button"
+              onClick={handleSaveSession}
+              disabled={isGenerating || !landscapeData}
+              aria-label="Save the city, streamed clusters and view to a JSON file"
+              className="uppercase hover:text-white focus:outline-none"
+              style={infoTextStyle}
+            >
+              [SAVE]
+            </button>
+            &nbsp;
+            <button
+              type="button"
+              onClick={() => sessionFileInputRef.current?.click()}
+              disabled={isGenerating}
+              aria-label="Load a city session from a JSON file"
+              className="uppercase hover:text-white focus:outline-none"
+              style={infoTextStyle}
+            >
+              [LOAD]
+            </button>
+            {sessionStatus && <>&nbsp;{sessionStatus}</>}
+            <input
+              ref={sessionFileInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleSessionFileChange}
+              className="hidden"
+              aria-hidden="true"
+              tabIndex={-1}
+            />
+          </p>
+          <p>
+            EXPORT:&nbsp;
+            <button
+              type="button"
+              onClick={() => handleExport('glb')}
+              disabled={isGenerating || isExporting || !landscapeData}
+              aria-label="Export the city as a binary glTF model"
+              className="uppercase hover:text-white focus:outline-none"
+              style={infoTextStyle}
+            >
+              [GLB]
+            </button>
+            &nbsp;
+            <button
+              type="button"
+              onClick={() => handleExport('obj')}
+              disabled={isGenerating || isExporting || !landscapeData}
+              aria-label="Export the city as a Wavefront OBJ model"
+              className="uppercase hover:text-white focus:outline-none"
+              style={infoTextStyle}
+            >
+              [OBJ]
+            </button>
+            &nbsp;
+            <button
+              type="button"
+              onClick={() => setIsExportViewOnly(viewOnly => !viewOnly)}
+              aria-pressed={isExportViewOnly}
+              aria-label={isExportViewOnly ? "Exporting what is in view. Click to export the whole world." : "Exporting the whole world. Click to export only what is in view."}
+              className="uppercase hover:text-white focus:outline-none"
+              style={infoTextStyle}
+            >
+              [{isExportViewOnly ? 'VIEW' : 'ALL'}]
+            </button>
+            {exportStatus && <>&nbsp;{exportStatus}</>}
+          </p>
+          <p>
+            SVG:&nbsp;
+            <button
+              type="button"
+              onClick={() => handleSvgExport(false)}
+              disabled={isGenerating || isExporting || !landscapeData}
+              aria-label="Export the cover view as an SVG drawing"
+              className="uppercase hover:text-white focus:outline-none"
+              style={infoTextStyle}
+            >
+              [COVER]
+            </button>
+            &nbsp;
+            <button
+              type="button"
+              onClick={() => handleSvgExport(true)}
+              disabled={isGenerating || isExporting || !landscapeData}
+              aria-label="Export the cover view as an SVG drawing with paths merged and ordered for a pen plotter"
+              className="uppercase hover:text-white focus:outline-none"
+              style={infoTextStyle}
+            >
+              [PLOTTER]
+            </button>
+            {svgStatus && <>&nbsp;{svgStatus}</>}
+          </p>
         </div>
 
         {isLoading && (
@@ -790,6 +1240,9 @@ const MonitorScreen: React.FC<MonitorScreenProps> = ({
           className="absolute bottom-2 right-2 sm:bottom-3 sm:right-3 text-[9px] sm:text-[10px] md:text-[11px] opacity-85 z-20 font-['VT323'] text-right"
           style={infoTextStyle}
         >
+          {repairLog.slice(-4).map((line, index) => (
+            <p key={`${repairLog.length}-${index}`} className="opacity-75 max-w-[45vw] truncate" title={line}>{line}</p>
+          ))}
           <p>SECTOR: <span style={infoTextStyle}>URBAN ZONE</span></p>
           <p>RENDER MODE: <span style={infoTextStyle}>NEON WIREFRAME</span></p>
         </div>
@@ -803,7 +1256,7 @@ const MonitorScreen: React.FC<MonitorScreenProps> = ({
         </footer>
 
         <div className="absolute inset-0 w-full h-full flex items-center justify-center overflow-hidden z-10">
-          {isLoading && (
+          {isLoading && !isLandscapeStreamed && (
             <div className="text-2xl flex flex-col items-center" style={infoTextStyle}>
               <LogoSpinner
                 className="h-40 w-40 sm:h-56 sm:w-56 md:h-[308px] md:w-[308px] lg:h-96 lg:w-96 xl:h-[460px] xl:w-[460px] 2xl:h-[652px] 2xl:w-[652px] mb-1 sm:mb-2 md:mb-3"
@@ -818,13 +1271,20 @@ const MonitorScreen: React.FC<MonitorScreenProps> = ({
               <p className="mt-2 text-sm opacity-75">(CITY OFFLINE - ATTEMPT REGENERATION)</p>
             </div>
           )}
-          {!isLoading && (!error || error.toLowerCase().includes("api_key")) && (
+          {(!isLoading || isLandscapeStreamed) && (!error || error.toLowerCase().includes("api_key")) && (
               <ThreeCityscape
                 ref={threeCityscapeRef}
                 landscapeData={landscapeData}
-                globalCityColor={c64GreenStyle.color}
+                landscapeStreamed={isLandscapeStreamed}
+                landscapeArriving={isLoading}
+                citySeed={citySeed}
+                terrainRelief={isTerrainRelief}
+                crtSettings={crtSettings}
+                globalCityColor={cityColor}
                 onScreenshotInitiated={handleScreenshotInitiated}
                 generateBuildingCluster={generateBuildingCluster}
+                onPlacementReport={onPlacementReport}
+                restoredWorld={restoredWorld}
               />
           )}
            {!isLoading && !error && !landscapeData && (
@@ -973,7 +1433,7 @@ const MonitorScreen: React.FC<MonitorScreenProps> = ({
                     className="font-['VT323'] text-sm sm:text-base md:text-lg lg:text-xl uppercase mt-1"
                     style={blackTextStyle}
                   >
-                    DATA POINTS ANALYZED:
+                    FLOOR AREA SURVEYED:
                   </p>
                   <h3 
                     className="font-['VT323'] text-lg sm:text-xl md:text-2xl lg:text-3xl xl:text-4xl 2xl:text-4xl uppercase mt-0 sm:mt-0.5 md:mt-1"
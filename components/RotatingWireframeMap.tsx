@@ -1,5 +1,6 @@
 import React, { useRef, useEffect, useMemo } from 'react';
 import * as THREE from 'three';
+import { multiSineHeight } from '../utils/terrain';
 
 interface RotatingWireframeMapProps {
   color: string; // Color for the wireframe lines
@@ -53,9 +54,7 @@ const RotatingWireframeMap: React.FC<RotatingWireframeMapProps> = ({ color }) =>
 
         // More complex height generation: multiple sine waves + noise for variation
         let height = 
-            Math.sin(x * 0.05) * Math.cos(y * 0.08) * maxHeight * 0.4 +
-            Math.sin(x * 0.15 + y * 0.03) * maxHeight * 0.3 +
-            Math.cos(x * 0.02 - y * 0.12) * maxHeight * 0.2 +
+            multiSineHeight(x, y, maxHeight) +
             (Math.random() - 0.5) * maxHeight * 0.15; // Add some noise
 
         // Create a central depression / valley for a potential lake
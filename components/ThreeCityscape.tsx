@@ -1,17 +1,57 @@
 import React, { useRef, useEffect, useMemo, useCallback, useImperativeHandle, forwardRef } from 'react';
 import * as THREE from 'three';
-import type { LandscapeData, CityElementData } from '../App';
+import type { LandscapeData, CityElementData, ClusterData, RoadData, DistrictData } from '../App';
+import { createBuildingBatches, type BuildingBatches } from '../utils/buildingBatches';
+import { createLinePool, copyDrawnLines } from '../utils/linePool';
+import { createStreamLifecycle, streamedBuilding, streamedRoad, type LifecycleSweep } from '../utils/streamLifecycle';
+import { roadLinePoints } from '../utils/roadGeometry';
+import { getFootprintRadius } from '../services/buildingShapes';
+import { createFootprintIndex } from '../services/footprintIndex';
+import {
+  chunkAt, chunkCentre, chunkIdPrefix, chunkKey, chunksAround, chunkSurroundings, createChunkStore, isChunkBuiltUp, neighbourOutlines,
+  parseChunkIdPrefix, settleChunk, type ChunkCoords, type StoredChunk,
+} from '../services/worldChunks';
+import { createChunkPrefetcher, predictPath } from '../services/chunkPrefetch';
+import { summariseNeighbourhood } from '../services/neighbourhood';
+import type { ClusterSurroundings } from '../services/cityGenerationProvider';
+import type { RepairReport } from '../services/cityRepair';
+import { ZONE_PROFILES, districtAt } from '../services/districts';
+import { computeCityCensus, type CityCensus } from '../services/cityCensus';
+import type { StreamedWorld } from '../services/citySession';
+import { exportCityGeometry, type CityExportFormat, type CityExportResult } from '../utils/cityExport';
+import { exportPlotterSvg, type PlotterSvgResult } from '../utils/plotterSvg';
+import { layoutCover, COVER_FONT_FAMILY, COVER_RING_COLOR } from '../utils/coverLayout';
+import { createGroundHeightSampler, type GroundHeightSampler } from '../utils/terrain';
+import { createGroundGrid, type GroundGrid } from '../utils/groundGrid';
+import { createCrtPipeline, type CrtPipeline } from '../utils/crtPipeline';
+import type { CrtSettings } from '../utils/crtSettings';
 
 interface ThreeCityscapeProps {
   landscapeData: LandscapeData | null;
+  landscapeStreamed?: boolean; // The landscape arrives part by part; buildings it adds fade in
+  landscapeArriving?: boolean; // Not complete yet; chunks, whose neighbourhoods it shapes, wait for it
+  citySeed: string;
+  terrainRelief: boolean; // Rolling hills under the city; flat ground otherwise
+  crtSettings: CrtSettings; // Post-processing on screen and on the cover capture
   globalCityColor: string;
   onScreenshotInitiated: () => void;
-  generateBuildingCluster: (clusterIdPrefix: string) => Promise<CityElementData[] | null>;
+  // `surroundings` describe the spawn area: its district, which the cluster's buildings
+  // inherit, the landscape's sky and the buildings already standing around it
+  generateBuildingCluster: (clusterIdPrefix: string, surroundings: ClusterSurroundings) => Promise<ClusterData | null>;
+  onPlacementReport?: (report: RepairReport) => void; // Streamed buildings moved, shrunk or dropped on arrival
+  // A loaded session: replayed once, as soon as `landscape` is the landscape on screen
+  restoredWorld?: { landscape: LandscapeData; world: StreamedWorld } | null;
 }
 
 export interface ThreeCityscapeHandle {
   turnViewDirection: (direction: 'left' | 'right') => void;
   zoomCameraByFactor: (factor: number) => void;
+  getCensus: () => CityCensus; // Landscape and streamed buildings currently in the world
+  captureStreamedWorld: () => StreamedWorld | null; // null before the scene exists
+  // Landscape and streamed clusters as a model file; `viewOnly` keeps what the camera sees
+  exportGeometry: (format: CityExportFormat, viewOnly: boolean) => Promise<CityExportResult | null>;
+  // The cover's view as SVG lines with hidden lines removed; `plotter` merges and orders them for pens
+  exportSvg: (plotter: boolean) => PlotterSvgResult | null;
 }
 
 const HIGH_ANGLE_INITIAL_CAMERA_Y = 300;
@@ -31,12 +71,14 @@ const KEYBOARD_ROTATION_SPEED = 0.02;
 const MOUSE_AZIMUTH_SENSITIVITY_PER_FRAME = 0.015;
 
 // Constants for Dynamic Cluster Generation
-const GENERATION_TRIGGER_DISTANCE = 400; 
-const CLUSTER_SPAWN_AHEAD_OFFSET = 600; 
-const MIN_DISTANCE_BETWEEN_TRIGGER_POINTS = 300; 
-const MAX_ACTIVE_CLUSTER_REQUESTS = 1; 
-const FADE_IN_DURATION = 0.35; 
-const INTER_CLUSTER_SPACING = 225; // Spacing between centers of adjacent clusters in a multi-cluster spawn
+const CLUSTER_SPAWN_AHEAD_OFFSET = 600; // Stored chunks along this much of the predicted path are loaded
+const CHUNK_LOAD_RADIUS = 340; // Reaches the chunks next to the path
+const PREFETCH_HORIZON = 1800; // Chunks along this much of the predicted path are generated ahead of time
+const MAX_ACTIVE_CHUNK_REQUESTS = 3; 
+const CHUNK_RETRY_DELAY = 5; // Seconds before a chunk whose cluster failed is requested again
+const FADE_DURATION = 0.35; // Seconds a streamed building or road takes to fade in or out
+const NO_LANDSCAPE = { roads: [], buildings: [] }; // Chunks streamed before the landscape has arrived
+const GROUND_GRID_LOOK_AHEAD = 700; // The grid is centred this far ahead of the camera, where most of the visible ground is
 
 
 const skyVertexShader = `
@@ -52,20 +94,38 @@ const skyFragmentShader = `
   uniform vec3 horizonColor;
   void main() {
     gl_FragColor = vec4(mix(horizonColor, topColor, vUv.y), 1.0);
+    #include <colorspace_fragment>
   }
 `;
 
+// Renders a cover pass through the same CRT effects as the screen. A still has
+// no earlier frames to leave trails, so phosphor persistence is left out.
+const renderCapture = (renderer: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.Camera, settings: CrtSettings) => {
+  const pipeline = createCrtPipeline(renderer, { ...settings, persistence: 0 });
+  pipeline.render(scene, camera);
+  pipeline.dispose();
+};
+
 const ThreeCityscape: React.ForwardRefRenderFunction<ThreeCityscapeHandle, ThreeCityscapeProps> = (
-  { landscapeData, globalCityColor, onScreenshotInitiated, generateBuildingCluster },
+  { landscapeData, landscapeStreamed = false, landscapeArriving = false, citySeed, terrainRelief, crtSettings, globalCityColor, onScreenshotInitiated, generateBuildingCluster, onPlacementReport, restoredWorld },
   ref
 ) => {
   const mountRef = useRef<HTMLDivElement>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
+  const crtPipelineRef = useRef<CrtPipeline | null>(null); // Draws each frame through the CRT effects
+  const crtSettingsRef = useRef(crtSettings); // Read by the capture, which builds its own pipelines
   const animationFrameIdRef = useRef<number | null>(null);
   const skyMeshRef = useRef<THREE.Mesh | null>(null);
-  const cityElementsGroupRef = useRef<THREE.Group | null>(null); // Holds all buildings (initial and dynamic)
+  const groundGridRef = useRef<GroundGrid | null>(null);
+  const groundHeightRef = useRef<GroundHeightSampler>(createGroundHeightSampler(terrainRelief));
+  const cityElementsGroupRef = useRef<THREE.Group | null>(null); // Holds all roads (initial and dynamic)
+  // Every building, landscape and streamed, drawn in one batch per shape. Building
+  // data keeps position.y relative to the ground; the batches seat each building
+  // on the lowest terrain under its footprint so hillside buildings never float.
+  const buildingBatchesRef = useRef<BuildingBatches | null>(null);
+  const linePoolRef = useRef(createLinePool()); // Road line objects, reused as roads retire and stream in
   const cameraAzimuthAngleRef = useRef<number>(0); 
   const cameraFovRef = useRef<number>(DEFAULT_FOV); 
   const isCapturingRef = useRef(false); 
@@ -80,11 +140,32 @@ const ThreeCityscape: React.ForwardRefRenderFunction<ThreeCityscapeHandle, Three
   const cityColorTHREE = useMemo(() => new THREE.Color(globalCityColor), [globalCityColor]);
 
   // Refs for dynamic generation
-  const dynamicallyGeneratedBuildingsRef = useRef<Set<string>>(new Set());
-  const generationTriggerPointsRef = useRef<THREE.Vector3[]>([]);
-  const activeClusterRequestsRef = useRef<number>(0);
-  const nextClusterIdCounterRef = useRef<number>(0);
+  const dynamicallyGeneratedBuildingsRef = useRef<Set<string>>(new Set()); // Ids of streamed buildings and roads
+  const landscapeBuildingsRef = useRef<Map<string, CityElementData>>(new Map()); // Landscape buildings as last drawn, by id
+  const worldRoadsRef = useRef<RoadData[]>([]); // Landscape and streamed roads in world coordinates
+  const worldFootprintsRef = useRef(createFootprintIndex()); // Footprints of every building standing in the world
+  const streamLifecycleRef = useRef(createStreamLifecycle()); // Retires streamed buildings and roads the flight has left behind
+  const districtsRef = useRef<DistrictData[]>([]); // The landscape's districts; they tile the streamed world
+  const onPlacementReportRef = useRef(onPlacementReport); // Read from the animation loop without restarting it
+  const restoredWorldRef = useRef(restoredWorld);
+  const appliedRestoreRef = useRef<typeof restoredWorld>(null);
+  const citySeedRef = useRef(citySeed); // Read from the animation loop without restarting it
+  const landscapeRef = useRef<LandscapeData | null>(null); // What chunks settle against and take their sky from
+  const landscapeArrivingRef = useRef(landscapeArriving); // Read from the animation loop without restarting it
+  const chunkStoreRef = useRef(createChunkStore()); // Every chunk generated for this city, loaded or not
+  const loadedChunksRef = useRef<Set<string>>(new Set()); // Keys of chunks standing in the world
+  const failedChunksRef = useRef<Map<string, number>>(new Map()); // When each chunk's last request failed, by key
+  const worldEpochRef = useRef(0); // Bumped with each reset, so clusters requested before it are dropped
   const clockRef = useRef<THREE.Clock | null>(null);
+  const generateChunkRef = useRef<(coords: ChunkCoords) => Promise<void>>(() => Promise.resolve());
+  // Generates the built-up chunks along the predicted flight path before they come into range
+  const chunkPrefetcherRef = useRef(createChunkPrefetcher(
+    coords => generateChunkRef.current(coords),
+    coords => !chunkStoreRef.current.get(coords)
+      && (clockRef.current?.getElapsedTime() ?? 0) - (failedChunksRef.current.get(chunkKey(coords)) ?? -Infinity) >= CHUNK_RETRY_DELAY
+      && isChunkBuiltUp(citySeedRef.current, coords),
+    { concurrency: MAX_ACTIVE_CHUNK_REQUESTS, reach: CHUNK_LOAD_RADIUS },
+  ));
 
 
   useImperativeHandle(ref, () => ({
@@ -100,57 +181,95 @@ const ThreeCityscape: React.ForwardRefRenderFunction<ThreeCityscapeHandle, Three
       if (!cameraRef.current) return;
       const fovChange = DEFAULT_FOV * factor;
       cameraFovRef.current = Math.max(MIN_FOV, Math.min(MAX_FOV, cameraFovRef.current + fovChange));
-    }
+    },
+    getCensus: () => computeCityCensus(districtsRef.current, worldFootprintsRef.current.buildings()),
+    captureStreamedWorld: () => {
+      const cam = cameraRef.current;
+      if (!cam) return null;
+      return {
+        clusters: chunkStoreRef.current.chunks().map(({ idPrefix, offset, cluster }) => ({ idPrefix, offset, cluster })),
+        camera: {
+          position: { x: cam.position.x, y: cam.position.y, z: cam.position.z },
+          azimuth: cameraAzimuthAngleRef.current,
+          fov: cameraFovRef.current,
+        },
+      };
+    },
+    exportGeometry: async (format: CityExportFormat, viewOnly: boolean) => {
+      const snapshot = snapshotWorld();
+      if (!snapshot) return null;
+      const buildingsById = new Map(worldFootprintsRef.current.buildings().map(building => [building.id, building]));
+      try {
+        return await exportCityGeometry(snapshot.group, buildingsById, format, viewOnly ? cameraRef.current : null);
+      } finally {
+        snapshot.dispose();
+      }
+    },
+    exportSvg: (plotter: boolean) => {
+      const camera = cameraRef.current;
+      const snapshot = snapshotWorld();
+      if (!snapshot || !camera) return null;
+      const buildingsById = new Map(worldFootprintsRef.current.buildings().map(building => [building.id, building]));
+      try {
+        return exportPlotterSvg(snapshot.group, buildingsById, camera, { size: SCREENSHOT_TARGET_SIZE, citySeed, color: globalCityColor, plotter });
+      } finally {
+        snapshot.dispose();
+      }
+    },
   }));
 
-  const createOrUpdateLineSegments = useCallback((elementData: CityElementData, existingSegments?: THREE.LineSegments, isDynamicFadeIn: boolean = false): THREE.LineSegments => {
-    let geometry: THREE.BufferGeometry;
-    if (elementData.shape === 'box' && elementData.dimensions.width && elementData.dimensions.height && elementData.dimensions.depth) {
-      geometry = new THREE.BoxGeometry(elementData.dimensions.width, elementData.dimensions.height, elementData.dimensions.depth);
-    } else if (elementData.shape === 'cylinder' && elementData.dimensions.radius && elementData.dimensions.height) {
-      const cylinderGeom = new THREE.CylinderGeometry(elementData.dimensions.radius, elementData.dimensions.radius, elementData.dimensions.height, 16, 1, false);
-      geometry = new THREE.EdgesGeometry(cylinderGeom);
-      cylinderGeom.dispose();
-    } else { 
-      geometry = new THREE.BoxGeometry(10, 10, 10); 
-    }
-    
-    const edges = (geometry instanceof THREE.EdgesGeometry) ? geometry : new THREE.EdgesGeometry(geometry);
-    if (!(geometry instanceof THREE.EdgesGeometry)) geometry.dispose();
-
-
-    if (existingSegments) {
-      existingSegments.geometry.dispose();
-      existingSegments.geometry = edges;
-      const mat = existingSegments.material as THREE.LineBasicMaterial;
-      mat.color.copy(cityColorTHREE);
-      if (isDynamicFadeIn && clockRef.current) {
-        mat.transparent = true;
-        mat.opacity = 0.01; // Start almost invisible
-        existingSegments.userData.isDynamicallyGenerated = true;
-        existingSegments.userData.isAppearing = true;
-        existingSegments.userData.creationTime = clockRef.current.getElapsedTime();
-      } else {
-        mat.opacity = 1.0;
-        mat.transparent = false;
-      }
-      return existingSegments;
-    }
-    
-    const material = new THREE.LineBasicMaterial({ color: cityColorTHREE });
+  // Roads and buildings still standing as one line object each, for the
+  // exporters, which read them one by one; `dispose` frees the copies.
+  const snapshotWorld = (): { group: THREE.Group; dispose: () => void } | null => {
+    const roads = cityElementsGroupRef.current;
+    const batches = buildingBatchesRef.current;
+    if (!roads || !batches) return null;
+    const roadCopies = roads.children
+      .filter(road => !road.userData.isDisappearing)
+      .map(road => copyDrawnLines(road as THREE.LineSegments));
+    const buildings = batches.toLineSegments();
+    const group = new THREE.Group();
+    roadCopies.forEach(road => group.add(road));
+    buildings.forEach(building => group.add(building));
+    group.updateMatrixWorld(true);
+    return {
+      group,
+      dispose: () => {
+        roadCopies.forEach(road => road.geometry.dispose());
+        buildings.forEach(building => {
+          building.geometry.dispose();
+          (building.material as THREE.Material).dispose();
+        });
+      },
+    };
+  };
+
+  // The city colour, dimmed by the zone of the building's district
+  const lineColorFor = useCallback((elementData: CityElementData): THREE.Color => {
+    const district = districtsRef.current.find(d => d.id === elementData.districtId)
+      ?? districtAt(districtsRef.current, elementData.position.x, elementData.position.z);
+    const intensity = district ? ZONE_PROFILES[district.zone].lineIntensity : 1;
+    return cityColorTHREE.clone().multiplyScalar(intensity);
+  }, [cityColorTHREE]);
+
+  const drawBuilding = useCallback((elementData: CityElementData, fadeIn: boolean) => {
+    buildingBatchesRef.current?.set(elementData, {
+      color: lineColorFor(elementData),
+      footprintRadius: getFootprintRadius(elementData),
+      fadeIn,
+    });
+  }, [lineColorFor]);
+
+  const createRoadLineSegments = useCallback((road: RoadData, isDynamicFadeIn: boolean = false): THREE.LineSegments => {
+    const segments = linePoolRef.current.acquire(roadLinePoints(road, groundHeightRef.current), cityColorTHREE);
     if (isDynamicFadeIn && clockRef.current) {
+      const material = segments.material as THREE.LineBasicMaterial;
       material.transparent = true;
       material.opacity = 0.01;
     }
-
-    const segments = new THREE.LineSegments(edges, material);
-    segments.position.set(elementData.position.x, elementData.position.y + (elementData.dimensions.height || 0) / 2, elementData.position.z);
-    if (elementData.orientationY !== undefined) {
-      segments.rotation.y = elementData.orientationY;
-    }
-    segments.userData = { 
-      id: elementData.id, 
-      height: elementData.dimensions.height || 0,
+    segments.userData = {
+      id: road.id,
+      isRoad: true,
       ...(isDynamicFadeIn && clockRef.current && {
         isDynamicallyGenerated: true,
         isAppearing: true,
@@ -160,6 +279,90 @@ const ThreeCityscape: React.ForwardRefRenderFunction<ThreeCityscapeHandle, Three
     return segments;
   }, [cityColorTHREE]);
 
+  // Adds a stored chunk's settled roads and buildings to the world. They fade in
+  // whether the chunk was just generated or has come back into range.
+  const loadChunk = useCallback((chunk: StoredChunk) => {
+    const group = cityElementsGroupRef.current;
+    if (!group) return;
+    const key = chunkKey(chunk.coords);
+    loadedChunksRef.current.add(key);
+    chunk.roads.forEach(road => {
+      group.add(createRoadLineSegments(road, true));
+      worldRoadsRef.current.push(road);
+      dynamicallyGeneratedBuildingsRef.current.add(road.id);
+    });
+    chunk.buildings.forEach(building => {
+      drawBuilding(building, true);
+      worldFootprintsRef.current.insert(building);
+      dynamicallyGeneratedBuildingsRef.current.add(building.id);
+    });
+    streamLifecycleRef.current.track(key, [
+      ...chunk.roads.map(streamedRoad),
+      ...chunk.buildings.map(building => streamedBuilding(building, getFootprintRadius(building))),
+    ]);
+  }, [drawBuilding, createRoadLineSegments]);
+
+  // Generates a chunk's cluster and settles it into the chunk store, to load
+  // once the flight is close. A cluster that arrives after the world was reset
+  // belongs to another city and is dropped.
+  const generateChunk = useCallback((coords: ChunkCoords): Promise<void> => {
+    const key = chunkKey(coords);
+    const epoch = worldEpochRef.current;
+    const idPrefix = chunkIdPrefix(coords);
+    const offset = chunkCentre(coords);
+    const markFailed = () => failedChunksRef.current.set(key, clockRef.current?.getElapsedTime() ?? 0);
+    const landscape = landscapeRef.current ?? NO_LANDSCAPE;
+    return generateBuildingCluster(idPrefix, {
+      district: districtAt(districtsRef.current, offset.x, offset.z),
+      sky: landscapeRef.current?.sky ?? null,
+      neighbourhood: summariseNeighbourhood(
+        chunkSurroundings(chunkStoreRef.current, coords, landscape).buildings,
+        offset,
+        neighbourOutlines(chunkStoreRef.current, citySeedRef.current, coords, districtsRef.current),
+      ),
+    })
+      .then(cluster => {
+        if (epoch !== worldEpochRef.current) return;
+        if (!cluster) {
+          markFailed();
+          return;
+        }
+        failedChunksRef.current.delete(key);
+        const { fixes } = settleChunk(chunkStoreRef.current, coords, { idPrefix, offset, cluster }, landscapeRef.current ?? NO_LANDSCAPE);
+        if (fixes.length > 0) {
+          onPlacementReportRef.current?.({ subject: `cluster ${idPrefix} placement`, fixes });
+        }
+      })
+      .catch(err => {
+        console.error(`Failed to generate chunk ${key}:`, err);
+        if (epoch === worldEpochRef.current) markFailed();
+      });
+  }, [generateBuildingCluster]);
+
+  // Takes what a lifecycle sweep retired out of the world: buildings and roads
+  // fade out, then return to the batches and the line pool, and their chunks
+  // are unloaded, to load again from the chunk store if the flight returns.
+  const retireStreamed = useCallback(({ retired, clustersGone }: LifecycleSweep, time: number) => {
+    const retiredIds = new Set(retired.map(item => item.id));
+    retired.forEach(item => {
+      dynamicallyGeneratedBuildingsRef.current.delete(item.id);
+      if (item.kind !== 'building') return;
+      buildingBatchesRef.current?.retire(item.id);
+      worldFootprintsRef.current.remove(item.id);
+    });
+    if (retired.some(item => item.kind === 'road')) {
+      worldRoadsRef.current = worldRoadsRef.current.filter(road => !retiredIds.has(road.id));
+      cityElementsGroupRef.current?.children.forEach(child => {
+        if (!retiredIds.has(child.userData.id) || child.userData.isDisappearing) return;
+        ((child as THREE.LineSegments).material as THREE.LineBasicMaterial).transparent = true;
+        child.userData.isAppearing = false;
+        child.userData.isDisappearing = true;
+        child.userData.retireTime = time;
+      });
+    }
+    clustersGone.forEach(key => loadedChunksRef.current.delete(key));
+  }, []);
+
 
   const handleCanvasClickAndCapture = useCallback(async () => {
     if (!rendererRef.current || !sceneRef.current || !cameraRef.current || !mountRef.current || !skyMeshRef.current) return;
@@ -191,6 +394,7 @@ const ThreeCityscape: React.ForwardRefRenderFunction<ThreeCityscapeHandle, Three
             }
         });
     }
+    buildingBatchesRef.current?.setOverride({ color: null });
     
     const originalAspect = camera.aspect; 
 
@@ -225,7 +429,7 @@ const ThreeCityscape: React.ForwardRefRenderFunction<ThreeCityscapeHandle, Three
             });
         }
         skyMesh.visible = false;
-        offscreenRendererGreen.render(scene, camera);
+        renderCapture(offscreenRendererGreen, scene, camera, crtSettingsRef.current);
         greenCityscapeDataURL = offscreenRendererGreen.domElement.toDataURL('image/png');
         offscreenRendererGreen.dispose();
 
@@ -238,6 +442,7 @@ const ThreeCityscape: React.ForwardRefRenderFunction<ThreeCityscapeHandle, Three
                 }
             });
         }
+        buildingBatchesRef.current?.setOverride({ color: new THREE.Color(0xffffff) });
 
         const offscreenCanvasWhite = document.createElement('canvas');
         offscreenCanvasWhite.width = SCREENSHOT_TARGET_SIZE;
@@ -252,7 +457,7 @@ const ThreeCityscape: React.ForwardRefRenderFunction<ThreeCityscapeHandle, Three
         offscreenRendererWhite.setSize(SCREENSHOT_TARGET_SIZE, SCREENSHOT_TARGET_SIZE);
         offscreenRendererWhite.setClearColor(0x000000, 1); 
 
-        offscreenRendererWhite.render(scene, camera);
+        renderCapture(offscreenRendererWhite, scene, camera, crtSettingsRef.current);
         whiteCityscapeDataURL = offscreenRendererWhite.domElement.toDataURL('image/png');
         offscreenRendererWhite.dispose();
 
@@ -271,8 +476,8 @@ const ThreeCityscape: React.ForwardRefRenderFunction<ThreeCityscapeHandle, Three
                         mat.color.copy(cityColorTHREE); 
                     }
                     // Restore opacity if it was dynamic
-                    if (element.userData.isDynamicallyGenerated && element.userData.isAppearing && clockRef.current) {
-                       mat.opacity = Math.min(1, (clockRef.current.getElapsedTime() - element.userData.creationTime) / FADE_IN_DURATION);
+                    if (element.userData.isAppearing && clockRef.current) {
+                       mat.opacity = Math.min(1, (clockRef.current.getElapsedTime() - element.userData.creationTime) / FADE_DURATION);
                        mat.transparent = true;
                     } else if (element.userData.isDynamicallyGenerated && !element.userData.isAppearing) {
                         mat.opacity = 1.0;
@@ -284,6 +489,7 @@ const ThreeCityscape: React.ForwardRefRenderFunction<ThreeCityscapeHandle, Three
                 }
             });
         }
+        buildingBatchesRef.current?.setOverride(null);
         
         skyMesh.visible = originalSkyVisible;
         isCapturingRef.current = false; 
@@ -314,97 +520,43 @@ const ThreeCityscape: React.ForwardRefRenderFunction<ThreeCityscapeHandle, Three
 
         ctx.drawImage(loadedGreenImg, 0, 0, SCREENSHOT_TARGET_SIZE, SCREENSHOT_TARGET_SIZE);
 
-        const holeRadiusMultiplier = 0.264 * 0.7; 
-        const holeRadius = SCREENSHOT_TARGET_SIZE * holeRadiusMultiplier; 
-        const holeCenterX = SCREENSHOT_TARGET_SIZE / 2;
-        const holeCenterY = SCREENSHOT_TARGET_SIZE / 2;
+        const cover = layoutCover(SCREENSHOT_TARGET_SIZE, citySeed);
+        const { hole } = cover;
 
         ctx.save();
         ctx.beginPath();
-        ctx.arc(holeCenterX, holeCenterY, holeRadius, 0, Math.PI * 2, false);
+        ctx.arc(hole.cx, hole.cy, hole.radius, 0, Math.PI * 2, false);
         ctx.clip();
         ctx.drawImage(loadedWhiteImg, 0, 0, SCREENSHOT_TARGET_SIZE, SCREENSHOT_TARGET_SIZE); 
         ctx.restore(); 
 
-        ctx.strokeStyle = '#181818'; 
-        ctx.lineWidth = Math.max(2, Math.round(SCREENSHOT_TARGET_SIZE * 0.008)); 
+        ctx.strokeStyle = COVER_RING_COLOR; 
+        ctx.lineWidth = hole.ringWidth; 
         ctx.beginPath();
-        ctx.arc(holeCenterX, holeCenterY, holeRadius, 0, Math.PI * 2, false);
+        ctx.arc(hole.cx, hole.cy, hole.radius, 0, Math.PI * 2, false);
         ctx.stroke();
         
         ctx.fillStyle = globalCityColor; 
-        ctx.textBaseline = 'top'; 
-        
-        const scaleFactor = 1.2; 
-
-        ctx.textAlign = 'center';
-        const margin = Math.max(Math.round(15 * scaleFactor), Math.floor(SCREENSHOT_TARGET_SIZE / (75 / scaleFactor))); 
-        const centerX = SCREENSHOT_TARGET_SIZE / 2;
-        let currentY = margin;
-
-        ctx.shadowColor = globalCityColor;
-        ctx.shadowBlur = Math.max(Math.round(4 * scaleFactor), Math.floor(SCREENSHOT_TARGET_SIZE / (150 / scaleFactor))); 
         ctx.shadowOffsetX = 0;
         ctx.shadowOffsetY = 0;
 
-        const aeonlightsFontSize = Math.max(Math.round(16 * scaleFactor), Math.floor(SCREENSHOT_TARGET_SIZE * 0.018 * scaleFactor)); 
-        ctx.font = `bold ${aeonlightsFontSize}px 'VT323', monospace`;
-        const aeonlightsText = "Aeonlights";
-        ctx.fillText(aeonlightsText.toUpperCase(), centerX, currentY);
-        currentY += aeonlightsFontSize * 1.2;
-
-        currentY += Math.max(Math.round(3 * scaleFactor), Math.floor(SCREENSHOT_TARGET_SIZE / (150 / scaleFactor))); 
-        const lineWidth = SCREENSHOT_TARGET_SIZE * (0.12 * scaleFactor); 
-        const baseLineHeight = Math.max(1, Math.floor(SCREENSHOT_TARGET_SIZE / 400));
-        const lineHeight = Math.max(1, Math.round(baseLineHeight * scaleFactor));
-        
         ctx.shadowColor = 'transparent'; 
-        ctx.fillRect(centerX - lineWidth / 2, currentY, lineWidth, lineHeight);
-        ctx.shadowColor = globalCityColor; 
-
-        currentY += lineHeight;
-        currentY += Math.max(Math.round(5 * scaleFactor), Math.floor(SCREENSHOT_TARGET_SIZE / (120 / scaleFactor))); 
-
-        const futureCitiesFontSize = Math.max(Math.round(30 * scaleFactor), Math.floor(SCREENSHOT_TARGET_SIZE * 0.04 * scaleFactor)); 
-        ctx.font = `bold ${futureCitiesFontSize}px 'VT323', monospace`;
-        const futureCitiesText = "Future Cities";
-        ctx.fillText(futureCitiesText.toUpperCase(), centerX, currentY);
-        
-        ctx.textAlign = 'left';
-        ctx.textBaseline = 'bottom'; 
-
-        const overlayBaseFontSize = 10; 
-        const overlayFontSize = Math.max(Math.round(overlayBaseFontSize * scaleFactor), Math.floor(SCREENSHOT_TARGET_SIZE * 0.012 * scaleFactor));
-        ctx.font = `bold ${overlayFontSize}px 'VT323', monospace`;
-        
-        ctx.shadowBlur = Math.max(Math.round(1.5 * scaleFactor), Math.floor(SCREENSHOT_TARGET_SIZE / (400 / scaleFactor))); 
-
-        const overlayMargin = Math.max(Math.round(10 * scaleFactor), Math.floor(SCREENSHOT_TARGET_SIZE * 0.015));
-        let overlayBottomY = SCREENSHOT_TARGET_SIZE - overlayMargin;
-        const textLineHeight = overlayFontSize * 1.2;
+        cover.rules.forEach(rule => ctx.fillRect(rule.x, rule.y, rule.width, rule.height));
 
-        const labelText = "LABEL: ELPIDA MUSIC";
-        ctx.fillText(labelText.toUpperCase(), overlayMargin, overlayBottomY);
-        overlayBottomY -= textLineHeight; 
-        const releaseDateText = "RELEASE DATE: 20/6/2025";
-        ctx.fillText(releaseDateText.toUpperCase(), overlayMargin, overlayBottomY);
-
-        ctx.textAlign = 'right';
-        
-        let overlayBottomRightY = SCREENSHOT_TARGET_SIZE - overlayMargin;
-        const overlayRightX = SCREENSHOT_TARGET_SIZE - overlayMargin;
-
-        const codeByText = "CODE BY AEONLIGHTS";
-        ctx.fillText(codeByText.toUpperCase(), overlayRightX, overlayBottomRightY);
-        overlayBottomRightY -= textLineHeight;
-        const lpCoverText = "YOUR VIRTUAL LP COVER";
-        ctx.fillText(lpCoverText.toUpperCase(), overlayRightX, overlayBottomRightY);
+        ctx.shadowColor = globalCityColor;
+        cover.texts.forEach(text => {
+          ctx.font = `bold ${text.fontSize}px ${COVER_FONT_FAMILY}`;
+          ctx.textAlign = text.align;
+          ctx.textBaseline = text.baseline;
+          ctx.shadowBlur = text.glow;
+          ctx.fillText(text.text, text.x, text.y);
+        });
 
         ctx.shadowColor = 'transparent';
         ctx.shadowBlur = 0;
 
         const link = document.createElement('a');
-        link.download = 'Future_Cities_LP_Cover.png'; 
+        link.download = `Future_Cities_LP_Cover_${citySeed}.png`;
         link.href = tempCanvas.toDataURL('image/png');
         document.body.appendChild(link); 
         link.click();
@@ -414,7 +566,7 @@ const ThreeCityscape: React.ForwardRefRenderFunction<ThreeCityscapeHandle, Three
       console.error("Error processing screenshot images:", error);
     }
 
-  }, [globalCityColor, onScreenshotInitiated, cityColorTHREE]);
+  }, [globalCityColor, citySeed, onScreenshotInitiated, cityColorTHREE]);
 
   const handleMouseWheel = useCallback((event: WheelEvent) => {
     if (!cameraRef.current) return;
@@ -496,6 +648,7 @@ const ThreeCityscape: React.ForwardRefRenderFunction<ThreeCityscapeHandle, Three
     rendererRef.current.setPixelRatio(window.devicePixelRatio);
     rendererRef.current.setSize(currentMount.clientWidth, currentMount.clientHeight);
     currentMount.appendChild(rendererRef.current.domElement);
+    crtPipelineRef.current = createCrtPipeline(rendererRef.current, crtSettingsRef.current);
 
     cameraRef.current.position.set(0, HIGH_ANGLE_INITIAL_CAMERA_Y, HIGH_ANGLE_INITIAL_CAMERA_Z);
     cameraAzimuthAngleRef.current = 0; 
@@ -516,8 +669,13 @@ const ThreeCityscape: React.ForwardRefRenderFunction<ThreeCityscapeHandle, Three
     skyMeshRef.current = new THREE.Mesh(skyGeometry, skyMaterial);
     sceneRef.current.add(skyMeshRef.current); 
 
+    groundGridRef.current = createGroundGrid(cityColorTHREE);
+    sceneRef.current.add(groundGridRef.current.lines);
+
     cityElementsGroupRef.current = new THREE.Group();
     sceneRef.current.add(cityElementsGroupRef.current);
+    buildingBatchesRef.current = createBuildingBatches(groundHeightRef.current, FADE_DURATION);
+    sceneRef.current.add(buildingBatchesRef.current.object);
     
     // Moved initial building population to its own useEffect below
 
@@ -528,10 +686,12 @@ const ThreeCityscape: React.ForwardRefRenderFunction<ThreeCityscapeHandle, Three
         cameraRef.current.aspect = newWidth / newHeight;
         cameraRef.current.updateProjectionMatrix();
         rendererRef.current.setSize(newWidth, newHeight);
+        crtPipelineRef.current?.setSize();
       }
     };
     
     const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement) return; // Leave caret keys to text fields
       if (event.key === 'ArrowLeft') {
         isRotatingLeftRef.current = true;
         event.preventDefault();
@@ -581,6 +741,7 @@ const ThreeCityscape: React.ForwardRefRenderFunction<ThreeCityscapeHandle, Three
         cam.updateProjectionMatrix();
       }
 
+      const headingBefore = cameraAzimuthAngleRef.current; // The turn buttons jump the heading between frames; only steering is a turn rate
       if (isRotatingLeftRef.current) {
         cameraAzimuthAngleRef.current -= KEYBOARD_ROTATION_SPEED;
       }
@@ -604,83 +765,56 @@ const ThreeCityscape: React.ForwardRefRenderFunction<ThreeCityscapeHandle, Three
       cam.lookAt(lookAtPosition);
       
       const cameraPosition = cam.position;
-
-      // Dynamic Cluster Generation Logic
-      let triggerNewGeneration = false;
-      const nextClusterPotentialCenter = cameraPosition.clone().addScaledVector(forwardDirection, CLUSTER_SPAWN_AHEAD_OFFSET);
-
-      if (generationTriggerPointsRef.current.length === 0) {
-          if (cameraPosition.lengthSq() > (GENERATION_TRIGGER_DISTANCE * 0.5) * (GENERATION_TRIGGER_DISTANCE * 0.5) ) {
-              triggerNewGeneration = true;
-          }
-      } else {
-          let farEnoughFromAllExisting = true;
-          for (const existingPoint of generationTriggerPointsRef.current) {
-              if (nextClusterPotentialCenter.distanceToSquared(existingPoint) < MIN_DISTANCE_BETWEEN_TRIGGER_POINTS * MIN_DISTANCE_BETWEEN_TRIGGER_POINTS) {
-                  farEnoughFromAllExisting = false;
-                  break;
-              }
-          }
-          if (farEnoughFromAllExisting) {
-              triggerNewGeneration = true;
-          }
-      }
-
-      if (triggerNewGeneration && activeClusterRequestsRef.current < MAX_ACTIVE_CLUSTER_REQUESTS) {
-          activeClusterRequestsRef.current++;
-          const baseSpawnPointAhead = cameraPosition.clone().addScaledVector(forwardDirection, CLUSTER_SPAWN_AHEAD_OFFSET);
-          generationTriggerPointsRef.current.push(baseSpawnPointAhead.clone());
-          
-          const rightDirection = new THREE.Vector3().crossVectors(forwardDirection, cam.up).normalize();
-          const numClustersToGenerate = Math.floor(Math.random() * 5) + 1; // 1 to 5 clusters
-          const clusterPromises: Promise<CityElementData[] | null>[] = [];
-          const targetCenters: THREE.Vector3[] = [];
-
-          for (let i = 0; i < numClustersToGenerate; i++) {
-              const lateralOffset = (i - (numClustersToGenerate - 1) / 2) * INTER_CLUSTER_SPACING;
-              const targetCenter = baseSpawnPointAhead.clone().add(rightDirection.clone().multiplyScalar(lateralOffset));
-              targetCenters.push(targetCenter);
-              
-              const clusterIdPrefix = `dyn_c${nextClusterIdCounterRef.current++}_`;
-              clusterPromises.push(generateBuildingCluster(clusterIdPrefix));
-          }
-          
-          Promise.allSettled(clusterPromises)
-          .then((results) => {
-              results.forEach((result, index) => {
-                  if (result.status === 'fulfilled' && result.value && cityElementsGroupRef.current) {
-                      const newClusterBuildings = result.value;
-                      const clusterTargetCenter = targetCenters[index];
-                      newClusterBuildings.forEach(b_data => {
-                          b_data.position.x += clusterTargetCenter.x;
-                          b_data.position.z += clusterTargetCenter.z;
-                          const buildingMesh = createOrUpdateLineSegments(b_data, undefined, true);
-                          cityElementsGroupRef.current?.add(buildingMesh);
-                          dynamicallyGeneratedBuildingsRef.current.add(b_data.id);
-                      });
-                  } else if (result.status === 'rejected') {
-                      console.error(`Failed to generate cluster ${index + 1}:`, result.reason);
-                  }
-              });
-          })
-          .catch(err => console.error(`Error processing cluster generation batch:`, err))
-          .finally(() => {
-              activeClusterRequestsRef.current--;
+      groundGridRef.current?.update(
+        cameraPosition.x + forwardDirection.x * GROUND_GRID_LOOK_AHEAD,
+        cameraPosition.z + forwardDirection.z * GROUND_GRID_LOOK_AHEAD,
+        groundHeightRef.current,
+      );
+
+      // Generate chunks along the predicted path ahead of time, and load the
+      // stored chunks along its first stretch
+      const path = predictPath({
+        x: cameraPosition.x,
+        z: cameraPosition.z,
+        heading: cameraAzimuthAngleRef.current,
+        turnRate: cameraAzimuthAngleRef.current - headingBefore,
+        speed: HIGH_ANGLE_FORWARD_SPEED,
+      }, PREFETCH_HORIZON);
+      if (!landscapeArrivingRef.current) chunkPrefetcherRef.current.update(path, elapsedTimeTotal);
+      path.filter(point => point.distance <= CLUSTER_SPAWN_AHEAD_OFFSET).forEach(point => {
+          chunksAround(point.x, point.z, CHUNK_LOAD_RADIUS).forEach(coords => {
+              if (loadedChunksRef.current.has(chunkKey(coords))) return;
+              const stored = chunkStoreRef.current.get(coords);
+              if (stored) loadChunk(stored);
           });
-      }
+      });
       
-      // Fade-in animation for dynamically generated buildings
+      // Retire what the flight has left behind
+      const sweep = streamLifecycleRef.current.sweep(cam, elapsedTimeTotal);
+      if (sweep) retireStreamed(sweep, elapsedTimeTotal);
+
+      // Fade-in and fade-out animation for streamed roads; buildings fade on the GPU
+      buildingBatchesRef.current?.update(elapsedTimeTotal);
+      const fadedOut: THREE.LineSegments[] = [];
       group.children.forEach(child => {
         const element = child as THREE.LineSegments;
-        if (element.userData.isDynamicallyGenerated && element.userData.isAppearing) {
+        if (element.userData.isAppearing) {
             const timeElapsed = elapsedTimeTotal - element.userData.creationTime;
-            const newOpacity = Math.min(1, timeElapsed / FADE_IN_DURATION);
+            const newOpacity = Math.min(1, timeElapsed / FADE_DURATION);
             (element.material as THREE.LineBasicMaterial).opacity = newOpacity;
             if (newOpacity >= 1) {
                 element.userData.isAppearing = false;
             }
+        } else if (element.userData.isDisappearing) {
+            const newOpacity = 1 - Math.min(1, (elapsedTimeTotal - element.userData.retireTime) / FADE_DURATION);
+            (element.material as THREE.LineBasicMaterial).opacity = newOpacity;
+            if (newOpacity <= 0) fadedOut.push(element);
         }
       });
+      fadedOut.forEach(element => {
+        group.remove(element);
+        linePoolRef.current.release(element);
+      });
 
 
       if (landscapeData && skyMeshRef.current) {
@@ -694,7 +828,7 @@ const ThreeCityscape: React.ForwardRefRenderFunction<ThreeCityscapeHandle, Three
       skyMeshRef.current.translateZ(-1500); 
       skyMeshRef.current.updateMatrixWorld();
 
-      rendererRef.current.render(sceneRef.current, cam);
+      crtPipelineRef.current?.render(sceneRef.current, cam);
     };
 
     animate();
@@ -712,6 +846,8 @@ const ThreeCityscape: React.ForwardRefRenderFunction<ThreeCityscapeHandle, Three
       currentMount.removeEventListener('touchend', touchEndHandler);
       currentMount.removeEventListener('touchcancel', touchEndHandler);
 
+      crtPipelineRef.current?.dispose();
+      crtPipelineRef.current = null;
       if (rendererRef.current) {
          rendererRef.current.dispose();
          if(rendererRef.current.domElement.parentElement === currentMount) { 
@@ -730,7 +866,10 @@ const ThreeCityscape: React.ForwardRefRenderFunction<ThreeCityscapeHandle, Three
           }
         });
       }
+      linePoolRef.current.dispose();
       cityElementsGroupRef.current = null;
+      buildingBatchesRef.current = null;
+      groundGridRef.current = null;
       skyMeshRef.current = null;
       sceneRef.current = null;
       cameraRef.current = null;
@@ -738,90 +877,142 @@ const ThreeCityscape: React.ForwardRefRenderFunction<ThreeCityscapeHandle, Three
       clockRef.current = null;
     };
   // eslint-disable-next-line react-hooks/ exhaustive-deps
-  }, [globalCityColor, createOrUpdateLineSegments, generateBuildingCluster, handleMouseWheel, mouseMoveHandler, mouseLeaveHandler, touchStartHandler, touchMoveHandler, touchEndHandler]); 
+  }, [globalCityColor, createRoadLineSegments, loadChunk, retireStreamed, handleMouseWheel, mouseMoveHandler, mouseLeaveHandler, touchStartHandler, touchMoveHandler, touchEndHandler]); 
   // Removed landscapeData from main setup deps, moved its handling to dedicated effect below
 
-  // Effect for handling initial landscapeData and subsequent changes (global GENERATE)
   useEffect(() => {
-    if (!cityElementsGroupRef.current || !sceneRef.current) return;
+    onPlacementReportRef.current = onPlacementReport;
+  }, [onPlacementReport]);
+
+  useEffect(() => {
+    generateChunkRef.current = generateChunk;
+  }, [generateChunk]);
+
+  useEffect(() => {
+    landscapeArrivingRef.current = landscapeArriving;
+  }, [landscapeArriving]);
+
+  useEffect(() => {
+    crtSettingsRef.current = crtSettings;
+    crtPipelineRef.current?.setSettings(crtSettings);
+  }, [crtSettings]);
+
+  // Synced before the landscape effect below runs, so a session and its landscape arrive together
+  useEffect(() => {
+    restoredWorldRef.current = restoredWorld;
+  }, [restoredWorld]);
+
+  // Toggling relief re-seats every building and re-drapes every road; the grid
+  // picks the new terrain up on its next update.
+  useEffect(() => {
+    groundHeightRef.current = createGroundHeightSampler(terrainRelief);
+    buildingBatchesRef.current?.reseat(groundHeightRef.current);
     const group = cityElementsGroupRef.current;
+    if (!group) return;
+    const roadsById = new Map(worldRoadsRef.current.map(road => [road.id, road]));
+    group.children.forEach(child => {
+      const element = child as THREE.LineSegments;
+      const road = roadsById.get(element.userData.id);
+      if (!road) return;
+      linePoolRef.current.rewrite(element, roadLinePoints(road, groundHeightRef.current));
+    });
+  }, [terrainRelief]);
+
+  // The landscape's layout by content: a streamed landscape passes the same
+  // layout with every building it adds, and its final version repeats it
+  const landscapeLayoutKey = useMemo(
+    () => (landscapeData ? JSON.stringify([landscapeData.sky, landscapeData.districts, landscapeData.roads]) : null),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [landscapeData?.sky, landscapeData?.districts, landscapeData?.roads],
+  );
 
-    // 1. Clear all dynamically generated buildings if any exist
-    if (dynamicallyGeneratedBuildingsRef.current.size > 0) {
+  // A new city, layout or session resets the streamed world: requests in flight
+  // are disowned, chunks and their state dropped and the landscape roads rebuilt.
+  // Buildings streaming into the same layout leave all of that alone.
+  useEffect(() => {
+    if (!cityElementsGroupRef.current || !buildingBatchesRef.current || !sceneRef.current) return;
+    const group = cityElementsGroupRef.current;
+    const batches = buildingBatchesRef.current;
+
+    // Clear all dynamically generated buildings if any exist (or were streamed and retired since)
+    if (dynamicallyGeneratedBuildingsRef.current.size > 0 || chunkStoreRef.current.size() > 0) {
+        dynamicallyGeneratedBuildingsRef.current.forEach(id => batches.remove(id));
         group.children.slice().forEach(child => {
             if (dynamicallyGeneratedBuildingsRef.current.has(child.userData.id)) {
-                const childTyped = child as THREE.Object3D & { geometry?: THREE.BufferGeometry, material?: THREE.Material | THREE.Material[] };
-                if (childTyped.geometry) childTyped.geometry.dispose();
-                if (childTyped.material) {
-                    if (Array.isArray(childTyped.material)) childTyped.material.forEach(m => m.dispose());
-                    else (childTyped.material as THREE.Material).dispose();
-                }
                 group.remove(child);
+                linePoolRef.current.release(child as THREE.LineSegments); // Streamed children are roads
             }
         });
         dynamicallyGeneratedBuildingsRef.current.clear();
-        generationTriggerPointsRef.current = [];
-        activeClusterRequestsRef.current = 0;
-        nextClusterIdCounterRef.current = 0;
-    }
-    
-    // 2. Process the new landscapeData (initial buildings)
-    if (!landscapeData?.buildings || landscapeData.buildings.length === 0) {
-        // If new landscapeData is empty, clear remaining initial buildings
-        group.children.slice().forEach(child => { // Ensure we only remove what's left (initials)
-             const childTyped = child as THREE.Object3D & { geometry?: THREE.BufferGeometry, material?: THREE.Material | THREE.Material[] };
-             if (childTyped.geometry) childTyped.geometry.dispose();
-             if (childTyped.material) {
-                 if (Array.isArray(childTyped.material)) childTyped.material.forEach(m => m.dispose());
-                 else (childTyped.material as THREE.Material).dispose();
-             }
-             group.remove(child);
-        });
-        return;
     }
-    
-    const newInitialElementIds = new Set(landscapeData.buildings.map(b => b.id));
-
-    // Update or add initial buildings
-    landscapeData.buildings.forEach(b_data => {
-      // We only care about buildings not in dynamic set, as dynamic ones are cleared
-      if (dynamicallyGeneratedBuildingsRef.current.has(b_data.id)) return; 
-
-      let element = group.children.find(c => c.userData.id === b_data.id) as THREE.LineSegments | undefined;
-      if (element) { 
-        (element.material as THREE.LineBasicMaterial).color.copy(cityColorTHREE); 
-        createOrUpdateLineSegments(b_data, element, false); // false: not dynamic fade-in
-        element.position.set(b_data.position.x, b_data.position.y + (b_data.dimensions.height || 0) / 2, b_data.position.z);
-         if (b_data.orientationY !== undefined) {
-            element.rotation.y = b_data.orientationY;
-        }
-        element.userData.height = b_data.dimensions.height || 0;
-        element.userData.isDynamicallyGenerated = false; // Ensure it's marked as initial
-        element.userData.isAppearing = false;
+    worldEpochRef.current++;
+    chunkStoreRef.current.clear();
+    loadedChunksRef.current.clear();
+    chunkPrefetcherRef.current.clear();
+    failedChunksRef.current.clear();
+    streamLifecycleRef.current.clear();
+    citySeedRef.current = citySeed;
+    landscapeRef.current = landscapeData;
+    worldRoadsRef.current = landscapeData?.roads ? [...landscapeData.roads] : [];
+    districtsRef.current = landscapeData?.districts ?? [];
+    worldFootprintsRef.current.clear();
+    landscapeData?.buildings.forEach(b_data => worldFootprintsRef.current.insert(b_data));
+
+    // Landscape roads are rebuilt wholesale; they are cheap and carry no fade state
+    group.children.slice().forEach(child => {
+        if (!child.userData.isRoad) return;
+        group.remove(child);
+        linePoolRef.current.release(child as THREE.LineSegments);
+    });
+    worldRoadsRef.current.forEach(road => group.add(createRoadLineSegments(road, false)));
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [landscapeLayoutKey, citySeed, restoredWorld, createRoadLineSegments]);
 
-      } else { 
-        element = createOrUpdateLineSegments(b_data, undefined, false); // false: not dynamic fade-in
-        group.add(element);
-      }
+  // Landscape buildings: only those added or changed since the last update are
+  // drawn, so a streamed landscape costs one draw per building
+  useEffect(() => {
+    if (!buildingBatchesRef.current) return;
+    const batches = buildingBatchesRef.current;
+    const buildings = landscapeData?.buildings ?? [];
+    landscapeRef.current = landscapeData;
+
+    buildings.forEach(b_data => {
+      const drawn = landscapeBuildingsRef.current.get(b_data.id);
+      landscapeBuildingsRef.current.set(b_data.id, b_data);
+      if (drawn === b_data && batches.has(b_data.id)) return;
+      // The finished landscape repeats the streamed buildings; leave those that came through unchanged
+      if (drawn && batches.has(b_data.id) && JSON.stringify(drawn) === JSON.stringify(b_data)) return;
+      worldFootprintsRef.current.insert(b_data);
+      // New buildings fade in when the landscape is streamed; redrawn ones appear at once
+      drawBuilding(b_data, landscapeStreamed && !batches.has(b_data.id));
     });
 
-    // Remove old initial buildings that are not in the new landscapeData
-    group.children.slice().forEach(child => { 
-      if (!child.userData.isDynamicallyGenerated && !newInitialElementIds.has(child.userData.id)) {
-        const childTyped = child as THREE.Object3D & { geometry?: THREE.BufferGeometry, material?: THREE.Material | THREE.Material[] };
-        if (childTyped.geometry) childTyped.geometry.dispose();
-        if (childTyped.material) {
-           if (Array.isArray(childTyped.material)) {
-                childTyped.material.forEach(m => m.dispose());
-            } else {
-                (childTyped.material as THREE.Material).dispose();
-            }
-        }
-        group.remove(child);
-      }
+    // Remove landscape buildings that are no longer in it
+    const ids = new Set(buildings.map(b => b.id));
+    landscapeBuildingsRef.current.forEach((_, id) => {
+      if (ids.has(id)) return;
+      landscapeBuildingsRef.current.delete(id);
+      worldFootprintsRef.current.remove(id);
+      batches.remove(id);
     });
 
-  }, [landscapeData, createOrUpdateLineSegments, cityColorTHREE]); // Depend on landscapeData directly
+    // Settle a loaded session's chunks into the store, in their original order,
+    // and restore its view; the chunks around it load with the next frame
+    const restore = restoredWorldRef.current;
+    if (landscapeData && restore && restore.landscape === landscapeData && appliedRestoreRef.current !== restore) {
+        appliedRestoreRef.current = restore;
+        const { world } = restore;
+        world.clusters.forEach(({ idPrefix, offset, cluster }) => {
+          // Clusters saved before the world was chunked take the chunk under them, if it is free
+          const coords = parseChunkIdPrefix(idPrefix) ?? chunkAt(offset.x, offset.z);
+          if (chunkStoreRef.current.get(coords)) return;
+          settleChunk(chunkStoreRef.current, coords, { idPrefix, offset, cluster }, landscapeData);
+        });
+        cameraRef.current?.position.set(world.camera.position.x, world.camera.position.y, world.camera.position.z);
+        cameraAzimuthAngleRef.current = world.camera.azimuth;
+        cameraFovRef.current = Math.max(MIN_FOV, Math.min(MAX_FOV, world.camera.fov));
+    }
+  }, [landscapeData, landscapeStreamed, drawBuilding]);
 
 
   return (
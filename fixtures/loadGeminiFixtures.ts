@@ -0,0 +1,15 @@
+import { readFileSync, readdirSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { parseGeminiFixture, type GeminiFixture } from '../services/geminiFixtures';
+
+// Reads the recorded Gemini conversations in fixtures/gemini/ for the tests.
+
+const GEMINI_FIXTURE_DIR = fileURLToPath(new URL('./gemini/', import.meta.url));
+
+export const loadGeminiFixture = (name: string): GeminiFixture =>
+  parseGeminiFixture(readFileSync(`${GEMINI_FIXTURE_DIR}${name}.json`, 'utf8'));
+
+export const loadGeminiFixtures = (): GeminiFixture[] =>
+  readdirSync(GEMINI_FIXTURE_DIR)
+    .filter(file => file.endsWith('.json'))
+    .map(file => loadGeminiFixture(file.slice(0, -'.json'.length)));
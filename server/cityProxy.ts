@@ -0,0 +1,306 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { CityGenerationProvider, LandscapeProgressHandler, ModelAttempt } from '../services/cityGenerationProvider';
+import type { RepairReport } from '../services/cityRepair';
+import { createGeminiProvider, createGeminiTransport, PROMPT_TEMPLATE_VERSION } from '../services/geminiCityProvider';
+import { validateLandscape, validateCluster, formatValidationIssues } from '../services/citySchemas';
+import {
+  CITY_PROXY_BASE_PATH,
+  readLandscapeRequest,
+  readClusterRequest,
+  type LandscapeRequest,
+  type LandscapeResponse,
+  type LandscapeStreamMessage,
+  type ClusterResponse,
+  type ProxyErrorResponse,
+  type CityProxyStatus,
+} from '../services/cityProxyProtocol';
+import {
+  FIXTURE_FORMAT,
+  FIXTURE_VERSION,
+  createRecordingTransport,
+  type GeminiExchange,
+  type GeminiFixture,
+  type GeminiFixtureSubject,
+} from '../services/geminiFixtures';
+import { createRateLimiter, type RateLimiter } from './rateLimiter';
+import { saveGeminiFixture } from './fixtureRecorder';
+import { createStubCityProvider } from './stubCityProvider';
+
+// The city server's request handler: the only place the Gemini key lives.
+// Mounted on the Vite dev and preview servers (vitePlugin.ts) or run on its own
+// (main.ts). Requests are checked and rate limited per client before a prompt
+// is sent; answers are repaired and validated by the Gemini provider and
+// validated once more before they leave.
+
+export interface CityProxyOptions {
+  apiKey: string | null;
+  stub: boolean; // Serve procedural stand-in data instead of calling Gemini; always on without a key
+  stubDelayMs: number;
+  landscapesPerMinute: number; // Per client
+  clustersPerMinute: number; // Per client
+  allowedOrigin: string | null; // CORS origin, for an app served from another host
+  trustForwardedFor: boolean; // Behind a reverse proxy, tell clients apart by X-Forwarded-For
+  recordDir: string | null; // Saves every Gemini conversation here as a test fixture
+}
+
+export type CityProxyMiddleware = (req: IncomingMessage, res: ServerResponse, next: () => void) => void;
+
+type RequestBody =
+  | { ok: true; body: unknown }
+  | { ok: false; status: number; error: string };
+
+// Collected per request: the repairs and model answers that go back with the
+// response, and the conversation, which can be recorded on its own.
+interface RequestLog {
+  reports: RepairReport[];
+  attempts: ModelAttempt[];
+  exchanges: GeminiExchange[];
+}
+
+const createRequestLog = (): RequestLog => ({ reports: [], attempts: [], exchanges: [] });
+
+type LandscapeOutcome =
+  | { ok: true; response: LandscapeResponse }
+  | { ok: false; error: ProxyErrorResponse };
+
+const RATE_WINDOW_MS = 60_000;
+const MAX_BODY_BYTES = 64 * 1024;
+
+// A whole number from an environment variable; `min` is 1 for limits, 0 for delays.
+const readCount = (value: string | undefined, fallback: number, min = 1): number => {
+  const count = Number(value);
+  return value?.trim() && Number.isInteger(count) && count >= min ? count : fallback;
+};
+
+// Reads the settings from environment variables (see README).
+export const readCityProxyOptions = (env: Record<string, string | undefined>): CityProxyOptions => {
+  const apiKey = env.GEMINI_API_KEY || env.API_KEY || null;
+  return {
+    apiKey,
+    stub: !apiKey || env.CITY_PROXY_STUB === '1',
+    stubDelayMs: readCount(env.CITY_PROXY_STUB_DELAY_MS, 400, 0),
+    landscapesPerMinute: readCount(env.CITY_PROXY_LANDSCAPES_PER_MINUTE, 6),
+    clustersPerMinute: readCount(env.CITY_PROXY_CLUSTERS_PER_MINUTE, 40),
+    allowedOrigin: env.CITY_PROXY_ALLOWED_ORIGIN || null,
+    trustForwardedFor: env.CITY_PROXY_TRUST_FORWARDED_FOR === '1',
+    recordDir: env.CITY_PROXY_RECORD_DIR || null,
+  };
+};
+
+const sendJson = (res: ServerResponse, status: number, payload: object) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.setHeader('Cache-Control', 'no-store');
+  res.end(JSON.stringify(payload));
+};
+
+const readBody = (req: IncomingMessage): Promise<RequestBody> =>
+  new Promise(resolve => {
+    const chunks: Buffer[] = [];
+    let bytes = 0;
+    req.on('data', (chunk: Buffer) => {
+      bytes += chunk.length;
+      if (bytes <= MAX_BODY_BYTES) chunks.push(chunk);
+    });
+    req.on('error', () => resolve({ ok: false, status: 400, error: 'Request body could not be read' }));
+    req.on('end', () => {
+      if (bytes > MAX_BODY_BYTES) {
+        resolve({ ok: false, status: 413, error: `Request body is larger than ${MAX_BODY_BYTES} bytes` });
+        return;
+      }
+      try {
+        resolve({ ok: true, body: JSON.parse(Buffer.concat(chunks).toString('utf8')) });
+      } catch {
+        resolve({ ok: false, status: 400, error: 'Request body is not valid JSON' });
+      }
+    });
+  });
+
+const errorMessage = (err: unknown): string => (err instanceof Error ? err.message : String(err));
+
+// Aborts once the client goes away before its response is finished, so a
+// cancelled request stops calling Gemini.
+const abortOnClose = (res: ServerResponse): AbortSignal => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+};
+
+export const createCityProxy = (options: CityProxyOptions): CityProxyMiddleware => {
+  const landscapeLimiter = createRateLimiter(options.landscapesPerMinute, RATE_WINDOW_MS);
+  const clusterLimiter = createRateLimiter(options.clustersPerMinute, RATE_WINDOW_MS);
+  const stubProvider = options.stub ? createStubCityProvider(options.stubDelayMs) : null;
+
+  const isRecording = options.recordDir !== null && !options.stub;
+
+  // A Gemini provider per request, logging into `log` and stopping once `signal` aborts.
+  const providerFor = ({ reports, attempts, exchanges }: RequestLog, signal: AbortSignal): CityGenerationProvider => {
+    if (stubProvider) return stubProvider;
+    const transport = createGeminiTransport(options.apiKey!, signal);
+    return createGeminiProvider(isRecording ? createRecordingTransport(transport, exchanges) : transport, {
+      onRepairReport: report => reports.push(report),
+      onModelAttempts: (_kind, _key, reported) => attempts.push(...reported),
+    });
+  };
+
+  const record = (subject: GeminiFixtureSubject, exchanges: GeminiExchange[], outcome: string) => {
+    if (!isRecording || exchanges.length === 0) return;
+    const recordedAt = new Date().toISOString();
+    const prefix = subject.kind === 'cluster' ? `-${subject.request.clusterIdPrefix}` : '';
+    saveGeminiFixture(options.recordDir!, {
+      ...subject,
+      format: FIXTURE_FORMAT,
+      version: FIXTURE_VERSION,
+      name: `${subject.kind}-${subject.request.seed}${prefix}-${recordedAt.replace(/[:.]/g, '-')}`,
+      description: `Recorded from Gemini: ${outcome} after ${exchanges.length} answer(s)`,
+      templateVersion: PROMPT_TEMPLATE_VERSION,
+      recordedAt,
+      exchanges,
+    } as GeminiFixture)
+      .then(file => console.log(`City server: recorded ${file}`))
+      .catch(err => console.error('City server: could not record a fixture:', err));
+  };
+
+  const clientOf = (req: IncomingMessage): string => {
+    const forwarded = options.trustForwardedFor ? req.headers['x-forwarded-for'] : undefined;
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+    return first || req.socket.remoteAddress || 'unknown';
+  };
+
+  // Counts the request against the client's budget; answers 429 and returns false once it is spent.
+  const admit = (req: IncomingMessage, res: ServerResponse, limiter: RateLimiter, what: string): boolean => {
+    const retryAfter = limiter.take(clientOf(req));
+    if (retryAfter === 0) return true;
+    res.setHeader('Retry-After', String(retryAfter));
+    sendJson(res, 429, { error: `Too many ${what} requested. Try again in ${retryAfter}s.` });
+    return false;
+  };
+
+  // Admits and reads a landscape request; answers it with an error and returns null when it cannot be served.
+  const readLandscape = async (req: IncomingMessage, res: ServerResponse): Promise<LandscapeRequest | null> => {
+    if (!admit(req, res, landscapeLimiter, 'cities')) return null;
+    const read = await readBody(req);
+    if (!read.ok) {
+      sendJson(res, read.status, { error: read.error } satisfies ProxyErrorResponse);
+      return null;
+    }
+    try {
+      return readLandscapeRequest(read.body);
+    } catch (err) {
+      sendJson(res, 400, { error: errorMessage(err) });
+      return null;
+    }
+  };
+
+  // Fails with a message for the user when no valid landscape came back.
+  const generateLandscape = async (
+    request: LandscapeRequest,
+    signal: AbortSignal,
+    onProgress?: LandscapeProgressHandler,
+  ): Promise<LandscapeOutcome> => {
+    const log = createRequestLog();
+    try {
+      const landscape = await providerFor(log, signal).generateLandscape(request.seed, request.theme, onProgress);
+      const result = validateLandscape(landscape);
+      if (!result.ok) throw new Error(`Landscape failed validation:\n${formatValidationIssues(result.issues, 5)}`);
+      record({ kind: 'landscape', request }, log.exchanges, 'accepted');
+      return { ok: true, response: { landscape: result.value, reports: log.reports, attempts: log.attempts, stub: options.stub } };
+    } catch (err) {
+      if (signal.aborted) {
+        console.log(`City server: landscape ${request.seed} cancelled by the client`);
+        return { ok: false, error: { error: 'Cancelled by the client', attempts: log.attempts } };
+      }
+      console.error(`City server: landscape ${request.seed} failed:`, err);
+      record({ kind: 'landscape', request }, log.exchanges, 'rejected');
+      return { ok: false, error: { error: errorMessage(err), attempts: log.attempts } };
+    }
+  };
+
+  const handleLandscape = async (req: IncomingMessage, res: ServerResponse) => {
+    const signal = abortOnClose(res);
+    const request = await readLandscape(req, res);
+    if (!request) return;
+    const outcome = await generateLandscape(request, signal);
+    if (res.destroyed) return;
+    if (outcome.ok) sendJson(res, 200, outcome.response);
+    else sendJson(res, 502, outcome.error);
+  };
+
+  // Newline-delimited JSON, flushed line by line, so the app can build the city as it arrives.
+  const handleLandscapeStream = async (req: IncomingMessage, res: ServerResponse) => {
+    const signal = abortOnClose(res);
+    const request = await readLandscape(req, res);
+    if (!request) return;
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'application/x-ndjson');
+    res.setHeader('Cache-Control', 'no-store');
+    const send = (message: LandscapeStreamMessage) => {
+      if (!res.destroyed) res.write(`${JSON.stringify(message)}\n`);
+    };
+    const outcome = await generateLandscape(request, signal, progress => send({ type: 'progress', progress }));
+    if (outcome.ok) send({ type: 'landscape', ...outcome.response });
+    else send({ type: 'error', ...outcome.error });
+    res.end();
+  };
+
+  const handleCluster = async (req: IncomingMessage, res: ServerResponse) => {
+    const signal = abortOnClose(res);
+    if (!admit(req, res, clusterLimiter, 'clusters')) return;
+    const read = await readBody(req);
+    if (!read.ok) return sendJson(res, read.status, { error: read.error } satisfies ProxyErrorResponse);
+    let request;
+    try {
+      request = readClusterRequest(read.body);
+    } catch (err) {
+      return sendJson(res, 400, { error: errorMessage(err) });
+    }
+    const log = createRequestLog();
+    const cluster = await providerFor(log, signal).generateBuildingCluster(request.clusterIdPrefix, request.seed, request.context);
+    if (signal.aborted) return;
+    const result = cluster ? validateCluster(cluster) : null;
+    if (result && !result.ok) {
+      console.error(`City server: cluster ${request.clusterIdPrefix} failed validation:\n${formatValidationIssues(result.issues, 5)}`);
+    }
+    record({ kind: 'cluster', request }, log.exchanges, result?.ok ? 'accepted' : 'rejected');
+    sendJson(res, 200, {
+      cluster: result?.ok ? result.value : null,
+      reports: log.reports,
+      attempts: log.attempts,
+      stub: options.stub,
+    } satisfies ClusterResponse);
+  };
+
+  const routes: Record<string, (req: IncomingMessage, res: ServerResponse) => Promise<void> | void> = {
+    'POST landscape': handleLandscape,
+    'POST landscape/stream': handleLandscapeStream,
+    'POST cluster': handleCluster,
+    'GET status': (_req, res) => sendJson(res, 200, {
+      mode: options.stub ? 'stub' : 'gemini',
+      templateVersion: PROMPT_TEMPLATE_VERSION,
+    } satisfies CityProxyStatus),
+  };
+
+  return (req, res, next) => {
+    const path = (req.url ?? '').split('?')[0];
+    if (!path.startsWith(`${CITY_PROXY_BASE_PATH}/`)) return next();
+    if (options.allowedOrigin) {
+      res.setHeader('Access-Control-Allow-Origin', options.allowedOrigin);
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+      res.setHeader('Vary', 'Origin');
+    }
+    if (req.method === 'OPTIONS') {
+      res.statusCode = 204;
+      res.end();
+      return;
+    }
+    const route = routes[`${req.method} ${path.slice(CITY_PROXY_BASE_PATH.length + 1)}`];
+    if (!route) return sendJson(res, 404, { error: `No such endpoint: ${req.method} ${path}` });
+    Promise.resolve(route(req, res)).catch(err => {
+      console.error('City server: request failed:', err);
+      if (!res.headersSent) sendJson(res, 500, { error: 'The city server failed to answer' });
+    });
+  };
+};
@@ -0,0 +1,12 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { GeminiFixture } from '../services/geminiFixtures';
+
+// Writes a recorded conversation to `dir` as <name>.json, in the layout the
+// tests read from fixtures/gemini/. Returns the file's path.
+export const saveGeminiFixture = async (dir: string, fixture: GeminiFixture): Promise<string> => {
+  await mkdir(dir, { recursive: true });
+  const file = join(dir, `${fixture.name}.json`);
+  await writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`);
+  return file;
+};
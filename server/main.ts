@@ -0,0 +1,25 @@
+import { createServer } from 'node:http';
+import { createCityProxy, readCityProxyOptions } from './cityProxy';
+import { CITY_PROXY_BASE_PATH } from '../services/cityProxyProtocol';
+
+// The city server on its own, for deployments where the app is static files:
+// `npm run server`, then build the app with CITY_PROXY_URL pointing here.
+
+const DEFAULT_PORT = 8787;
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local: settings come from the environment only
+}
+
+const options = readCityProxyOptions(process.env);
+const proxy = createCityProxy(options);
+const port = Number(process.env.PORT) || DEFAULT_PORT;
+
+createServer((req, res) => proxy(req, res, () => {
+  res.statusCode = 404;
+  res.end();
+})).listen(port, () => {
+  console.log(`City server (${options.stub ? 'stub' : 'gemini'}) listening on http://localhost:${port}${CITY_PROXY_BASE_PATH}`);
+});
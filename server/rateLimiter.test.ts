@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { createRateLimiter } from './rateLimiter';
+
+describe('createRateLimiter', () => {
+  it('admits up to the limit per window, then says how long to wait', () => {
+    let now = 1_000;
+    const limiter = createRateLimiter(2, 60_000, () => now);
+    expect(limiter.take('a')).toBe(0);
+    expect(limiter.take('a')).toBe(0);
+    expect(limiter.take('a')).toBe(60);
+    now += 45_000;
+    expect(limiter.take('a')).toBe(15);
+    now += 15_000;
+    expect(limiter.take('a')).toBe(0);
+  });
+
+  it('counts each client on its own', () => {
+    const limiter = createRateLimiter(1, 60_000, () => 0);
+    expect(limiter.take('a')).toBe(0);
+    expect(limiter.take('b')).toBe(0);
+    expect(limiter.take('a')).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,41 @@
+// Fixed-window request counting per client. Windows that have ended are swept
+// out as new clients arrive, so memory stays bounded by the clients of roughly
+// one window.
+
+export interface RateLimiter {
+  // Counts a request from `client`; returns 0 when it is allowed, otherwise
+  // the seconds until the client's window resets
+  take: (client: string) => number;
+}
+
+interface ClientWindow {
+  startedAt: number;
+  count: number;
+}
+
+const SWEEP_THRESHOLD = 1000; // Tracked clients before ended windows are swept
+
+export const createRateLimiter = (limit: number, windowMs: number, now: () => number = Date.now): RateLimiter => {
+  const windows = new Map<string, ClientWindow>();
+
+  const sweep = (time: number) => {
+    windows.forEach((window, client) => {
+      if (time - window.startedAt >= windowMs) windows.delete(client);
+    });
+  };
+
+  const take = (client: string): number => {
+    const time = now();
+    let window = windows.get(client);
+    if (!window || time - window.startedAt >= windowMs) {
+      if (windows.size >= SWEEP_THRESHOLD) sweep(time);
+      window = { startedAt: time, count: 0 };
+      windows.set(client, window);
+    }
+    if (window.count >= limit) return Math.ceil((window.startedAt + windowMs - time) / 1000);
+    window.count++;
+    return 0;
+  };
+
+  return { take };
+};
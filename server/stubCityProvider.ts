@@ -0,0 +1,42 @@
+import type { LandscapeData } from '../App';
+import type { CityGenerationProvider, LandscapeProgressHandler } from '../services/cityGenerationProvider';
+import type { CityTheme } from '../services/cityThemes';
+import { PROMPT_TEMPLATE_VERSION } from '../services/geminiCityProvider';
+import { createProceduralProvider } from '../services/proceduralCityProvider';
+
+// Stand-in city data for working on the app without a Gemini key. Cities come
+// from the procedural provider, so each seed still gets its own, after a delay
+// like that of a real request. Streamed landscapes spread their buildings over
+// a few delays, so progressive building can be tried out as well.
+
+const STREAMED_LANDSCAPE_DELAYS = 6; // A streamed landscape takes this many delays to arrive
+
+export const createStubCityProvider = (delayMs: number): CityGenerationProvider => {
+  const procedural = createProceduralProvider();
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+  const respond = async <T,>(value: Promise<T>): Promise<T> => {
+    await wait(delayMs);
+    return value;
+  };
+
+  const streamLandscape = async (seed: string, theme: CityTheme, onProgress: LandscapeProgressHandler): Promise<LandscapeData> => {
+    const { buildings, ...layout } = await respond(procedural.generateLandscape(seed, theme));
+    onProgress({ kind: 'layout', layout });
+    const buildingDelay = (delayMs * STREAMED_LANDSCAPE_DELAYS) / Math.max(1, buildings.length);
+    for (const building of buildings) {
+      await wait(buildingDelay);
+      onProgress({ kind: 'building', building });
+    }
+    return { ...layout, buildings };
+  };
+
+  return {
+    id: 'gemini',
+    label: 'STUB URBAN CORE',
+    templateVersion: PROMPT_TEMPLATE_VERSION,
+    generateLandscape: (seed, theme, onProgress) =>
+      onProgress ? streamLandscape(seed, theme, onProgress) : respond(procedural.generateLandscape(seed, theme)),
+    generateBuildingCluster: (clusterIdPrefix, seed, context) =>
+      respond(procedural.generateBuildingCluster(clusterIdPrefix, seed, context)),
+  };
+};
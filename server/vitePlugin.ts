@@ -0,0 +1,17 @@
+import type { Plugin } from 'vite';
+import { createCityProxy, type CityProxyOptions } from './cityProxy';
+
+// Serves the city server's endpoints from `npm run dev` and `npm run preview`,
+// on the app's own origin.
+export const cityProxyPlugin = (options: CityProxyOptions): Plugin => {
+  const proxy = createCityProxy(options);
+  return {
+    name: 'future-cities-city-proxy',
+    configureServer: server => {
+      server.middlewares.use(proxy);
+    },
+    configurePreviewServer: server => {
+      server.middlewares.use(proxy);
+    },
+  };
+};
@@ -0,0 +1,51 @@
+import type { BuildingShape, CityElementData } from '../App';
+
+// Catalogue of building shapes: which dimensions each one needs and how its
+// footprint is measured. Schemas, repair, prompts and the procedural generator
+// all read from here, so adding a shape means adding one entry.
+
+export type DimensionKey = Exclude<keyof CityElementData['dimensions'], 'height'>;
+
+// Rectangular footprints are sized by width/depth, round ones by radius.
+export type FootprintKind = 'rect' | 'round';
+
+interface ShapeSpec {
+  footprint: FootprintKind;
+  dimensions: DimensionKey[]; // Required in addition to height
+  promptHint: string;
+}
+
+export const SHAPE_SPECS: Record<BuildingShape, ShapeSpec> = {
+  box: { footprint: 'rect', dimensions: ['width', 'depth'], promptHint: 'plain rectangular block' },
+  cylinder: { footprint: 'round', dimensions: ['radius'], promptHint: 'round tower' },
+  pyramid: { footprint: 'rect', dimensions: ['width', 'depth'], promptHint: 'four-sided pyramid on a width x depth base' },
+  steppedTower: {
+    footprint: 'rect',
+    dimensions: ['width', 'depth', 'tierCount'],
+    promptHint: 'ziggurat of tierCount stacked blocks, each narrower than the one below',
+  },
+  cone: { footprint: 'round', dimensions: ['radius'], promptHint: 'cone tapering to a point' },
+  dome: { footprint: 'round', dimensions: ['radius'], promptHint: 'half-ellipsoid dome; keep height close to radius' },
+  spire: { footprint: 'round', dimensions: ['radius'], promptHint: 'needle spire on a short plinth; use a small radius and a tall height' },
+  twistedTower: {
+    footprint: 'rect',
+    dimensions: ['width', 'depth', 'twistAngle'],
+    promptHint: 'rectangular tower whose floors rotate by twistAngle radians from base to roof',
+  },
+};
+
+export const BUILDING_SHAPES = Object.keys(SHAPE_SPECS) as BuildingShape[];
+
+export const TIER_COUNT_RANGE: [number, number] = [2, 6];
+export const TWIST_ANGLE_RANGE: [number, number] = [0.2, 3.14];
+
+// One prompt line per shape, e.g. "- 'cone' (radius): cone tapering to a point".
+export const SHAPE_PROMPT_GUIDE = BUILDING_SHAPES
+  .map(shape => `- '${shape}' (${SHAPE_SPECS[shape].dimensions.join(', ')}): ${SHAPE_SPECS[shape].promptHint}`)
+  .join('\n');
+
+// Radius of the circle that encloses the building's footprint, whatever its orientation.
+export const getFootprintRadius = (building: Pick<CityElementData, 'shape' | 'dimensions'>): number => {
+  const { width = 0, depth = 0, radius = 0 } = building.dimensions;
+  return SHAPE_SPECS[building.shape]?.footprint === 'round' ? radius : Math.hypot(width, depth) / 2;
+};
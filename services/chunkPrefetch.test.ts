@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { createChunkPrefetcher, predictPath, type FlightMotion } from './chunkPrefetch';
+import { CHUNK_SIZE, chunkKey, type ChunkCoords } from './worldChunks';
+
+const straightAhead: FlightMotion = { x: 0, z: 0, heading: 0, turnRate: 0, speed: 0.6 };
+
+// Requests that settle when the test says so
+const deferredRequests = () => {
+  const started: string[] = [];
+  const finish = new Map<string, () => void>();
+  const request = (coords: ChunkCoords) => {
+    started.push(chunkKey(coords));
+    return new Promise<void>(resolve => finish.set(chunkKey(coords), resolve));
+  };
+  return { started, finish, request };
+};
+
+const settled = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('predictPath', () => {
+  it('runs straight down the heading when not turning', () => {
+    const path = predictPath(straightAhead, 300);
+    expect(path.map(point => point.distance)).toEqual([0, 75, 150, 225, 300]);
+    path.forEach(point => expect(Math.abs(point.x)).toBeLessThan(1e-9));
+    expect(path[4].z).toBeLessThan(-299);
+  });
+
+  it('bends with the turn rate, but no further than a quarter turn', () => {
+    const turningRight = predictPath({ ...straightAhead, turnRate: 0.003 }, 1500);
+    const turningLeft = predictPath({ ...straightAhead, turnRate: -0.003 }, 1500);
+    expect(turningRight[6].x).toBeGreaterThan(50);
+    expect(turningLeft[6].x).toBeLessThan(-50);
+    // Past the quarter turn the path heads straight along +X
+    const [a, b] = turningRight.slice(-2);
+    expect(Math.abs(a.z - b.z)).toBeLessThan(1e-9);
+    expect(b.x - a.x).toBeGreaterThan(74);
+  });
+});
+
+describe('createChunkPrefetcher', () => {
+  it('queues chunks along the path soonest first and runs at most its concurrency', () => {
+    const { started, request } = deferredRequests();
+    const prefetcher = createChunkPrefetcher(request, () => true, { concurrency: 2, reach: 100 });
+    prefetcher.update(predictPath(straightAhead, CHUNK_SIZE * 4), 0);
+    expect(started).toEqual(['0,0', '0,-1']);
+    expect(prefetcher.running()).toBe(2);
+    expect(prefetcher.queued()).toEqual([{ cx: 0, cz: -2 }, { cx: 0, cz: -3 }, { cx: 0, cz: -4 }]);
+  });
+
+  it('skips unwanted chunks and starts the next one as a request finishes', async () => {
+    const { started, finish, request } = deferredRequests();
+    const prefetcher = createChunkPrefetcher(request, coords => coords.cz !== -1, { concurrency: 1, reach: 100 });
+    prefetcher.update(predictPath(straightAhead, CHUNK_SIZE * 3), 0);
+    expect(started).toEqual(['0,0']);
+    finish.get('0,0')!();
+    await settled();
+    expect(started).toEqual(['0,0', '0,-2']);
+  });
+
+  it('drops chunks the path has turned away from and leaves running requests alone', () => {
+    const { started, request } = deferredRequests();
+    const prefetcher = createChunkPrefetcher(request, () => true, { concurrency: 1, reach: 100 });
+    prefetcher.update(predictPath(straightAhead, CHUNK_SIZE * 4), 0);
+    expect(prefetcher.queued()).toContainEqual({ cx: 0, cz: -4 });
+
+    prefetcher.update(predictPath({ ...straightAhead, heading: Math.PI / 2 }, CHUNK_SIZE * 4), 0.1);
+    expect(prefetcher.queued()).toContainEqual({ cx: 0, cz: -4 }); // Re-planned at most once per interval
+
+    prefetcher.update(predictPath({ ...straightAhead, heading: Math.PI / 2 }, CHUNK_SIZE * 4), 1);
+    expect(prefetcher.queued()).toEqual([{ cx: 1, cz: 0 }, { cx: 2, cz: 0 }, { cx: 3, cz: 0 }, { cx: 4, cz: 0 }]);
+    expect(started).toEqual(['0,0']);
+    expect(prefetcher.running()).toBe(1);
+  });
+
+  it('ranks chunks a turn brings nearer ahead of those it leaves for later', () => {
+    const { request } = deferredRequests();
+    const prefetcher = createChunkPrefetcher(request, () => true, { concurrency: 0, reach: CHUNK_SIZE });
+    const rank = (coords: ChunkCoords) => prefetcher.queued().findIndex(queued => chunkKey(queued) === chunkKey(coords));
+    prefetcher.update(predictPath({ ...straightAhead, z: -CHUNK_SIZE * 2 }, CHUNK_SIZE * 4), 0);
+    const ahead = rank({ cx: 0, cz: -5 });
+    prefetcher.update(predictPath({ ...straightAhead, z: -CHUNK_SIZE * 2, turnRate: 0.01 }, CHUNK_SIZE * 4), 1);
+    expect(rank({ cx: 0, cz: -5 })).toBe(-1);
+    expect(rank({ cx: 2, cz: -3 })).toBeLessThan(ahead);
+  });
+
+  it('forgets running requests when cleared, so late results free no slot', async () => {
+    const { started, finish, request } = deferredRequests();
+    const prefetcher = createChunkPrefetcher(request, () => true, { concurrency: 1, reach: 100 });
+    prefetcher.update(predictPath(straightAhead, CHUNK_SIZE), 0);
+    prefetcher.clear();
+    prefetcher.update(predictPath({ ...straightAhead, x: CHUNK_SIZE * 10 }, CHUNK_SIZE), 0);
+    expect(started).toEqual(['0,0', '10,0']);
+    finish.get('0,0')!();
+    await settled();
+    expect(prefetcher.running()).toBe(1);
+    expect(started).toHaveLength(2);
+  });
+});
@@ -0,0 +1,116 @@
+import { chunkKey, chunksAround, type ChunkCoords } from './worldChunks';
+
+// Generates world chunks before the flight reaches them. The camera's path is
+// predicted from its heading, turn rate and speed, and the chunks along it are
+// queued by how far along the path they come into reach. Each update re-plans
+// the queue: chunks the path has bent away from fall back, and those it no
+// longer passes are cancelled before they start. Requests already running are
+// left to finish, since their chunk is stored for whenever the flight gets there.
+
+const DEFAULT_CONCURRENCY = 3;
+const DEFAULT_REACH = 340; // Chunks whose centres come this close to the path are fetched
+const DEFAULT_UPDATE_INTERVAL = 0.25; // Seconds between re-plans
+const PATH_STEP = 75; // World units between predicted points
+const MAX_PREDICTED_TURN = Math.PI / 2; // A turn is assumed to end after this much
+
+export interface FlightMotion {
+  x: number;
+  z: number;
+  heading: number; // Radians; 0 flies down -Z
+  turnRate: number; // Radians per frame, in the sense the heading grows
+  speed: number; // World units per frame
+}
+
+export interface PathPoint {
+  x: number;
+  z: number;
+  distance: number; // Flown from the camera to get here
+}
+
+// Points along the path `motion` holds to, from the camera out to `horizon`
+export const predictPath = (motion: FlightMotion, horizon: number): PathPoint[] => {
+  const curvature = motion.speed > 0 ? motion.turnRate / motion.speed : 0; // Radians per unit flown
+  const points: PathPoint[] = [];
+  let { x, z } = motion;
+  for (let distance = 0; distance <= horizon; distance += PATH_STEP) {
+    points.push({ x, z, distance });
+    // Heading at the middle of the step, so a turn is followed as an arc
+    const turned = Math.max(-MAX_PREDICTED_TURN, Math.min(MAX_PREDICTED_TURN, curvature * (distance + PATH_STEP / 2)));
+    x += Math.sin(motion.heading + turned) * PATH_STEP;
+    z -= Math.cos(motion.heading + turned) * PATH_STEP;
+  }
+  return points;
+};
+
+export interface ChunkPrefetchOptions {
+  concurrency?: number; // Requests running at once
+  reach?: number;
+  updateInterval?: number;
+}
+
+export interface ChunkPrefetcher {
+  // Re-plans the queue along `path`, at most once per interval, and starts what it can
+  update: (path: PathPoint[], time: number) => void;
+  queued: () => ChunkCoords[]; // Waiting to start, soonest reached first
+  running: () => number;
+  clear: () => void; // Drops the queue and forgets running requests; their results are the caller's to discard
+}
+
+export const createChunkPrefetcher = (
+  request: (coords: ChunkCoords) => Promise<unknown>,
+  isWanted: (coords: ChunkCoords) => boolean, // Not yet stored, and worth generating now
+  {
+    concurrency = DEFAULT_CONCURRENCY,
+    reach = DEFAULT_REACH,
+    updateInterval = DEFAULT_UPDATE_INTERVAL,
+  }: ChunkPrefetchOptions = {},
+): ChunkPrefetcher => {
+  let queue: ChunkCoords[] = [];
+  const running = new Set<string>();
+  let generation = 0; // Bumped by clear, so requests it forgot do not free a slot
+  let lastUpdate = -Infinity;
+
+  const pump = () => {
+    while (running.size < concurrency && queue.length > 0) {
+      const coords = queue.shift()!;
+      if (!isWanted(coords)) continue;
+      const key = chunkKey(coords);
+      const startedIn = generation;
+      const settle = () => {
+        if (startedIn !== generation) return;
+        running.delete(key);
+        pump();
+      };
+      running.add(key);
+      request(coords).then(settle, settle);
+    }
+  };
+
+  return {
+    update: (path, time) => {
+      if (time - lastUpdate < updateInterval) return;
+      lastUpdate = time;
+      // Path points come nearest first and chunksAround lists nearest first, so
+      // the first sighting of a chunk is the soonest and the queue needs no sort
+      const seen = new Set<string>();
+      queue = [];
+      path.forEach(point => {
+        chunksAround(point.x, point.z, reach).forEach(coords => {
+          const key = chunkKey(coords);
+          if (seen.has(key) || running.has(key)) return;
+          seen.add(key);
+          if (isWanted(coords)) queue.push(coords);
+        });
+      });
+      pump();
+    },
+    queued: () => [...queue],
+    running: () => running.size,
+    clear: () => {
+      generation++;
+      queue = [];
+      running.clear();
+      lastUpdate = -Infinity;
+    },
+  };
+};
@@ -0,0 +1,73 @@
+import type { BuildingShape, CityElementData, DistrictData } from '../App';
+import { SHAPE_SPECS } from './buildingShapes';
+import { ZONE_PROFILES, districtAt } from './districts';
+
+// Figures for the monitor's POPULATE and RESEARCH panels, counted from the
+// buildings actually standing in the city rather than made up.
+
+const FLOOR_HEIGHT = 4;
+// Tapering shapes hold less floor space than their footprint times their height suggests.
+const FLOOR_AREA_FACTORS: Partial<Record<BuildingShape, number>> = {
+  pyramid: 1 / 3,
+  cone: 1 / 3,
+  spire: 1 / 3,
+  dome: 2 / 3,
+  steppedTower: 0.6,
+};
+
+export interface DistrictCensus {
+  district: DistrictData;
+  buildings: number;
+  floorArea: number;
+  residents: number;
+  averageHeight: number;
+  tallest: number;
+}
+
+export interface CityCensus {
+  buildings: number;
+  floorArea: number;
+  residents: number;
+  districts: DistrictCensus[]; // In the order of the landscape's districts
+}
+
+const floorAreaOf = ({ shape, dimensions }: CityElementData): number => {
+  const { width = 0, depth = 0, radius = 0, height } = dimensions;
+  const footprint = SHAPE_SPECS[shape]?.footprint === 'rect' ? width * depth : Math.PI * radius * radius;
+  const floors = Math.max(1, Math.floor(height / FLOOR_HEIGHT));
+  return footprint * floors * (FLOOR_AREA_FACTORS[shape] ?? 1);
+};
+
+// Buildings without a known district are counted in the district they stand in.
+export const computeCityCensus = (districts: DistrictData[], buildings: CityElementData[]): CityCensus => {
+  const byDistrict = new Map(districts.map(district => [district.id, [] as CityElementData[]]));
+  const unzoned: CityElementData[] = [];
+  buildings.forEach(building => {
+    const district = (building.districtId && byDistrict.has(building.districtId))
+      ? building.districtId
+      : districtAt(districts, building.position.x, building.position.z)?.id;
+    if (district) byDistrict.get(district)!.push(building);
+    else unzoned.push(building);
+  });
+
+  const districtCensus = districts.map((district): DistrictCensus => {
+    const members = byDistrict.get(district.id)!;
+    const floorArea = members.reduce((sum, building) => sum + floorAreaOf(building), 0);
+    const heights = members.map(building => building.dimensions.height);
+    return {
+      district,
+      buildings: members.length,
+      floorArea: Math.round(floorArea),
+      residents: Math.round(floorArea * ZONE_PROFILES[district.zone].residentsPerFloorArea),
+      averageHeight: heights.length ? Math.round(heights.reduce((sum, h) => sum + h, 0) / heights.length) : 0,
+      tallest: heights.length ? Math.round(Math.max(...heights)) : 0,
+    };
+  });
+  const unzonedFloorArea = unzoned.reduce((sum, building) => sum + floorAreaOf(building), 0);
+  return {
+    buildings: buildings.length,
+    floorArea: Math.round(districtCensus.reduce((sum, d) => sum + d.floorArea, unzonedFloorArea)),
+    residents: districtCensus.reduce((sum, d) => sum + d.residents, Math.round(unzonedFloorArea * ZONE_PROFILES.residential.residentsPerFloorArea)),
+    districts: districtCensus,
+  };
+};
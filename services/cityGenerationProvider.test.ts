@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { describeLandscapeError } from './cityGenerationProvider';
+
+describe('describeLandscapeError', () => {
+  it('shows the error message', () => {
+    expect(describeLandscapeError(new Error('Landscape data failed validation after 3 attempts:\n- buildings: expected at least 25 items, got 24')))
+      .toBe('Error: Landscape data failed validation after 3 attempts:\n- buildings: expected at least 25 items, got 24');
+  });
+
+  it('points a rejected API key at the city server', () => {
+    expect(describeLandscapeError(new Error('[400] API key not valid. Please pass a valid API key.')))
+      .toBe("API Key is not valid. Please check the city server's configuration.");
+  });
+
+  it('falls back for values that are not errors', () => {
+    expect(describeLandscapeError('timeout')).toBe('Failed to generate landscape data. Please try again.');
+  });
+});
@@ -0,0 +1,82 @@
+import type { LandscapeData, ClusterData, DistrictData, CityElementData, SkySettings } from '../App';
+import type { RepairReport } from './cityRepair';
+import type { CityTheme } from './cityThemes';
+import type { NeighbourhoodSummary } from './neighbourhood';
+
+// A source of city data. The app talks only to this interface, so the Gemini
+// backend and the offline procedural generator are interchangeable.
+export interface CityGenerationProvider {
+  id: 'gemini' | 'procedural';
+  label: string; // Shown on the monitor, e.g. "GEMINI URBAN CORE"
+  // Bump whenever prompts, schemas or generation logic change what a seed produces;
+  // cached results are keyed by it.
+  templateVersion: number;
+  // False while results must not be cached, e.g. canned responses from a stub server
+  isCacheable?: () => boolean;
+  // Resolves with a complete landscape or rejects with a user-facing error message.
+  // The same seed and theme must always describe the same city. Providers that
+  // stream report the parts that have arrived to `onProgress` on the way.
+  generateLandscape: (seed: string, theme: CityTheme, onProgress?: LandscapeProgressHandler) => Promise<LandscapeData>;
+  // Building and road positions are relative to (0,0,0); the caller offsets them into
+  // the world. Resolves with null when the provider could not produce a usable cluster.
+  generateBuildingCluster: (clusterIdPrefix: string, seed: string, context: ClusterContext) => Promise<ClusterData | null>;
+}
+
+// Where a cluster streams into. Everything here shapes the result, so caches key on it.
+export interface ClusterContext {
+  theme: CityTheme; // The theme of the city
+  district: DistrictData | null; // The district of the spawn area; its buildings inherit it
+  sky: SkySettings | null; // The landscape's sky, so the cluster keeps its mood
+  neighbourhood: NeighbourhoodSummary | null; // What already stands around the spawn area
+}
+
+// The part of a cluster's context that depends on where it spawns; the app adds the theme.
+export type ClusterSurroundings = Omit<ClusterContext, 'theme'>;
+
+// A landscape without its buildings.
+export type LandscapeLayout = Omit<LandscapeData, 'buildings'>;
+
+// Parts of a streamed landscape, each validated on its own: the layout once it
+// is complete, then each building as soon as the model has written it. A
+// building may arrive again with the same id when the model is asked to correct
+// its answer. The complete landscape still goes through repair, so it can move,
+// rename or drop what was reported here.
+export type LandscapeProgress =
+  | { kind: 'layout'; layout: LandscapeLayout }
+  | { kind: 'building'; building: CityElementData };
+
+export type LandscapeProgressHandler = (progress: LandscapeProgress) => void;
+
+// Tokens one model answer cost, as the model reported them.
+export interface TokenUsage {
+  prompt: number;
+  response: number;
+  total: number;
+}
+
+// One answer from the model, to the generation prompt or to a correction prompt.
+export interface ModelAttempt {
+  latencyMs: number;
+  tokens: TokenUsage | null; // null when the model reported no usage
+  outcome: 'accepted' | 'unparseable' | 'invalid';
+  failedRules: string[]; // The validation rule each issue broke (validationRule in citySchemas.ts)
+}
+
+export type GenerationKind = 'landscape' | 'cluster';
+
+// Optional observers the app hands to a provider when creating it.
+export interface CityGenerationHooks {
+  // Called for accepted data that needed at least one repair (see cityRepair.ts).
+  onRepairReport?: (report: RepairReport) => void;
+  // Called once per generation with every answer it took from the model, whether
+  // or not one was accepted. `key` is the seed of a landscape or the id prefix of a cluster.
+  onModelAttempts?: (kind: GenerationKind, key: string, attempts: ModelAttempt[]) => void;
+}
+
+// The message the monitor shows when generateLandscape rejects.
+export const describeLandscapeError = (err: unknown): string => {
+  if (!(err instanceof Error)) return "Failed to generate landscape data. Please try again.";
+  return err.message.includes("API key not valid")
+    ? "API Key is not valid. Please check the city server's configuration."
+    : `Error: ${err.message}`;
+};
@@ -0,0 +1,170 @@
+import type { LandscapeData, ClusterData } from '../App';
+import type { ClusterContext, LandscapeProgress, ModelAttempt } from './cityGenerationProvider';
+import type { RepairReport } from './cityRepair';
+import { validateDistrict, formatValidationIssues } from './citySchemas';
+import { isTheme, MAX_THEME_PROMPT_LENGTH, type CityTheme } from './cityThemes';
+import { MAX_NEIGHBOUR_CLUSTERS, MAX_OCCUPIED_AREAS, SKYLINE_SIDES, type NeighbourhoodSummary, type OccupiedArea } from './neighbourhood';
+import { normalizeCitySeed } from '../utils/seededRandom';
+
+// Requests and responses between the app and the city server (server/), which
+// holds the Gemini key. The server checks every request with the readers below
+// before a prompt is built from it; the app never sees the key.
+
+export const CITY_PROXY_BASE_PATH = '/api/city';
+
+export interface LandscapeRequest {
+  seed: string;
+  theme: CityTheme;
+}
+
+export interface ClusterRequest {
+  clusterIdPrefix: string;
+  seed: string;
+  context: ClusterContext;
+}
+
+// GET status: whether the server calls Gemini or stands in with stub data
+export interface CityProxyStatus {
+  mode: 'gemini' | 'stub';
+  templateVersion: number;
+}
+
+// Every successful response says whether it is stub data, which the app
+// must not cache, and which answers the model gave (none for stub data).
+export interface LandscapeResponse {
+  landscape: LandscapeData;
+  reports: RepairReport[]; // Repairs the server made before validating
+  attempts: ModelAttempt[];
+  stub: boolean;
+}
+
+export interface ClusterResponse {
+  cluster: ClusterData | null; // null when no usable cluster came back
+  reports: RepairReport[];
+  attempts: ModelAttempt[];
+  stub: boolean;
+}
+
+export interface ProxyErrorResponse {
+  error: string; // Shown to the user
+  attempts?: ModelAttempt[]; // The model's answers when generation failed; absent when the request was turned away
+}
+
+// POST landscape/stream answers with newline-delimited JSON: progress as the
+// model writes, then the landscape or an error. Requests the server turns away
+// before generating get a plain status code and ProxyErrorResponse instead.
+export type LandscapeStreamMessage =
+  | { type: 'progress'; progress: LandscapeProgress }
+  | ({ type: 'landscape' } & LandscapeResponse)
+  | ({ type: 'error' } & ProxyErrorResponse);
+
+const MAX_SKY_PALETTES = 12;
+const MAX_CLUSTER_SEED_LENGTH = 96; // A city seed with derived parts, e.g. "ABCD2345:c12"
+const CLUSTER_ID_PREFIX_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+const HEX_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+type RequestRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RequestRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readSeed = (value: unknown): string => {
+  const seed = normalizeCitySeed(typeof value === 'string' ? value : null);
+  if (!seed) throw new Error('Request seed is missing or malformed');
+  return seed;
+};
+
+// Cluster seeds are derived from the city seed (deriveSeed) and are used as sent:
+// normalising them like city seeds would truncate long ones into the same seed.
+const readClusterSeed = (value: unknown): string => {
+  if (typeof value !== 'string' || value.length === 0 || value.length > MAX_CLUSTER_SEED_LENGTH) {
+    throw new Error('Request seed is missing or malformed');
+  }
+  return value;
+};
+
+// Theme text ends up inside prompts, so it is held to what the app itself can produce.
+const readTheme = (value: unknown): CityTheme => {
+  if (!isTheme(value)) throw new Error('Request theme is missing or malformed');
+  if (value.prompt.length === 0 || value.prompt.length > MAX_THEME_PROMPT_LENGTH) {
+    throw new Error(`Theme prompt must be 1-${MAX_THEME_PROMPT_LENGTH} characters`);
+  }
+  if (value.skyPalettes.length > MAX_SKY_PALETTES
+    || !value.skyPalettes.every(p => HEX_COLOR_PATTERN.test(p.topColor) && HEX_COLOR_PATTERN.test(p.horizonColor))) {
+    throw new Error('Theme sky palettes must be #rrggbb colours');
+  }
+  return {
+    id: value.id.slice(0, 64),
+    name: value.name.slice(0, 64),
+    prompt: value.prompt,
+    skyPalettes: value.skyPalettes.map(({ topColor, horizonColor }) => ({ topColor, horizonColor })),
+    density: { landscape: value.density.landscape, cluster: value.density.cluster },
+    buildingSize: { height: value.buildingSize.height, footprint: value.buildingSize.footprint },
+  };
+};
+
+const readSky = (value: unknown): ClusterContext['sky'] => {
+  if (value === null || value === undefined) return null;
+  if (!isRecord(value) || typeof value.topColor !== 'string' || typeof value.horizonColor !== 'string'
+    || !HEX_COLOR_PATTERN.test(value.topColor) || !HEX_COLOR_PATTERN.test(value.horizonColor)) {
+    throw new Error('Cluster sky must be #rrggbb colours');
+  }
+  return { topColor: value.topColor, horizonColor: value.horizonColor };
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// The summary is written into prompts, so it is rebuilt from numbers alone.
+const readNeighbourhood = (value: unknown): NeighbourhoodSummary | null => {
+  if (value === null || value === undefined) return null;
+  const malformed = () => new Error('Cluster neighbourhood is malformed');
+  if (!isRecord(value) || !isRecord(value.skyline) || !Array.isArray(value.occupied) || !Array.isArray(value.neighbourClusters)) {
+    throw malformed();
+  }
+  const { radius, buildingCount, heights, skyline, occupied, neighbourClusters } = value;
+  if (!isFiniteNumber(radius) || !Number.isInteger(buildingCount) || (buildingCount as number) < 0) throw malformed();
+  if (heights !== null && (!isRecord(heights) || ![heights.min, heights.median, heights.max].every(isFiniteNumber))) throw malformed();
+  if (!SKYLINE_SIDES.every(side => skyline[side] === null || isFiniteNumber(skyline[side]))) throw malformed();
+  if (occupied.length > MAX_OCCUPIED_AREAS) throw new Error(`Cluster neighbourhood lists more than ${MAX_OCCUPIED_AREAS} occupied areas`);
+  if (neighbourClusters.length > MAX_NEIGHBOUR_CLUSTERS) {
+    throw new Error(`Cluster neighbourhood lists more than ${MAX_NEIGHBOUR_CLUSTERS} neighbouring clusters`);
+  }
+  const readArea = (area: unknown): OccupiedArea => {
+    if (!isRecord(area) || ![area.x, area.z, area.radius, area.height].every(isFiniteNumber)) throw malformed();
+    return { x: area.x as number, z: area.z as number, radius: area.radius as number, height: area.height as number };
+  };
+  return {
+    radius,
+    buildingCount: buildingCount as number,
+    heights: heights === null ? null : { min: heights.min as number, median: heights.median as number, max: heights.max as number },
+    skyline: Object.fromEntries(SKYLINE_SIDES.map(side => [side, skyline[side]])) as NeighbourhoodSummary['skyline'],
+    occupied: occupied.map(readArea),
+    neighbourClusters: neighbourClusters.map(readArea),
+  };
+};
+
+// Throw an Error with a readable message when the body is not a valid request.
+export const readLandscapeRequest = (body: unknown): LandscapeRequest => {
+  if (!isRecord(body)) throw new Error('Request body must be a JSON object');
+  return { seed: readSeed(body.seed), theme: readTheme(body.theme) };
+};
+
+export const readClusterRequest = (body: unknown): ClusterRequest => {
+  if (!isRecord(body)) throw new Error('Request body must be a JSON object');
+  const { clusterIdPrefix, context } = body;
+  if (typeof clusterIdPrefix !== 'string' || !CLUSTER_ID_PREFIX_PATTERN.test(clusterIdPrefix)) {
+    throw new Error('Cluster id prefix must be 1-32 letters, digits, "_" or "-"');
+  }
+  if (!isRecord(context)) throw new Error('Cluster context is missing');
+  let district: ClusterContext['district'] = null;
+  if (context.district !== null && context.district !== undefined) {
+    const result = validateDistrict(context.district);
+    if (!result.ok) throw new Error(`Cluster district is invalid:\n${formatValidationIssues(result.issues, 5)}`);
+    district = result.value;
+  }
+  return {
+    clusterIdPrefix,
+    seed: readClusterSeed(body.seed),
+    context: { theme: readTheme(context.theme), district, sky: readSky(context.sky), neighbourhood: readNeighbourhood(context.neighbourhood) },
+  };
+};
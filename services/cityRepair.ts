@@ -0,0 +1,565 @@
+import type { LandscapeData, CityElementData, ClusterData, RoadData, SkySettings, DistrictData, ZoneType } from '../App';
+import {
+  LANDSCAPE_BUILDING_RANGES,
+  CLUSTER_BUILDING_RANGES,
+  LANDSCAPE_BUILDING_COUNT,
+  CLUSTER_BUILDING_COUNT,
+  LANDSCAPE_ROAD_COUNT,
+  CLUSTER_ROAD_COUNT,
+  LANDSCAPE_DISTRICT_COUNT,
+  ROAD_KINDS,
+  ROAD_WIDTH_RANGES,
+  ROAD_POINT_COUNT,
+  ORIENTATION_RANGE,
+  type BuildingRanges,
+} from './citySchemas';
+import { BUILDING_SHAPES, SHAPE_SPECS, TIER_COUNT_RANGE, TWIST_ANGLE_RANGE } from './buildingShapes';
+import { placeClearOfRoads } from './roadLayout';
+import { createFootprintIndex } from './footprintIndex';
+import { resolveOverlaps, type OverlapOutcome } from './overlapResolver';
+import { ZONE_PROFILES, ZONE_TYPES, DISTRICT_DENSITY_RANGE, districtAt, zoneHeightProfile } from './districts';
+
+// Normalisation pass that runs between JSON.parse and schema validation. It
+// fixes what can be fixed (out-of-range numbers, missing derivable dimensions,
+// duplicate ids, unknown districts, buildings standing on roads or on each
+// other) and drops only the elements it cannot rescue, so one bad building no
+// longer costs the whole landscape or cluster.
+
+export type RepairAction = 'clamped' | 'coerced' | 'filled' | 'renamed' | 'removed' | 'moved' | 'dropped';
+
+export interface RepairFix {
+  path: string; // Same notation as ValidationIssue.path
+  action: RepairAction;
+  detail: string;
+}
+
+export interface RepairReport {
+  subject: string; // What was repaired, e.g. "landscape" or "cluster ch3_-2_"
+  fixes: RepairFix[];
+}
+
+export interface RepairResult<T> {
+  data: T;
+  report: RepairReport;
+}
+
+const DEFAULT_SKY: SkySettings = { topColor: '#2c003e', horizonColor: '#ff00cc' };
+const TWO_PI = Math.PI * 2;
+
+// Proportions used when a missing footprint has to be derived from the height alone.
+const BOX_SIDE_PER_HEIGHT = 0.25;
+const RADIUS_PER_HEIGHT = 0.12;
+const HEIGHT_PER_TIER = 40; // Stepped towers missing tierCount get one tier per this much height
+const DEFAULT_TWIST_ANGLE = Math.PI / 2;
+const DEFAULT_ROAD_WIDTHS: Record<RoadData['kind'], number> = { avenue: 16, street: 8 };
+// Zone names models tend to use instead of the four we support.
+const ZONE_ALIASES: Record<string, ZoneType> = {
+  commercial: 'downtown',
+  business: 'downtown',
+  financial: 'downtown',
+  center: 'downtown',
+  centre: 'downtown',
+  housing: 'residential',
+  suburban: 'residential',
+  suburb: 'residential',
+  factory: 'industrial',
+  manufacturing: 'industrial',
+  harbor: 'port',
+  harbour: 'port',
+  docks: 'port',
+  waterfront: 'port',
+};
+
+type FixRecorder = (path: string, action: RepairAction, detail: string) => void;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const formatNumber = (value: number): string => String(Math.round(value * 100) / 100);
+
+const joinListPath = (basePath: string, index: number): string => `${basePath}[${index}]`;
+
+const clampToRange = (value: number, [min, max]: [number, number]): number => Math.min(max, Math.max(min, value));
+
+// Accepts finite numbers and numeric strings; anything else reads as missing.
+const readNumber = (value: unknown, path: string, fix: FixRecorder): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+    fix(path, 'coerced', `string "${value}" read as a number`);
+    return Number(value);
+  }
+  return null;
+};
+
+const clampField = (value: number, range: [number, number], path: string, fix: FixRecorder): number => {
+  const clamped = clampToRange(value, range);
+  if (clamped !== value) fix(path, 'clamped', `${formatNumber(value)} -> ${formatNumber(clamped)}`);
+  return clamped;
+};
+
+// `districts` is null for clusters, whose buildings get their district from the caller.
+const repairBuilding = (
+  raw: unknown,
+  path: string,
+  ranges: BuildingRanges,
+  districts: DistrictData[] | null,
+  fix: FixRecorder,
+): CityElementData | null => {
+  if (!isRecord(raw)) {
+    fix(path, 'dropped', 'element is not an object');
+    return null;
+  }
+  const position = isRecord(raw.position) ? raw.position : {};
+  const dimensions = isRecord(raw.dimensions) ? raw.dimensions : {};
+
+  const x = readNumber(position.x, `${path}.position.x`, fix);
+  const z = readNumber(position.z, `${path}.position.z`, fix);
+  if (x === null || z === null) {
+    fix(path, 'dropped', 'position.x/position.z missing or not numeric');
+    return null;
+  }
+
+  let height = readNumber(dimensions.height, `${path}.dimensions.height`, fix);
+  if (height === null || height === 0) {
+    fix(path, 'dropped', 'dimensions.height missing or zero');
+    return null;
+  }
+  if (height < 0) {
+    fix(`${path}.dimensions.height`, 'coerced', `negative height ${formatNumber(height)} mirrored`);
+    height = -height;
+  }
+  height = clampField(height, ranges.height, `${path}.dimensions.height`, fix);
+
+  let width = readNumber(dimensions.width, `${path}.dimensions.width`, fix);
+  let depth = readNumber(dimensions.depth, `${path}.dimensions.depth`, fix);
+  let radius = readNumber(dimensions.radius, `${path}.dimensions.radius`, fix);
+
+  let shape = raw.shape as CityElementData['shape'];
+  if (!BUILDING_SHAPES.includes(shape)) {
+    const inferred: CityElementData['shape'] | null =
+      width !== null || depth !== null ? 'box' : radius !== null ? 'cylinder' : null;
+    if (!inferred) {
+      fix(path, 'dropped', `unknown shape ${JSON.stringify(raw.shape)} and no footprint to infer one from`);
+      return null;
+    }
+    fix(`${path}.shape`, 'filled', `'${inferred}' inferred from dimensions`);
+    shape = inferred;
+  }
+
+  const repairedDimensions: CityElementData['dimensions'] = { height };
+  const spec = SHAPE_SPECS[shape];
+  if (spec.footprint === 'rect') {
+    const fallbackSide = radius !== null ? Math.abs(radius) * 2 : height * BOX_SIDE_PER_HEIGHT;
+    if (width === null) {
+      width = depth ?? fallbackSide;
+      fix(`${path}.dimensions.width`, 'filled', formatNumber(width));
+    }
+    if (depth === null) {
+      depth = width;
+      fix(`${path}.dimensions.depth`, 'filled', formatNumber(depth));
+    }
+    repairedDimensions.width = clampField(Math.abs(width), ranges.boxSide, `${path}.dimensions.width`, fix);
+    repairedDimensions.depth = clampField(Math.abs(depth), ranges.boxSide, `${path}.dimensions.depth`, fix);
+  } else {
+    if (radius === null) {
+      radius = width !== null || depth !== null
+        ? Math.max(Math.abs(width ?? 0), Math.abs(depth ?? 0)) / 2
+        : height * RADIUS_PER_HEIGHT;
+      fix(`${path}.dimensions.radius`, 'filled', formatNumber(radius));
+    }
+    repairedDimensions.radius = clampField(Math.abs(radius), ranges.radius, `${path}.dimensions.radius`, fix);
+  }
+
+  if (spec.dimensions.includes('tierCount')) {
+    let tierCount = readNumber(dimensions.tierCount, `${path}.dimensions.tierCount`, fix);
+    if (tierCount === null) {
+      tierCount = clampToRange(Math.round(height / HEIGHT_PER_TIER), TIER_COUNT_RANGE);
+      fix(`${path}.dimensions.tierCount`, 'filled', `${tierCount} (from height)`);
+    } else if (!Number.isInteger(tierCount)) {
+      fix(`${path}.dimensions.tierCount`, 'coerced', `${formatNumber(tierCount)} -> ${Math.round(tierCount)}`);
+      tierCount = Math.round(tierCount);
+    }
+    repairedDimensions.tierCount = clampField(tierCount, TIER_COUNT_RANGE, `${path}.dimensions.tierCount`, fix);
+  }
+  if (spec.dimensions.includes('twistAngle')) {
+    let twistAngle = readNumber(dimensions.twistAngle, `${path}.dimensions.twistAngle`, fix);
+    if (twistAngle === null) {
+      twistAngle = DEFAULT_TWIST_ANGLE;
+      fix(`${path}.dimensions.twistAngle`, 'filled', formatNumber(twistAngle));
+    }
+    // The sign only picks the twist direction, which the renderer does not distinguish.
+    repairedDimensions.twistAngle = clampField(Math.abs(twistAngle), TWIST_ANGLE_RANGE, `${path}.dimensions.twistAngle`, fix);
+  }
+
+  const y = readNumber(position.y, `${path}.position.y`, fix);
+  if (y === null) {
+    fix(`${path}.position.y`, 'filled', '0');
+  } else if (y !== 0) {
+    fix(`${path}.position.y`, 'clamped', `${formatNumber(y)} -> 0 (buildings stand on the ground)`);
+  }
+
+  if (raw.type !== 'building') {
+    fix(`${path}.type`, 'filled', `${JSON.stringify(raw.type)} -> 'building'`);
+  }
+
+  const building: CityElementData = {
+    id: typeof raw.id === 'string' ? raw.id.trim() : '',
+    type: 'building',
+    shape,
+    position: {
+      x: clampField(x, ranges.x, `${path}.position.x`, fix),
+      y: 0,
+      z: clampField(z, ranges.z, `${path}.position.z`, fix),
+    },
+    dimensions: repairedDimensions,
+  };
+
+  if (raw.orientationY !== undefined) {
+    const orientation = readNumber(raw.orientationY, `${path}.orientationY`, fix);
+    if (orientation === null) {
+      fix(`${path}.orientationY`, 'removed', `not numeric: ${JSON.stringify(raw.orientationY)}`);
+    } else {
+      // In-range angles are kept as they are; wrapping them would add float noise
+      const inRange = orientation >= ORIENTATION_RANGE[0] && orientation <= ORIENTATION_RANGE[1];
+      const wrapped = inRange ? orientation : Math.min(ORIENTATION_RANGE[1], ((orientation % TWO_PI) + TWO_PI) % TWO_PI);
+      if (Math.abs(wrapped - orientation) > 1e-9) {
+        fix(`${path}.orientationY`, 'clamped', `${formatNumber(orientation)} -> ${formatNumber(wrapped)}`);
+      }
+      building.orientationY = wrapped;
+    }
+  }
+
+  if (districts) {
+    const districtId = typeof raw.districtId === 'string' ? raw.districtId.trim() : '';
+    if (districts.some(d => d.id === districtId)) {
+      building.districtId = districtId;
+    } else {
+      const district = districtAt(districts, building.position.x, building.position.z);
+      if (district) {
+        building.districtId = district.id;
+        fix(`${path}.districtId`, districtId ? 'coerced' : 'filled', `${districtId ? `unknown '${districtId}'` : 'missing'} -> '${district.id}' (by position)`);
+      }
+    }
+  } else if (typeof raw.districtId === 'string' && raw.districtId.trim()) {
+    // Cluster buildings carry the district they were streamed into; there is no list to check it against
+    building.districtId = raw.districtId.trim();
+  }
+  return building;
+};
+
+// Gives missing ids a placeholder and renames duplicates, in place.
+const assignUniqueIds = (entries: { item: { id: string }; path: string }[], placeholderPrefix: string, fix: FixRecorder) => {
+  const usedIds = new Set<string>();
+  entries.forEach(({ item, path }, index) => {
+    if (item.id === '') {
+      item.id = `${placeholderPrefix}${String(index + 1).padStart(3, '0')}`;
+      fix(`${path}.id`, 'filled', item.id);
+    }
+    if (usedIds.has(item.id)) {
+      let suffix = 2;
+      while (usedIds.has(`${item.id}_${suffix}`)) suffix++;
+      const renamed = `${item.id}_${suffix}`;
+      fix(`${path}.id`, 'renamed', `duplicate '${item.id}' -> '${renamed}'`);
+      item.id = renamed;
+    }
+    usedIds.add(item.id);
+  });
+};
+
+// Turns overlap-resolver outcomes into fixes; `pathFor(i)` names the i-th building
+// handed to the resolver.
+export const overlapFixes = (outcomes: OverlapOutcome[], pathFor: (index: number) => string): RepairFix[] =>
+  outcomes.flatMap((outcome, index): RepairFix[] => {
+    const path = pathFor(index);
+    switch (outcome.outcome) {
+      case 'clear':
+        return [];
+      case 'nudged': {
+        const { x, z } = outcome.building.position;
+        return [{ path: `${path}.position`, action: 'moved', detail: `clear of '${outcome.collidedWith}' to (${formatNumber(x)}, ${formatNumber(z)})` }];
+      }
+      case 'shrunk':
+        return [{ path: `${path}.dimensions`, action: 'clamped', detail: `footprint x${formatNumber(outcome.scale)} to clear '${outcome.collidedWith}'` }];
+      case 'dropped':
+        return [{ path, action: 'dropped', detail: `overlaps '${outcome.collidedWith}' and cannot be moved or shrunk clear` }];
+    }
+  });
+
+// Repairs every element, gives missing ids a placeholder, renames duplicates,
+// moves (or drops) buildings that stand on one of `roads` and settles
+// buildings that overlap each other.
+const repairBuildingList = (
+  raw: unknown[],
+  basePath: string,
+  ranges: BuildingRanges,
+  [, maxCount]: [number, number],
+  roads: RoadData[],
+  districts: DistrictData[] | null,
+  fix: FixRecorder,
+): CityElementData[] => {
+  const pathFor = (index: number) => joinListPath(basePath, index);
+  const repaired: { item: CityElementData; path: string }[] = [];
+  raw.forEach((element, index) => {
+    if (index >= maxCount) {
+      fix(pathFor(index), 'dropped', `more than ${maxCount} buildings`);
+      return;
+    }
+    const building = repairBuilding(element, pathFor(index), ranges, districts, fix);
+    if (!building) return;
+    const placement = placeClearOfRoads(building, roads, ranges);
+    if (placement.outcome === 'rejected') {
+      fix(pathFor(index), 'dropped', `stands on road '${placement.roadId}' and cannot be moved clear`);
+      return;
+    }
+    if (placement.outcome === 'snapped') {
+      const { x, z } = placement.building.position;
+      fix(`${pathFor(index)}.position`, 'moved', `off road '${placement.roadId}' to (${formatNumber(x)}, ${formatNumber(z)})`);
+    }
+    repaired.push({ item: placement.building, path: pathFor(index) });
+  });
+  assignUniqueIds(repaired, 'bld_fix_', fix);
+
+  const resolution = resolveOverlaps(repaired.map(entry => entry.item), createFootprintIndex(), { ranges, roads });
+  overlapFixes(resolution.outcomes, index => repaired[index].path).forEach(f => fix(f.path, f.action, f.detail));
+  return resolution.placed;
+};
+
+const repairRoad = (raw: unknown, path: string, ranges: BuildingRanges, fix: FixRecorder): RoadData | null => {
+  if (!isRecord(raw)) {
+    fix(path, 'dropped', 'road is not an object');
+    return null;
+  }
+  let width = readNumber(raw.width, `${path}.width`, fix);
+
+  let kind = raw.kind as RoadData['kind'];
+  if (!ROAD_KINDS.includes(kind)) {
+    kind = width !== null && width >= ROAD_WIDTH_RANGES.avenue[0] ? 'avenue' : 'street';
+    fix(`${path}.kind`, 'filled', `${JSON.stringify(raw.kind)} -> '${kind}'`);
+  }
+  if (width === null) {
+    width = DEFAULT_ROAD_WIDTHS[kind];
+    fix(`${path}.width`, 'filled', formatNumber(width));
+  }
+
+  const rawPoints = Array.isArray(raw.points) ? raw.points : [];
+  const points: RoadData['points'] = [];
+  rawPoints.forEach((point, index) => {
+    const pointPath = `${path}.points[${index}]`;
+    if (index >= ROAD_POINT_COUNT[1]) {
+      fix(pointPath, 'removed', `more than ${ROAD_POINT_COUNT[1]} points`);
+      return;
+    }
+    const x = isRecord(point) ? readNumber(point.x, `${pointPath}.x`, fix) : null;
+    const z = isRecord(point) ? readNumber(point.z, `${pointPath}.z`, fix) : null;
+    if (x === null || z === null) {
+      fix(pointPath, 'removed', 'x/z missing or not numeric');
+      return;
+    }
+    points.push({
+      x: clampField(x, ranges.x, `${pointPath}.x`, fix),
+      z: clampField(z, ranges.z, `${pointPath}.z`, fix),
+    });
+  });
+  if (points.length < ROAD_POINT_COUNT[0]) {
+    fix(path, 'dropped', `fewer than ${ROAD_POINT_COUNT[0]} usable points`);
+    return null;
+  }
+
+  return {
+    id: typeof raw.id === 'string' ? raw.id.trim() : '',
+    kind,
+    width: clampField(Math.abs(width), ROAD_WIDTH_RANGES[kind], `${path}.width`, fix),
+    points,
+  };
+};
+
+// A missing road list reads as "no roads"; validation then reports a landscape
+// that needs some.
+const repairRoadList = (
+  raw: unknown,
+  basePath: string,
+  ranges: BuildingRanges,
+  [, maxCount]: [number, number],
+  fix: FixRecorder,
+): RoadData[] => {
+  if (!Array.isArray(raw)) {
+    fix(basePath, 'filled', `missing ${basePath} -> []`);
+    return [];
+  }
+  const repaired: { item: RoadData; path: string }[] = [];
+  raw.forEach((element, index) => {
+    const path = joinListPath(basePath, index);
+    if (index >= maxCount) {
+      fix(path, 'dropped', `more than ${maxCount} roads`);
+      return;
+    }
+    const road = repairRoad(element, path, ranges, fix);
+    if (road) repaired.push({ item: road, path });
+  });
+  assignUniqueIds(repaired, 'road_fix_', fix);
+  return repaired.map(entry => entry.item);
+};
+
+const readRange = (
+  raw: unknown,
+  [minKey, maxKey]: [string, string],
+  range: [number, number],
+  path: string,
+  fix: FixRecorder,
+): [number, number] | null => {
+  const record = isRecord(raw) ? raw : {};
+  const min = readNumber(record[minKey], `${path}.${minKey}`, fix);
+  const max = readNumber(record[maxKey], `${path}.${maxKey}`, fix);
+  if (min === null || max === null) return null;
+  let low = clampField(min, range, `${path}.${minKey}`, fix);
+  let high = clampField(max, range, `${path}.${maxKey}`, fix);
+  if (low > high) {
+    fix(path, 'coerced', `${minKey} and ${maxKey} swapped`);
+    [low, high] = [high, low];
+  }
+  return [low, high];
+};
+
+const repairDistrict = (raw: unknown, path: string, index: number, ranges: BuildingRanges, fix: FixRecorder): DistrictData | null => {
+  if (!isRecord(raw)) {
+    fix(path, 'dropped', 'district is not an object');
+    return null;
+  }
+  const rawZone = typeof raw.zone === 'string' ? raw.zone.trim().toLowerCase() : '';
+  let zone = rawZone as ZoneType;
+  if (!ZONE_TYPES.includes(zone)) {
+    zone = ZONE_ALIASES[rawZone] ?? 'residential';
+    fix(`${path}.zone`, 'filled', `${JSON.stringify(raw.zone)} -> '${zone}'`);
+  }
+
+  const xRange = readRange(raw.bounds, ['minX', 'maxX'], ranges.x, `${path}.bounds`, fix);
+  const zRange = readRange(raw.bounds, ['minZ', 'maxZ'], ranges.z, `${path}.bounds`, fix);
+  if (!xRange || !zRange || xRange[0] === xRange[1] || zRange[0] === zRange[1]) {
+    fix(path, 'dropped', 'bounds missing, not numeric or empty');
+    return null;
+  }
+
+  let heights = readRange(raw.heightProfile, ['min', 'max'], ranges.height, `${path}.heightProfile`, fix);
+  if (!heights) {
+    const profile = zoneHeightProfile(zone, ranges.height);
+    heights = [profile.min, profile.max];
+    fix(`${path}.heightProfile`, 'filled', `${heights[0]}-${heights[1]} (typical for ${zone})`);
+  }
+
+  let density = readNumber(raw.density, `${path}.density`, fix);
+  if (density === null) {
+    density = ZONE_PROFILES[zone].density;
+    fix(`${path}.density`, 'filled', formatNumber(density));
+  }
+
+  let name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (!name) {
+    name = `${zone.toUpperCase()} ${index + 1}`;
+    fix(`${path}.name`, 'filled', name);
+  }
+
+  return {
+    id: typeof raw.id === 'string' ? raw.id.trim() : '',
+    name,
+    zone,
+    bounds: { minX: xRange[0], maxX: xRange[1], minZ: zRange[0], maxZ: zRange[1] },
+    heightProfile: { min: heights[0], max: heights[1] },
+    density: clampField(density, DISTRICT_DENSITY_RANGE, `${path}.density`, fix),
+  };
+};
+
+// Without a single usable district the whole area becomes one downtown, so
+// every building still has a district to name.
+const repairDistrictList = (
+  raw: unknown,
+  basePath: string,
+  ranges: BuildingRanges,
+  [, maxCount]: [number, number],
+  fix: FixRecorder,
+): DistrictData[] => {
+  const repaired: { item: DistrictData; path: string }[] = [];
+  (Array.isArray(raw) ? raw : []).forEach((element, index) => {
+    const path = joinListPath(basePath, index);
+    if (index >= maxCount) {
+      fix(path, 'dropped', `more than ${maxCount} districts`);
+      return;
+    }
+    const district = repairDistrict(element, path, index, ranges, fix);
+    if (district) repaired.push({ item: district, path });
+  });
+  if (repaired.length === 0) {
+    const profile = zoneHeightProfile('downtown', ranges.height);
+    fix(basePath, 'filled', 'no usable districts -> one downtown covering the city');
+    return [{
+      id: 'district_fix_001',
+      name: 'CENTRAL DISTRICT',
+      zone: 'downtown',
+      bounds: { minX: ranges.x[0], maxX: ranges.x[1], minZ: ranges.z[0], maxZ: ranges.z[1] },
+      heightProfile: profile,
+      density: ZONE_PROFILES.downtown.density,
+    }];
+  }
+  assignUniqueIds(repaired, 'district_fix_', fix);
+  return repaired.map(entry => entry.item);
+};
+
+const repairColor = (value: unknown, fallback: string, path: string, fix: FixRecorder): string => {
+  if (typeof value === 'string') {
+    const hex = value.trim().replace(/^#?/, '');
+    if (/^[0-9a-f]{6}$/i.test(hex)) {
+      if (value !== `#${hex}`) fix(path, 'coerced', `"${value}" -> "#${hex}"`);
+      return `#${hex}`;
+    }
+    if (/^[0-9a-f]{3}$/i.test(hex)) {
+      const expanded = `#${hex.split('').map(c => c + c).join('')}`;
+      fix(path, 'coerced', `"${value}" -> "${expanded}"`);
+      return expanded;
+    }
+  }
+  fix(path, 'filled', `invalid colour ${JSON.stringify(value)} -> "${fallback}"`);
+  return fallback;
+};
+
+// Returns the input untouched when it is not even landscape-shaped; schema
+// validation then reports the structural problem.
+export const repairLandscape = (raw: unknown): RepairResult<unknown> => {
+  const report: RepairReport = { subject: 'landscape', fixes: [] };
+  if (!isRecord(raw) || !Array.isArray(raw.buildings)) return { data: raw, report };
+  const fix: FixRecorder = (path, action, detail) => report.fixes.push({ path, action, detail });
+
+  const sky = isRecord(raw.sky) ? raw.sky : {};
+  if (!isRecord(raw.sky)) fix('sky', 'filled', 'missing sky replaced with the default palette');
+  const districts = repairDistrictList(raw.districts, 'districts', LANDSCAPE_BUILDING_RANGES, LANDSCAPE_DISTRICT_COUNT, fix);
+  const roads = repairRoadList(raw.roads, 'roads', LANDSCAPE_BUILDING_RANGES, LANDSCAPE_ROAD_COUNT, fix);
+  const data: LandscapeData = {
+    sky: {
+      topColor: repairColor(sky.topColor, DEFAULT_SKY.topColor, 'sky.topColor', fix),
+      horizonColor: repairColor(sky.horizonColor, DEFAULT_SKY.horizonColor, 'sky.horizonColor', fix),
+    },
+    districts,
+    roads,
+    buildings: repairBuildingList(raw.buildings, 'buildings', LANDSCAPE_BUILDING_RANGES, LANDSCAPE_BUILDING_COUNT, roads, districts, fix),
+  };
+  return { data, report };
+};
+
+export const repairCluster = (raw: unknown, subject: string = 'cluster'): RepairResult<unknown> => {
+  const report: RepairReport = { subject, fixes: [] };
+  if (!isRecord(raw) || !Array.isArray(raw.buildings)) return { data: raw, report };
+  const fix: FixRecorder = (path, action, detail) => report.fixes.push({ path, action, detail });
+  const roads = repairRoadList(raw.roads, 'roads', CLUSTER_BUILDING_RANGES, CLUSTER_ROAD_COUNT, fix);
+  const data: ClusterData = {
+    roads,
+    buildings: repairBuildingList(raw.buildings, 'buildings', CLUSTER_BUILDING_RANGES, CLUSTER_BUILDING_COUNT, roads, null, fix),
+  };
+  return { data, report };
+};
+
+// Console-overlay lines: a summary followed by one line per fix.
+export const formatRepairReport = (report: RepairReport, maxLines: number = 6): string[] => {
+  const dropped = report.fixes.filter(f => f.action === 'dropped').length;
+  const lines = [`REPAIRED ${report.subject}: ${report.fixes.length - dropped} FIXES, ${dropped} DROPPED`];
+  report.fixes.slice(0, maxLines).forEach(f => lines.push(`> ${f.path || '(root)'} ${f.action}: ${f.detail}`));
+  if (report.fixes.length > maxLines) lines.push(`> ...${report.fixes.length - maxLines} MORE (SEE CONSOLE)`);
+  return lines.map(line => line.toUpperCase());
+};
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import type { ClusterData, LandscapeData } from '../App';
+import { validateLandscape, validateCluster, validateDistrict, formatValidationIssues, validationRule } from './citySchemas';
+import { loadGeminiFixture } from '../fixtures/loadGeminiFixtures';
+
+const landscape: LandscapeData = JSON.parse(loadGeminiFixture('landscape-valid').exchanges[0].response);
+const cluster: ClusterData = JSON.parse(loadGeminiFixture('cluster-valid').exchanges[0].response);
+
+const withBuildings = <T extends { buildings: unknown[] }>(data: T, count: number): T => ({
+  ...data,
+  buildings: Array.from({ length: count }, (_, i) => ({ ...(data.buildings[i % data.buildings.length] as object), id: `bld_${i}` })),
+});
+
+describe('validateLandscape', () => {
+  it('accepts a valid landscape', () => {
+    expect(validateLandscape(landscape).ok).toBe(true);
+  });
+
+  it('accepts 25 to 50 buildings', () => {
+    expect(validateLandscape(withBuildings(landscape, 25)).ok).toBe(true);
+    expect(validateLandscape(withBuildings(landscape, 50)).ok).toBe(true);
+  });
+
+  it('rejects fewer than 25 or more than 50 buildings', () => {
+    const tooFew = validateLandscape(withBuildings(landscape, 24));
+    const tooMany = validateLandscape(withBuildings(landscape, 51));
+    expect(tooFew).toEqual({ ok: false, issues: [{ path: 'buildings', message: 'expected at least 25 items, got 24' }] });
+    expect(tooMany).toEqual({ ok: false, issues: [{ path: 'buildings', message: 'expected at most 50 items, got 51' }] });
+  });
+
+  it('reports the path of every bad field', () => {
+    const broken = structuredClone(landscape);
+    broken.buildings[2].dimensions.height = 900;
+    (broken.buildings[3] as { shape: string }).shape = 'blob';
+    broken.roads[0].width = 30;
+    const result = validateLandscape(broken);
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    const paths = result.issues.map(issue => issue.path);
+    expect(paths).toContain('buildings[2].dimensions.height');
+    expect(paths).toContain('buildings[3].shape');
+    expect(paths).toContain('roads[0].width');
+  });
+
+  it('requires the dimensions a shape needs', () => {
+    const broken = structuredClone(landscape);
+    const index = broken.buildings.findIndex(b => b.shape === 'cylinder');
+    delete broken.buildings[index].dimensions.radius;
+    const result = validateLandscape(broken);
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.issues).toContainEqual({ path: `buildings[${index}].dimensions.radius`, message: "is required for shape 'cylinder'" });
+  });
+
+  it('rejects buildings in unknown districts', () => {
+    const broken = structuredClone(landscape);
+    broken.buildings[0].districtId = 'dist_99';
+    const result = validateLandscape(broken);
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.issues).toContainEqual({ path: 'buildings[0].districtId', message: "unknown district 'dist_99'" });
+  });
+
+  it('rejects values of the wrong type', () => {
+    expect(validateLandscape(null)).toEqual({ ok: false, issues: [{ path: '', message: 'expected an object, got null' }] });
+    expect(validateLandscape([]).ok).toBe(false);
+  });
+});
+
+describe('validateCluster', () => {
+  it('accepts a valid cluster', () => {
+    expect(validateCluster(cluster).ok).toBe(true);
+  });
+
+  it('accepts 5 to 8 buildings', () => {
+    expect(validateCluster(withBuildings(cluster, 5)).ok).toBe(true);
+    expect(validateCluster(withBuildings(cluster, 8)).ok).toBe(true);
+  });
+
+  it('rejects fewer than 5 or more than 8 buildings', () => {
+    expect(validateCluster(withBuildings(cluster, 4))).toEqual({ ok: false, issues: [{ path: 'buildings', message: 'expected at least 5 items, got 4' }] });
+    expect(validateCluster(withBuildings(cluster, 9))).toEqual({ ok: false, issues: [{ path: 'buildings', message: 'expected at most 8 items, got 9' }] });
+  });
+
+  it('rejects more than 3 roads', () => {
+    const result = validateCluster({ ...cluster, roads: [0, 1, 2, 3].map(i => ({ ...cluster.roads[0], id: `road_${i}` })) });
+    expect(result).toEqual({ ok: false, issues: [{ path: 'roads', message: 'expected at most 3 items, got 4' }] });
+  });
+
+  it('rejects positions outside the cluster area', () => {
+    const broken = structuredClone(cluster);
+    broken.buildings[0].position.x = 75;
+    const result = validateCluster(broken);
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.issues.map(issue => issue.path)).toEqual(['buildings[0].position.x']);
+  });
+});
+
+describe('validateDistrict', () => {
+  it('accepts a landscape district', () => {
+    expect(validateDistrict(landscape.districts[0]).ok).toBe(true);
+  });
+
+  it('rejects inverted bounds and height profiles', () => {
+    const district = structuredClone(landscape.districts[0]);
+    district.bounds = { ...district.bounds, minX: district.bounds.maxX, maxX: district.bounds.minX };
+    district.heightProfile = { min: district.heightProfile.max, max: district.heightProfile.min };
+    const result = validateDistrict(district);
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.issues.map(issue => issue.path)).toEqual(['districts[0].bounds', 'districts[0].heightProfile']);
+  });
+});
+
+describe('formatValidationIssues', () => {
+  const issues = [
+    { path: '', message: 'expected an object, got array' },
+    { path: 'buildings[0].id', message: 'is required' },
+    { path: 'roads', message: 'expected at most 3 items, got 4' },
+  ];
+
+  it('lists one issue per line and names the root', () => {
+    expect(formatValidationIssues(issues)).toBe(
+      '- (root): expected an object, got array\n- buildings[0].id: is required\n- roads: expected at most 3 items, got 4',
+    );
+  });
+
+  it('cuts the list at the limit and counts the rest', () => {
+    expect(formatValidationIssues(issues, 1)).toBe('- (root): expected an object, got array\n- ...and 2 more');
+  });
+});
+
+describe('validationRule', () => {
+  it('drops element indices and the offending value', () => {
+    expect(validationRule({ path: 'buildings[3].dimensions.height', message: 'must be <= 200, got 900' }))
+      .toBe('buildings[].dimensions.height: must be <= 200');
+    expect(validationRule({ path: 'roads[1].kind', message: "must be one of 'avenue', 'street', got 'lane'" }))
+      .toBe("roads[].kind: must be one of 'avenue', 'street'");
+  });
+
+  it('keeps the shape a missing dimension is required for', () => {
+    expect(validationRule({ path: 'buildings[0].dimensions.radius', message: "is required for shape 'cylinder'" }))
+      .toBe("buildings[].dimensions.radius: is required for shape 'cylinder'");
+  });
+
+  it('drops bounds, ids and parser details', () => {
+    expect(validationRule({ path: 'districts[2].bounds', message: 'minX 40 must be less than maxX 10' }))
+      .toBe('districts[].bounds: minX must be less than maxX');
+    expect(validationRule({ path: 'buildings[7].districtId', message: "unknown district 'dist_9'" }))
+      .toBe('buildings[].districtId: unknown district');
+    expect(validationRule({ path: '', message: 'response is not valid JSON (Unexpected end of JSON input)' }))
+      .toBe('(root): response is not valid JSON');
+  });
+});
@@ -0,0 +1,443 @@
+import { Type, type Schema } from '@google/genai';
+import type { LandscapeData, CityElementData, ClusterData, RoadData, DistrictData } from '../App';
+import type { LandscapeLayout } from './cityGenerationProvider';
+import { BUILDING_SHAPES, SHAPE_SPECS, TIER_COUNT_RANGE, TWIST_ANGLE_RANGE, type DimensionKey } from './buildingShapes';
+import { ZONE_TYPES, DISTRICT_DENSITY_RANGE } from './districts';
+
+// Single source of truth for the shape of generated city data. The same Schema
+// objects are sent to Gemini as `responseSchema` and interpreted at runtime by
+// validateAgainstSchema, so the model contract and our checks cannot drift.
+
+export interface ValidationIssue {
+  path: string; // e.g. "buildings[3].dimensions.radius"; "" for the root value
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: ValidationIssue[] };
+
+export interface BuildingRanges {
+  x: [number, number];
+  z: [number, number];
+  boxSide: [number, number];
+  height: [number, number];
+  radius: [number, number];
+}
+
+export const LANDSCAPE_BUILDING_RANGES: BuildingRanges = {
+  x: [-150, 150],
+  z: [-500, 70],
+  boxSide: [5, 50],
+  height: [10, 200],
+  radius: [3, 25],
+};
+
+// Cluster positions are relative to the cluster centre.
+export const CLUSTER_BUILDING_RANGES: BuildingRanges = {
+  x: [-60, 60],
+  z: [-60, 60],
+  boxSide: [5, 40],
+  height: [10, 180],
+  radius: [3, 20],
+};
+
+export const ORIENTATION_RANGE: [number, number] = [0, 6.28];
+export const LANDSCAPE_BUILDING_COUNT: [number, number] = [25, 50];
+export const CLUSTER_BUILDING_COUNT: [number, number] = [5, 8];
+
+// Road points share the building x/z ranges of the landscape or cluster they belong to.
+export const ROAD_WIDTH_RANGES: Record<RoadData['kind'], [number, number]> = {
+  avenue: [12, 24],
+  street: [5, 12],
+};
+export const ROAD_KINDS = Object.keys(ROAD_WIDTH_RANGES) as RoadData['kind'][];
+export const ROAD_POINT_COUNT: [number, number] = [2, 8];
+export const LANDSCAPE_ROAD_COUNT: [number, number] = [2, 12];
+export const CLUSTER_ROAD_COUNT: [number, number] = [0, 3];
+export const LANDSCAPE_AVENUE_COUNT: [number, number] = [1, 3]; // For generators; validation counts roads of every kind together
+export const LANDSCAPE_DISTRICT_COUNT: [number, number] = [1, 6];
+
+const numberInRange = ([minimum, maximum]: [number, number], description: string): Schema => ({
+  type: Type.NUMBER,
+  minimum,
+  maximum,
+  description,
+});
+
+const shapesRequiring = (key: DimensionKey): string =>
+  BUILDING_SHAPES.filter(shape => SHAPE_SPECS[shape].dimensions.includes(key)).map(shape => `'${shape}'`).join(', ');
+
+// Landscape buildings name their district; cluster buildings are assigned one
+// by the caller, so their schema leaves districtId out.
+const createBuildingSchema = (ranges: BuildingRanges, withDistrict: boolean): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    id: { type: Type.STRING, minLength: '1', description: "Unique id, e.g. 'bld_001'" },
+    ...(withDistrict && {
+      districtId: { type: Type.STRING, minLength: '1', description: 'Id of the district the building stands in' },
+    }),
+    type: { type: Type.STRING, enum: ['building'] },
+    shape: { type: Type.STRING, enum: BUILDING_SHAPES },
+    position: {
+      type: Type.OBJECT,
+      properties: {
+        x: numberInRange(ranges.x, 'Ground-plane X'),
+        y: numberInRange([0, 0], 'Height above the ground; always 0, the renderer stands buildings on the terrain'),
+        z: numberInRange(ranges.z, 'Ground-plane Z'),
+      },
+      required: ['x', 'y', 'z'],
+      propertyOrdering: ['x', 'y', 'z'],
+    },
+    dimensions: {
+      type: Type.OBJECT,
+      properties: {
+        width: numberInRange(ranges.boxSide, `Required for ${shapesRequiring('width')}`),
+        height: numberInRange(ranges.height, 'Required for all shapes'),
+        depth: numberInRange(ranges.boxSide, `Required for ${shapesRequiring('depth')}`),
+        radius: numberInRange(ranges.radius, `Required for ${shapesRequiring('radius')}`),
+        tierCount: {
+          type: Type.INTEGER,
+          minimum: TIER_COUNT_RANGE[0],
+          maximum: TIER_COUNT_RANGE[1],
+          description: `Number of stacked tiers; required for ${shapesRequiring('tierCount')}`,
+        },
+        twistAngle: numberInRange(TWIST_ANGLE_RANGE, `Total twist in radians from base to roof; required for ${shapesRequiring('twistAngle')}`),
+      },
+      required: ['height'],
+      propertyOrdering: ['width', 'height', 'depth', 'radius', 'tierCount', 'twistAngle'],
+    },
+    orientationY: numberInRange(ORIENTATION_RANGE, 'Optional rotation around the vertical axis, in radians'),
+  },
+  required: withDistrict ? ['id', 'districtId', 'type', 'shape', 'position', 'dimensions'] : ['id', 'type', 'shape', 'position', 'dimensions'],
+  propertyOrdering: withDistrict
+    ? ['id', 'districtId', 'type', 'shape', 'position', 'dimensions', 'orientationY']
+    : ['id', 'type', 'shape', 'position', 'dimensions', 'orientationY'],
+});
+
+const createRoadSchema = (ranges: BuildingRanges): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    id: { type: Type.STRING, minLength: '1', description: "Unique id, e.g. 'road_01'" },
+    kind: { type: Type.STRING, enum: ROAD_KINDS, description: "'avenue' for wide through-routes, 'street' for the roads between them" },
+    width: numberInRange(
+      [ROAD_WIDTH_RANGES.street[0], ROAD_WIDTH_RANGES.avenue[1]],
+      `Avenues ${ROAD_WIDTH_RANGES.avenue.join('-')}, streets ${ROAD_WIDTH_RANGES.street.join('-')}`,
+    ),
+    points: {
+      type: Type.ARRAY,
+      description: 'Centre line as a ground-plane polyline',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          x: numberInRange(ranges.x, 'Ground-plane X'),
+          z: numberInRange(ranges.z, 'Ground-plane Z'),
+        },
+        required: ['x', 'z'],
+        propertyOrdering: ['x', 'z'],
+      },
+      minItems: String(ROAD_POINT_COUNT[0]),
+      maxItems: String(ROAD_POINT_COUNT[1]),
+    },
+  },
+  required: ['id', 'kind', 'width', 'points'],
+  propertyOrdering: ['id', 'kind', 'width', 'points'],
+});
+
+const createDistrictSchema = (ranges: BuildingRanges): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    id: { type: Type.STRING, minLength: '1', description: "Unique id, e.g. 'dist_01'" },
+    name: { type: Type.STRING, minLength: '1', description: "Short evocative name in capitals, e.g. 'NEON HEIGHTS'" },
+    zone: { type: Type.STRING, enum: ZONE_TYPES },
+    bounds: {
+      type: Type.OBJECT,
+      description: 'Ground-plane rectangle the district covers',
+      properties: {
+        minX: numberInRange(ranges.x, 'West edge'),
+        maxX: numberInRange(ranges.x, 'East edge, greater than minX'),
+        minZ: numberInRange(ranges.z, 'Far edge'),
+        maxZ: numberInRange(ranges.z, 'Near edge, greater than minZ'),
+      },
+      required: ['minX', 'maxX', 'minZ', 'maxZ'],
+      propertyOrdering: ['minX', 'maxX', 'minZ', 'maxZ'],
+    },
+    heightProfile: {
+      type: Type.OBJECT,
+      description: "Height range of the district's buildings",
+      properties: {
+        min: numberInRange(ranges.height, 'Lowest typical building'),
+        max: numberInRange(ranges.height, 'Tallest typical building, at least min'),
+      },
+      required: ['min', 'max'],
+      propertyOrdering: ['min', 'max'],
+    },
+    density: numberInRange(DISTRICT_DENSITY_RANGE, 'How much of the ground is built on, from sparse (0.1) to packed (1)'),
+  },
+  required: ['id', 'name', 'zone', 'bounds', 'heightProfile', 'density'],
+  propertyOrdering: ['id', 'name', 'zone', 'bounds', 'heightProfile', 'density'],
+});
+
+const DISTRICT_SCHEMA = createDistrictSchema(LANDSCAPE_BUILDING_RANGES);
+
+const SKY_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    topColor: { type: Type.STRING, pattern: '^#[0-9a-fA-F]{6}$', description: "Hex colour, e.g. dark indigo '#2c003e'" },
+    horizonColor: { type: Type.STRING, pattern: '^#[0-9a-fA-F]{6}$', description: "Hex colour, e.g. vibrant pink '#ff00cc'" },
+  },
+  required: ['topColor', 'horizonColor'],
+};
+
+const LANDSCAPE_LAYOUT_PROPERTIES: Record<string, Schema> = {
+  sky: SKY_SCHEMA,
+  districts: {
+    type: Type.ARRAY,
+    items: DISTRICT_SCHEMA,
+    minItems: String(LANDSCAPE_DISTRICT_COUNT[0]),
+    maxItems: String(LANDSCAPE_DISTRICT_COUNT[1]),
+  },
+  roads: {
+    type: Type.ARRAY,
+    items: createRoadSchema(LANDSCAPE_BUILDING_RANGES),
+    minItems: String(LANDSCAPE_ROAD_COUNT[0]),
+    maxItems: String(LANDSCAPE_ROAD_COUNT[1]),
+  },
+};
+
+// Everything but the buildings, as a streamed landscape delivers it first.
+const LANDSCAPE_LAYOUT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: LANDSCAPE_LAYOUT_PROPERTIES,
+  required: ['sky', 'districts', 'roads'],
+};
+
+const LANDSCAPE_BUILDING_SCHEMA = createBuildingSchema(LANDSCAPE_BUILDING_RANGES, true);
+
+// Districts and roads come before buildings so the model zones the city and
+// lays out the streets first, then places buildings within them.
+export const LANDSCAPE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    ...LANDSCAPE_LAYOUT_PROPERTIES,
+    buildings: {
+      type: Type.ARRAY,
+      items: LANDSCAPE_BUILDING_SCHEMA,
+      minItems: String(LANDSCAPE_BUILDING_COUNT[0]),
+      maxItems: String(LANDSCAPE_BUILDING_COUNT[1]),
+    },
+  },
+  required: ['sky', 'districts', 'roads', 'buildings'],
+  propertyOrdering: ['sky', 'districts', 'roads', 'buildings'],
+};
+
+export const CLUSTER_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    roads: {
+      type: Type.ARRAY,
+      items: createRoadSchema(CLUSTER_BUILDING_RANGES),
+      minItems: String(CLUSTER_ROAD_COUNT[0]),
+      maxItems: String(CLUSTER_ROAD_COUNT[1]),
+    },
+    buildings: {
+      type: Type.ARRAY,
+      items: createBuildingSchema(CLUSTER_BUILDING_RANGES, false),
+      minItems: String(CLUSTER_BUILDING_COUNT[0]),
+      maxItems: String(CLUSTER_BUILDING_COUNT[1]),
+    },
+  },
+  required: ['roads', 'buildings'],
+  propertyOrdering: ['roads', 'buildings'],
+};
+
+const joinPath = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : (path ? `${path}.${key}` : key);
+
+const describeType = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+// Interprets the subset of the Gemini Schema vocabulary used above.
+export const validateAgainstSchema = (value: unknown, schema: Schema, path: string = ''): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const fail = (message: string) => issues.push({ path, message });
+
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        fail(`expected an object, got ${describeType(value)}`);
+        break;
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined) issues.push({ path: joinPath(path, key), message: 'is required' });
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+        if (record[key] !== undefined) issues.push(...validateAgainstSchema(record[key], propertySchema, joinPath(path, key)));
+      }
+      break;
+    }
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) {
+        fail(`expected an array, got ${describeType(value)}`);
+        break;
+      }
+      const minItems = schema.minItems !== undefined ? Number(schema.minItems) : undefined;
+      const maxItems = schema.maxItems !== undefined ? Number(schema.maxItems) : undefined;
+      if (minItems !== undefined && value.length < minItems) fail(`expected at least ${minItems} items, got ${value.length}`);
+      if (maxItems !== undefined && value.length > maxItems) fail(`expected at most ${maxItems} items, got ${value.length}`);
+      if (schema.items) {
+        value.forEach((item, index) => issues.push(...validateAgainstSchema(item, schema.items!, joinPath(path, index))));
+      }
+      break;
+    }
+    case Type.STRING: {
+      if (typeof value !== 'string') {
+        fail(`expected a string, got ${describeType(value)}`);
+        break;
+      }
+      if (schema.enum && !schema.enum.includes(value)) fail(`must be one of ${schema.enum.map(v => `'${v}'`).join(', ')}, got '${value}'`);
+      if (schema.minLength !== undefined && value.trim().length < Number(schema.minLength)) fail('must not be empty');
+      if (schema.pattern && !new RegExp(schema.pattern).test(value)) fail(`must match ${schema.pattern}, got '${value}'`);
+      break;
+    }
+    case Type.NUMBER:
+    case Type.INTEGER: {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        fail(`expected a number, got ${describeType(value)}`);
+        break;
+      }
+      if (schema.type === Type.INTEGER && !Number.isInteger(value)) fail(`expected an integer, got ${value}`);
+      if (schema.minimum !== undefined && value < schema.minimum) fail(`must be >= ${schema.minimum}, got ${value}`);
+      if (schema.maximum !== undefined && value > schema.maximum) fail(`must be <= ${schema.maximum}, got ${value}`);
+      break;
+    }
+    case Type.BOOLEAN: {
+      if (typeof value !== 'boolean') fail(`expected a boolean, got ${describeType(value)}`);
+      break;
+    }
+  }
+  return issues;
+};
+
+// Rules a JSON schema cannot express: which dimensions a shape needs.
+const validateShapeDimensions = (building: unknown, path: string): ValidationIssue[] => {
+  if (typeof building !== 'object' || building === null) return [];
+  const { shape, dimensions } = building as { shape?: unknown; dimensions?: Record<string, unknown> };
+  if (typeof dimensions !== 'object' || dimensions === null) return [];
+  const requiredKeys = BUILDING_SHAPES.includes(shape as CityElementData['shape'])
+    ? SHAPE_SPECS[shape as CityElementData['shape']].dimensions
+    : [];
+  return requiredKeys
+    .filter(key => dimensions[key] === undefined)
+    .map(key => ({ path: joinPath(joinPath(path, 'dimensions'), key), message: `is required for shape '${shape}'` }));
+};
+
+// The schema only bounds widths across both kinds; each kind has its own band.
+const validateRoadWidth = (road: unknown, path: string): ValidationIssue[] => {
+  if (typeof road !== 'object' || road === null) return [];
+  const { kind, width } = road as { kind?: unknown; width?: unknown };
+  if (typeof width !== 'number' || !ROAD_KINDS.includes(kind as RoadData['kind'])) return [];
+  const [min, max] = ROAD_WIDTH_RANGES[kind as RoadData['kind']];
+  return width < min || width > max
+    ? [{ path: joinPath(path, 'width'), message: `must be ${min}-${max} for kind '${kind}', got ${width}` }]
+    : [];
+};
+
+const validateBuildingList = (buildings: unknown, path: string): ValidationIssue[] =>
+  Array.isArray(buildings)
+    ? buildings.flatMap((building, index) => validateShapeDimensions(building, joinPath(path, index)))
+    : [];
+
+const validateRoadList = (roads: unknown, path: string): ValidationIssue[] =>
+  Array.isArray(roads) ? roads.flatMap((road, index) => validateRoadWidth(road, joinPath(path, index))) : [];
+
+const validateCityContents = (data: unknown): ValidationIssue[] => {
+  if (typeof data !== 'object' || data === null) return [];
+  const { roads, buildings } = data as { roads?: unknown; buildings?: unknown };
+  return [...validateRoadList(roads, 'roads'), ...validateBuildingList(buildings, 'buildings')];
+};
+
+// Rectangles and height profiles must not be inverted, district ids must be
+// unique and every building must name one of them.
+const validateDistricts = (data: unknown): ValidationIssue[] => {
+  if (typeof data !== 'object' || data === null) return [];
+  const { districts, buildings } = data as { districts?: unknown; buildings?: unknown };
+  if (!Array.isArray(districts)) return [];
+  const issues: ValidationIssue[] = [];
+  const ids = new Set<string>();
+  districts.forEach((district: Partial<DistrictData> | null, index) => {
+    const path = joinPath('districts', index);
+    if (typeof district !== 'object' || district === null) return;
+    const { bounds, heightProfile, id } = district;
+    if (bounds && bounds.minX >= bounds.maxX) issues.push({ path: joinPath(path, 'bounds'), message: `minX ${bounds.minX} must be less than maxX ${bounds.maxX}` });
+    if (bounds && bounds.minZ >= bounds.maxZ) issues.push({ path: joinPath(path, 'bounds'), message: `minZ ${bounds.minZ} must be less than maxZ ${bounds.maxZ}` });
+    if (heightProfile && heightProfile.min > heightProfile.max) {
+      issues.push({ path: joinPath(path, 'heightProfile'), message: `min ${heightProfile.min} must not exceed max ${heightProfile.max}` });
+    }
+    if (typeof id === 'string') {
+      if (ids.has(id)) issues.push({ path: joinPath(path, 'id'), message: `duplicate district id '${id}'` });
+      ids.add(id);
+    }
+  });
+  if (Array.isArray(buildings)) {
+    buildings.forEach((building: { districtId?: unknown } | null, index) => {
+      const districtId = building?.districtId;
+      if (typeof districtId === 'string' && !ids.has(districtId)) {
+        issues.push({ path: joinPath(joinPath('buildings', index), 'districtId'), message: `unknown district '${districtId}'` });
+      }
+    });
+  }
+  return issues;
+};
+
+export const validateLandscape = (data: unknown): ValidationResult<LandscapeData> => {
+  const issues = [...validateAgainstSchema(data, LANDSCAPE_SCHEMA), ...validateCityContents(data), ...validateDistricts(data)];
+  return issues.length === 0 ? { ok: true, value: data as LandscapeData } : { ok: false, issues };
+};
+
+export const validateCluster = (data: unknown): ValidationResult<ClusterData> => {
+  const issues = [...validateAgainstSchema(data, CLUSTER_SCHEMA), ...validateCityContents(data)];
+  return issues.length === 0 ? { ok: true, value: data as ClusterData } : { ok: false, issues };
+};
+
+// The sky, districts and roads of a landscape whose buildings are still arriving.
+export const validateLandscapeLayout = (data: unknown): ValidationResult<LandscapeLayout> => {
+  const issues = [...validateAgainstSchema(data, LANDSCAPE_LAYOUT_SCHEMA), ...validateCityContents(data), ...validateDistricts(data)];
+  return issues.length === 0 ? { ok: true, value: data as LandscapeLayout } : { ok: false, issues };
+};
+
+// A single landscape building, checked on its own as it streams in. It must
+// stand in one of `districtIds`; overlaps are left to the complete landscape.
+export const validateLandscapeBuilding = (data: unknown, districtIds: ReadonlySet<string>): ValidationResult<CityElementData> => {
+  const issues = [...validateAgainstSchema(data, LANDSCAPE_BUILDING_SCHEMA), ...validateShapeDimensions(data, '')];
+  const { districtId } = (data ?? {}) as { districtId?: unknown };
+  if (typeof districtId === 'string' && !districtIds.has(districtId)) {
+    issues.push({ path: 'districtId', message: `unknown district '${districtId}'` });
+  }
+  return issues.length === 0 ? { ok: true, value: data as CityElementData } : { ok: false, issues };
+};
+
+// A single district, as cluster requests to the city server carry it.
+export const validateDistrict = (data: unknown): ValidationResult<DistrictData> => {
+  const issues = [...validateAgainstSchema(data, DISTRICT_SCHEMA), ...validateDistricts({ districts: [data] })];
+  return issues.length === 0 ? { ok: true, value: data as DistrictData } : { ok: false, issues };
+};
+
+// The rule an issue broke, without the specifics of the offending answer, so
+// failures can be counted per rule: "buildings[3].dimensions.height: must be
+// <= 200, got 900" breaks "buildings[].dimensions.height: must be <= 200".
+export const validationRule = ({ path, message }: ValidationIssue): string => {
+  const rule = message
+    .replace(/, got .*$/s, '')
+    .replace(/^(min\w*) \S+ (.*) (max\w*) \S+$/, '$1 $2 $3')
+    .replace(/^(unknown district|duplicate district id) .*$/, '$1')
+    .replace(/^response is not valid JSON .*$/s, 'response is not valid JSON');
+  return `${path.replace(/\[\d+\]/g, '[]') || '(root)'}: ${rule}`;
+};
+
+export const formatValidationIssues = (issues: ValidationIssue[], limit: number = 20): string => {
+  const lines = issues.slice(0, limit).map(issue => `- ${issue.path || '(root)'}: ${issue.message}`);
+  if (issues.length > limit) lines.push(`- ...and ${issues.length - limit} more`);
+  return lines.join('\n');
+};
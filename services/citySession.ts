@@ -0,0 +1,167 @@
+import type { LandscapeData, ClusterData } from '../App';
+import { validateLandscape, validateCluster, formatValidationIssues } from './citySchemas';
+import { repairLandscape, repairCluster, type RepairReport } from './cityRepair';
+import { DEFAULT_THEME, isTheme, type CityTheme } from './cityThemes';
+import { normalizeCitySeed } from '../utils/seededRandom';
+import { downloadBlob } from '../utils/downloadFile';
+
+// A whole city session as a JSON file: the landscape, the cluster of every
+// world chunk generated with the offset it was placed at, and the view.
+// Clusters are stored as the provider returned them and settled into their
+// chunks again in the same order, so a loaded world matches the saved one.
+
+export const SESSION_FORMAT = 'future-cities-session';
+export const SESSION_VERSION = 2;
+
+export interface SessionCluster {
+  idPrefix: string; // e.g. "ch3_-2_", naming the chunk; version 1 files hold "dyn_c3_"
+  offset: { x: number; z: number }; // World position of the cluster's origin
+  cluster: ClusterData; // Cluster-local coordinates, before placement
+}
+
+export interface SessionCamera {
+  position: { x: number; y: number; z: number };
+  azimuth: number; // Radians; 0 looks down -Z
+  fov: number;
+}
+
+// What the renderer holds beyond the landscape; captured from and restored into ThreeCityscape.
+export interface StreamedWorld {
+  clusters: SessionCluster[]; // Every chunk generated, loaded or not, in generation order
+  camera: SessionCamera;
+}
+
+export interface CitySession extends StreamedWorld {
+  format: typeof SESSION_FORMAT;
+  version: number;
+  savedAt: string; // ISO timestamp
+  seed: string;
+  color: string; // Wireframe colour, "#rrggbb"
+  terrainRelief: boolean;
+  theme: CityTheme; // The theme the city was generated with; later clusters keep it
+  landscape: LandscapeData;
+}
+
+export interface LoadedSession {
+  session: CitySession;
+  reports: RepairReport[]; // Repairs made to the landscape and clusters, if any
+}
+
+type SessionRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is SessionRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isPoint = (value: unknown): value is { x: number; z: number } =>
+  isRecord(value) && isFiniteNumber(value.x) && isFiniteNumber(value.z);
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+// MIGRATIONS[n] upgrades a version-n file to version n + 1. Version 0 is an
+// unversioned file holding only a landscape; it loads with the app's start-up
+// colour, theme and view, before any cluster was streamed.
+const MIGRATIONS: ((file: SessionRecord) => SessionRecord)[] = [
+  landscape => ({
+    format: SESSION_FORMAT,
+    version: 1,
+    savedAt: new Date(0).toISOString(),
+    seed: 'IMPORTED',
+    color: '#a3e635',
+    terrainRelief: true,
+    theme: DEFAULT_THEME,
+    landscape,
+    clusters: [],
+    triggerPoints: [],
+    nextClusterId: 0,
+    spawnDraws: 0,
+    camera: { position: { x: 0, y: 300, z: 100 }, azimuth: 0, fov: 60 },
+  }),
+  // Version 2 streams a chunk grid, which needs no trigger points or spawn sequence
+  ({ triggerPoints: _triggerPoints, nextClusterId: _nextClusterId, spawnDraws: _spawnDraws, ...file }) => ({ ...file, version: 2 }),
+];
+
+const migrate = (file: SessionRecord): SessionRecord => {
+  const version = file.format === SESSION_FORMAT ? file.version : Array.isArray(file.buildings) ? 0 : undefined;
+  if (!isCount(version)) throw new Error('Not a city session file');
+  if (version > SESSION_VERSION) {
+    throw new Error(`Session file version ${version} is newer than this app supports (${SESSION_VERSION})`);
+  }
+  let migrated = file;
+  for (let from = version; from < SESSION_VERSION; from++) migrated = MIGRATIONS[from](migrated);
+  return migrated;
+};
+
+const readCamera = (value: unknown): SessionCamera => {
+  if (!isRecord(value) || !isRecord(value.position) || !isFiniteNumber(value.azimuth) || !isFiniteNumber(value.fov)) {
+    throw new Error('Session camera is missing or malformed');
+  }
+  const { x, y, z } = value.position;
+  if (!isFiniteNumber(x) || !isFiniteNumber(y) || !isFiniteNumber(z)) throw new Error('Session camera position is malformed');
+  return { position: { x, y, z }, azimuth: value.azimuth, fov: value.fov };
+};
+
+const readCluster = (value: unknown, index: number, reports: RepairReport[]): SessionCluster => {
+  if (!isRecord(value) || typeof value.idPrefix !== 'string' || !isPoint(value.offset)) {
+    throw new Error(`Session cluster ${index} is missing its id prefix or offset`);
+  }
+  const { data, report } = repairCluster(value.cluster, `session cluster ${value.idPrefix}`);
+  if (report.fixes.length > 0) reports.push(report);
+  const result = validateCluster(data);
+  if (!result.ok) throw new Error(`Session cluster ${value.idPrefix} is invalid:\n${formatValidationIssues(result.issues, 5)}`);
+  return { idPrefix: value.idPrefix, offset: { x: value.offset.x, z: value.offset.z }, cluster: result.value };
+};
+
+// Throws an Error with a readable message when the file cannot be used.
+export const parseCitySession = (text: string): LoadedSession => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Session file is not valid JSON');
+  }
+  if (!isRecord(parsed)) throw new Error('Not a city session file');
+  const file = migrate(parsed);
+  const reports: RepairReport[] = [];
+
+  const seed = normalizeCitySeed(typeof file.seed === 'string' ? file.seed : null);
+  if (!seed) throw new Error('Session seed is missing');
+  if (typeof file.color !== 'string' || !/^#[0-9a-f]{6}$/i.test(file.color)) throw new Error('Session colour is not a #rrggbb colour');
+  if (!isTheme(file.theme)) throw new Error('Session theme is missing or malformed');
+
+  const { data, report } = repairLandscape(file.landscape);
+  if (report.fixes.length > 0) reports.push({ ...report, subject: 'session landscape' });
+  const landscape = validateLandscape(data);
+  if (!landscape.ok) throw new Error(`Session landscape is invalid:\n${formatValidationIssues(landscape.issues, 5)}`);
+
+  if (!Array.isArray(file.clusters)) throw new Error('Session clusters are missing');
+  const clusters = file.clusters.map((cluster, index) => readCluster(cluster, index, reports));
+
+  return {
+    session: {
+      format: SESSION_FORMAT,
+      version: SESSION_VERSION,
+      savedAt: typeof file.savedAt === 'string' ? file.savedAt : new Date(0).toISOString(),
+      seed,
+      color: file.color,
+      terrainRelief: file.terrainRelief !== false,
+      theme: file.theme,
+      landscape: landscape.value,
+      clusters,
+      camera: readCamera(file.camera),
+    },
+    reports,
+  };
+};
+
+export const createCitySession = (parts: Omit<CitySession, 'format' | 'version' | 'savedAt'>): CitySession => ({
+  format: SESSION_FORMAT,
+  version: SESSION_VERSION,
+  savedAt: new Date().toISOString(),
+  ...parts,
+});
+
+export const downloadCitySession = (session: CitySession) => {
+  downloadBlob(new Blob([JSON.stringify(session, null, 2)], { type: 'application/json' }), `Future_Cities_Session_${session.seed}.json`);
+};
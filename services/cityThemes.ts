@@ -0,0 +1,176 @@
+import type { SkySettings } from '../App';
+import {
+  LANDSCAPE_BUILDING_COUNT,
+  CLUSTER_BUILDING_COUNT,
+  type BuildingRanges,
+} from './citySchemas';
+import { hashSeed } from '../utils/seededRandom';
+
+// What kind of city to generate. A theme steers both providers: Gemini reads
+// the prompt and hints, the procedural generator uses the palettes and ranges.
+// The landscape and every streamed cluster of a city share one theme.
+
+export interface CityTheme {
+  id: string;
+  name: string; // Shown on the monitor
+  prompt: string; // Describes the city, e.g. "sparse desert outpost"
+  skyPalettes: SkySettings[]; // Palettes that suit the theme; at least one
+  density: {
+    landscape: [number, number]; // Building count of the initial city
+    cluster: [number, number]; // Building count of each streamed cluster
+  };
+  buildingSize: {
+    height: [number, number];
+    footprint: [number, number]; // Box width and depth, or twice the radius of round shapes
+  };
+}
+
+export const MAX_THEME_PROMPT_LENGTH = 160;
+const SAVED_THEMES_STORAGE_KEY = 'futureCities.savedThemes';
+const MAX_SAVED_THEMES = 12;
+const CUSTOM_THEME_ID = 'custom';
+
+export const THEME_PRESETS: CityTheme[] = [
+  {
+    id: 'synthwave',
+    name: 'SYNTHWAVE',
+    prompt: 'retro 80s synthwave-style',
+    skyPalettes: [
+      { topColor: '#2c003e', horizonColor: '#ff00cc' },
+      { topColor: '#0b0033', horizonColor: '#ff6a00' },
+      { topColor: '#000022', horizonColor: '#00e5ff' },
+      { topColor: '#1a0033', horizonColor: '#ff2a6d' },
+      { topColor: '#05001a', horizonColor: '#b967ff' },
+      { topColor: '#120024', horizonColor: '#f9c80e' },
+    ],
+    density: { landscape: [30, 42], cluster: [5, 8] },
+    buildingSize: { height: [10, 200], footprint: [5, 50] },
+  },
+  {
+    id: 'arcology',
+    name: 'ARCOLOGY',
+    prompt: 'flooded arcology in 2099, megastructures rising from dark water',
+    skyPalettes: [
+      { topColor: '#000814', horizonColor: '#00b4d8' },
+      { topColor: '#001219', horizonColor: '#0a9396' },
+      { topColor: '#03001c', horizonColor: '#5b8fb9' },
+    ],
+    density: { landscape: [38, 50], cluster: [6, 8] },
+    buildingSize: { height: [60, 200], footprint: [15, 50] },
+  },
+  {
+    id: 'outpost',
+    name: 'DESERT OUTPOST',
+    prompt: 'sparse desert outpost of low domes, bunkers and relay masts',
+    skyPalettes: [
+      { topColor: '#1b0a00', horizonColor: '#ff8c00' },
+      { topColor: '#220b00', horizonColor: '#ffb347' },
+      { topColor: '#140400', horizonColor: '#e85d04' },
+    ],
+    density: { landscape: [25, 30], cluster: [5, 5] },
+    buildingSize: { height: [10, 60], footprint: [5, 30] },
+  },
+  {
+    id: 'megacorp',
+    name: 'MEGACORP',
+    prompt: 'corporate megacity of glass towers and neon advertising spires',
+    skyPalettes: [
+      { topColor: '#0d0221', horizonColor: '#ff2a6d' },
+      { topColor: '#10002b', horizonColor: '#e0aaff' },
+      { topColor: '#02010a', horizonColor: '#05d9e8' },
+    ],
+    density: { landscape: [34, 46], cluster: [6, 8] },
+    buildingSize: { height: [40, 200], footprint: [8, 40] },
+  },
+  {
+    id: 'orbital',
+    name: 'ORBITAL SUBURB',
+    prompt: 'quiet orbital suburb of rounded habitat pods under a starfield',
+    skyPalettes: [
+      { topColor: '#000000', horizonColor: '#3a86ff' },
+      { topColor: '#03001e', horizonColor: '#7303c0' },
+    ],
+    density: { landscape: [26, 36], cluster: [5, 7] },
+    buildingSize: { height: [10, 90], footprint: [10, 40] },
+  },
+];
+
+export const DEFAULT_THEME = THEME_PRESETS[0];
+
+const clampRange = ([min, max]: [number, number], [lower, upper]: [number, number]): [number, number] => {
+  const clampedMin = Math.min(upper, Math.max(lower, min));
+  return [clampedMin, Math.min(upper, Math.max(clampedMin, max))];
+};
+
+// Narrows schema ranges to the theme, never past them, so themed output still validates.
+export const themeBuildingRanges = (base: BuildingRanges, theme: CityTheme): BuildingRanges => ({
+  ...base,
+  height: clampRange(theme.buildingSize.height, base.height),
+  boxSide: clampRange(theme.buildingSize.footprint, base.boxSide),
+  radius: clampRange([theme.buildingSize.footprint[0] / 2, theme.buildingSize.footprint[1] / 2], base.radius),
+});
+
+export const themeBuildingCount = (theme: CityTheme, kind: 'landscape' | 'cluster'): [number, number] =>
+  kind === 'landscape'
+    ? clampRange(theme.density.landscape, LANDSCAPE_BUILDING_COUNT)
+    : clampRange(theme.density.cluster, CLUSTER_BUILDING_COUNT);
+
+// Changes whenever anything that affects generated output changes; ids and names do not.
+export const themeFingerprint = (theme: CityTheme): string =>
+  hashSeed(JSON.stringify([theme.prompt, theme.skyPalettes, theme.density, theme.buildingSize])).toString(36);
+
+// Single spaces and no trailing full stop, since the prompt is spliced into sentences.
+export const normalizeThemePrompt = (input: string): string =>
+  input.replace(/\s+/g, ' ').trim().replace(/\.+$/, '').slice(0, MAX_THEME_PROMPT_LENGTH).trim();
+
+// The theme with a user-written prompt; palettes and ranges come from the base theme.
+export const withCustomPrompt = (base: CityTheme, prompt: string): CityTheme => {
+  const normalized = normalizeThemePrompt(prompt);
+  if (!normalized || normalized === base.prompt) return base;
+  return { ...base, id: CUSTOM_THEME_ID, name: 'CUSTOM', prompt: normalized };
+};
+
+const isRange = (value: unknown): value is [number, number] =>
+  Array.isArray(value) && value.length === 2 && value.every(n => typeof n === 'number' && Number.isFinite(n));
+
+export const isTheme = (value: unknown): value is CityTheme => {
+  const theme = value as CityTheme;
+  return typeof theme === 'object' && theme !== null
+    && typeof theme.id === 'string' && typeof theme.name === 'string' && typeof theme.prompt === 'string'
+    && Array.isArray(theme.skyPalettes) && theme.skyPalettes.length > 0
+    && theme.skyPalettes.every(p => typeof p?.topColor === 'string' && typeof p?.horizonColor === 'string')
+    && isRange(theme.density?.landscape) && isRange(theme.density?.cluster)
+    && isRange(theme.buildingSize?.height) && isRange(theme.buildingSize?.footprint);
+};
+
+export const readSavedThemes = (): CityTheme[] => {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(SAVED_THEMES_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isTheme) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeSavedThemes = (themes: CityTheme[]) => {
+  try {
+    window.localStorage.setItem(SAVED_THEMES_STORAGE_KEY, JSON.stringify(themes));
+  } catch {
+    // Storage can be unavailable (private mode); saved themes then last for this session only
+  }
+};
+
+// Saves the theme under a name taken from its prompt; the oldest saves go first once the library is full.
+export const saveTheme = (saved: CityTheme[], theme: CityTheme): { saved: CityTheme[]; theme: CityTheme } => {
+  const name = theme.prompt.split(' ').slice(0, 3).join(' ').toUpperCase();
+  const savedTheme: CityTheme = { ...theme, id: `saved_${Date.now().toString(36)}`, name };
+  const next = [...saved.filter(t => t.prompt !== theme.prompt), savedTheme].slice(-MAX_SAVED_THEMES);
+  writeSavedThemes(next);
+  return { saved: next, theme: savedTheme };
+};
+
+export const deleteSavedTheme = (saved: CityTheme[], id: string): CityTheme[] => {
+  const next = saved.filter(t => t.id !== id);
+  writeSavedThemes(next);
+  return next;
+};
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import type { CityElementData, ClusterData, RoadData } from '../App';
+import { placeClusterInWorld } from './clusterPlacement';
+import { createFootprintIndex, footprintOf, footprintsCollide } from './footprintIndex';
+import { isOnRoad } from './roadLayout';
+import { createReplayProvider } from './geminiFixtures';
+import { loadGeminiFixture } from '../fixtures/loadGeminiFixtures';
+
+const box = (id: string, x: number, z: number, side = 10): CityElementData => ({
+  id,
+  type: 'building',
+  shape: 'box',
+  position: { x, y: 0, z },
+  dimensions: { width: side, height: 40, depth: side },
+});
+
+const street = (id: string, z: number): RoadData => ({
+  id,
+  kind: 'street',
+  width: 8,
+  points: [{ x: -60, z }, { x: 60, z }],
+});
+
+describe('placeClusterInWorld', () => {
+  it('offsets buildings and roads into the world', () => {
+    const cluster: ClusterData = { roads: [street('r1', 30)], buildings: [box('a', 0, 0), box('b', 25, -20)] };
+    const worldRoads: RoadData[] = [];
+    const world = createFootprintIndex();
+
+    const placement = placeClusterInWorld(cluster, { x: 200, z: -400 }, worldRoads, world);
+
+    expect(placement.fixes).toEqual([]);
+    expect(placement.buildings.map(b => b.position)).toEqual([{ x: 200, y: 0, z: -400 }, { x: 225, y: 0, z: -420 }]);
+    expect(placement.roads[0].points).toEqual([{ x: 140, z: -370 }, { x: 260, z: -370 }]);
+    expect(worldRoads).toEqual(placement.roads);
+    expect(world.buildings().map(b => b.id)).toEqual(['a', 'b']);
+  });
+
+  it('leaves the cluster untouched', () => {
+    const cluster: ClusterData = { roads: [street('r1', 30)], buildings: [box('a', 0, 0)] };
+    const copy = structuredClone(cluster);
+    placeClusterInWorld(cluster, { x: 50, z: 50 }, [], createFootprintIndex());
+    expect(cluster).toEqual(copy);
+  });
+
+  it('moves buildings off roads already in the world', () => {
+    const worldRoads = [street('world_r', -300)];
+    const cluster: ClusterData = { roads: [], buildings: [box('a', 0, 1)] };
+
+    const placement = placeClusterInWorld(cluster, { x: 0, z: -300 }, worldRoads, createFootprintIndex());
+
+    expect(placement.fixes).toEqual([{ path: 'a.position', action: 'moved', detail: "off road 'world_r'" }]);
+    expect(isOnRoad(placement.buildings[0], worldRoads)).toBe(false);
+  });
+
+  it('fits buildings around footprints already in the world', () => {
+    const world = createFootprintIndex();
+    world.insert(box('landscape', 100, 100, 20));
+    const cluster: ClusterData = { roads: [], buildings: [box('a', 4, 0)] };
+
+    const placement = placeClusterInWorld(cluster, { x: 100, z: 100 }, [], world);
+
+    expect(placement.buildings).toHaveLength(1);
+    expect(placement.fixes.map(fix => fix.path)).toEqual([expect.stringMatching(/^a\./)]);
+    expect(footprintsCollide(footprintOf(placement.buildings[0]), footprintOf(world.buildings()[0]))).toBe(false);
+    expect(world.size()).toBe(2);
+  });
+
+  it('places a replayed Gemini cluster end to end', async () => {
+    const fixture = loadGeminiFixture('cluster-in-district');
+    if (fixture.kind !== 'cluster') throw new Error('not a cluster fixture');
+    const { clusterIdPrefix, seed, context } = fixture.request;
+    const cluster = await createReplayProvider([fixture]).generateBuildingCluster(clusterIdPrefix, seed, context);
+    if (!cluster) throw new Error('the fixture should produce a cluster');
+    const offset = { x: -80, z: -650 };
+    const worldRoads: RoadData[] = [];
+    const world = createFootprintIndex();
+
+    const placement = placeClusterInWorld(cluster, offset, worldRoads, world);
+
+    expect(placement.roads.map(r => r.id)).toEqual(cluster.roads.map(r => r.id));
+    placement.buildings.forEach(building => {
+      const source = cluster.buildings.find(b => b.id === building.id)!;
+      expect(building.districtId).toBe(context.district?.id);
+      expect(Math.abs(building.position.x - (source.position.x + offset.x))).toBeLessThan(40);
+      expect(Math.abs(building.position.z - (source.position.z + offset.z))).toBeLessThan(40);
+      expect(isOnRoad(building, worldRoads)).toBe(false);
+    });
+    expect(placement.buildings.length + placement.fixes.filter(fix => fix.action === 'dropped').length).toBe(cluster.buildings.length);
+    expect(world.size()).toBe(placement.buildings.length);
+  });
+});
@@ -0,0 +1,58 @@
+import type { CityElementData, ClusterData, RoadData } from '../App';
+import type { RepairFix } from './cityRepair';
+import { overlapFixes } from './cityRepair';
+import type { FootprintIndex } from './footprintIndex';
+import { resolveOverlaps } from './overlapResolver';
+import { placeClearOfRoads } from './roadLayout';
+
+// Moves a streamed cluster from its own coordinates to its spot in the world
+// and settles it there. Roads go first and extend the network, so the cluster's
+// buildings are kept off them as well as off the roads already in the world;
+// the buildings are then fitted around every footprint in the world index.
+
+export interface ClusterPlacement {
+  roads: RoadData[]; // In world coordinates
+  buildings: CityElementData[]; // Placed, in world coordinates; dropped buildings are left out
+  fixes: RepairFix[]; // Buildings moved, shrunk or dropped on arrival
+}
+
+// Appends the cluster's roads to `worldRoads` and its buildings to `world`.
+// The cluster itself is left untouched, since it may be shared with the generation cache.
+export const placeClusterInWorld = (
+  cluster: ClusterData,
+  offset: { x: number; z: number },
+  worldRoads: RoadData[],
+  world: FootprintIndex,
+): ClusterPlacement => {
+  const roads = cluster.roads.map(clusterRoad => ({
+    ...clusterRoad,
+    points: clusterRoad.points.map(p => ({ x: p.x + offset.x, z: p.z + offset.z })),
+  }));
+  worldRoads.push(...roads);
+
+  const fixes: RepairFix[] = [];
+  const clearOfRoads: CityElementData[] = [];
+  cluster.buildings.forEach(clusterBuilding => {
+    const building: CityElementData = {
+      ...clusterBuilding,
+      position: {
+        ...clusterBuilding.position,
+        x: clusterBuilding.position.x + offset.x,
+        z: clusterBuilding.position.z + offset.z,
+      },
+    };
+    const placement = placeClearOfRoads(building, worldRoads);
+    if (placement.outcome === 'rejected') {
+      fixes.push({ path: building.id, action: 'dropped', detail: `stands on road '${placement.roadId}'` });
+      return;
+    }
+    if (placement.outcome === 'snapped') {
+      fixes.push({ path: `${building.id}.position`, action: 'moved', detail: `off road '${placement.roadId}'` });
+    }
+    clearOfRoads.push(placement.building);
+  });
+
+  const resolution = resolveOverlaps(clearOfRoads, world, { roads: worldRoads });
+  fixes.push(...overlapFixes(resolution.outcomes, i => clearOfRoads[i].id));
+  return { roads, buildings: resolution.placed, fixes };
+};
@@ -0,0 +1,77 @@
+import type { DistrictData, ZoneType } from '../App';
+
+// Zoning shared by generation, repair, rendering and the monitor's census.
+// Districts are rectangles on the ground plane; the streamed world repeats the
+// landscape's districts, so every spot of an endless flight belongs to one.
+
+export interface ZoneProfile {
+  // Share of the city's height range the zone builds in; scaled by the theme's heights
+  heightShare: [number, number];
+  density: number; // Typical DistrictData.density
+  lineIntensity: number; // Brightness of the zone's wireframes relative to the city colour
+  residentsPerFloorArea: number; // People per unit of floor area, for the census
+}
+
+export const ZONE_PROFILES: Record<ZoneType, ZoneProfile> = {
+  downtown: { heightShare: [0.45, 1], density: 0.85, lineIntensity: 1, residentsPerFloorArea: 0.05 },
+  residential: { heightShare: [0, 0.35], density: 0.6, lineIntensity: 0.6, residentsPerFloorArea: 0.04 },
+  industrial: { heightShare: [0.1, 0.45], density: 0.5, lineIntensity: 0.75, residentsPerFloorArea: 0.005 },
+  port: { heightShare: [0, 0.3], density: 0.4, lineIntensity: 0.85, residentsPerFloorArea: 0.008 },
+};
+
+export const ZONE_TYPES = Object.keys(ZONE_PROFILES) as ZoneType[];
+export const DISTRICT_DENSITY_RANGE: [number, number] = [0.1, 1];
+
+const NAME_PREFIXES = ['NEON', 'CHROME', 'VECTOR', 'PIXEL', 'LASER', 'OCTANE', 'CIRCUIT', 'PHOSPHOR', 'SILICON', 'ULTRA'];
+const ZONE_NAME_SUFFIXES: Record<ZoneType, string[]> = {
+  downtown: ['CORE', 'HEIGHTS', 'PLAZA', 'SPIRES'],
+  residential: ['GARDENS', 'PARK', 'TERRACES', 'VILLAGE'],
+  industrial: ['WORKS', 'FOUNDRY', 'YARDS', 'REFINERY'],
+  port: ['DOCKS', 'HARBOUR', 'WHARF', 'MARINA'],
+};
+
+export const createDistrictName = (random: () => number, zone: ZoneType): string => {
+  const suffixes = ZONE_NAME_SUFFIXES[zone];
+  return `${NAME_PREFIXES[Math.floor(random() * NAME_PREFIXES.length)]} ${suffixes[Math.floor(random() * suffixes.length)]}`;
+};
+
+// The zone's share of `heightRange`, rounded to whole units.
+export const zoneHeightProfile = (zone: ZoneType, [minHeight, maxHeight]: [number, number]): DistrictData['heightProfile'] => {
+  const [low, high] = ZONE_PROFILES[zone].heightShare;
+  return {
+    min: Math.round(minHeight + (maxHeight - minHeight) * low),
+    max: Math.round(minHeight + (maxHeight - minHeight) * high),
+  };
+};
+
+const contains = ({ bounds }: DistrictData, x: number, z: number): boolean =>
+  x >= bounds.minX && x <= bounds.maxX && z >= bounds.minZ && z <= bounds.maxZ;
+
+const distanceTo = ({ bounds }: DistrictData, x: number, z: number): number =>
+  Math.hypot(
+    Math.max(bounds.minX - x, 0, x - bounds.maxX),
+    Math.max(bounds.minZ - z, 0, z - bounds.maxZ),
+  );
+
+const wrap = (value: number, min: number, max: number): number => {
+  const span = max - min;
+  return span > 0 ? min + ((((value - min) % span) + span) % span) : min;
+};
+
+// The district a ground position belongs to. Positions outside every district
+// are wrapped into the area the districts cover, so the landscape's zoning
+// tiles the streamed world; gaps between districts go to the nearest one.
+export const districtAt = (districts: DistrictData[], x: number, z: number): DistrictData | null => {
+  if (districts.length === 0) return null;
+  const direct = districts.find(d => contains(d, x, z));
+  if (direct) return direct;
+
+  const minX = Math.min(...districts.map(d => d.bounds.minX));
+  const maxX = Math.max(...districts.map(d => d.bounds.maxX));
+  const minZ = Math.min(...districts.map(d => d.bounds.minZ));
+  const maxZ = Math.max(...districts.map(d => d.bounds.maxZ));
+  const wrappedX = wrap(x, minX, maxX);
+  const wrappedZ = wrap(z, minZ, maxZ);
+  return districts.find(d => contains(d, wrappedX, wrappedZ))
+    ?? districts.reduce((nearest, d) => (distanceTo(d, wrappedX, wrappedZ) < distanceTo(nearest, wrappedX, wrappedZ) ? d : nearest));
+};
@@ -0,0 +1,164 @@
+import type { CityElementData } from '../App';
+import { SHAPE_SPECS } from './buildingShapes';
+
+// Spatial hash over building footprints. Rectangular shapes are oriented boxes
+// (turned by orientationY, the same way the renderer turns them); round shapes
+// are circles. Each footprint is filed under every grid cell its bounding
+// circle touches, so a query only tests the few buildings nearby.
+
+const DEFAULT_CELL_SIZE = 64;
+
+interface CircleFootprint {
+  kind: 'circle';
+  x: number;
+  z: number;
+  boundingRadius: number;
+  radius: number;
+}
+
+interface RectFootprint {
+  kind: 'rect';
+  x: number;
+  z: number;
+  boundingRadius: number;
+  halfWidth: number;
+  halfDepth: number;
+  // Local X and Z axes on the ground plane (three.js rotation.y turns +X towards -Z)
+  axisU: [number, number];
+  axisV: [number, number];
+}
+
+export type Footprint = CircleFootprint | RectFootprint;
+
+export const footprintOf = (building: CityElementData): Footprint => {
+  const { x, z } = building.position;
+  const { width = 0, depth = 0, radius = 0 } = building.dimensions;
+  if (SHAPE_SPECS[building.shape]?.footprint === 'round') {
+    return { kind: 'circle', x, z, boundingRadius: radius, radius };
+  }
+  const angle = building.orientationY ?? 0;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return {
+    kind: 'rect',
+    x,
+    z,
+    boundingRadius: Math.hypot(width, depth) / 2,
+    halfWidth: width / 2,
+    halfDepth: depth / 2,
+    axisU: [cos, -sin],
+    axisV: [sin, cos],
+  };
+};
+
+const dot = (ax: number, az: number, [bx, bz]: [number, number]) => ax * bx + az * bz;
+
+const circleHitsCircle = (a: CircleFootprint, b: CircleFootprint, gap: number) =>
+  Math.hypot(a.x - b.x, a.z - b.z) < a.radius + b.radius + gap;
+
+const rectHitsCircle = (rect: RectFootprint, circle: CircleFootprint, gap: number) => {
+  const dx = circle.x - rect.x;
+  const dz = circle.z - rect.z;
+  const localU = dot(dx, dz, rect.axisU);
+  const localV = dot(dx, dz, rect.axisV);
+  const nearestU = Math.max(-rect.halfWidth, Math.min(rect.halfWidth, localU));
+  const nearestV = Math.max(-rect.halfDepth, Math.min(rect.halfDepth, localV));
+  return Math.hypot(localU - nearestU, localV - nearestV) < circle.radius + gap;
+};
+
+// Separating axis test over the four box axes; `gap` widens every projection.
+const rectHitsRect = (a: RectFootprint, b: RectFootprint, gap: number) => {
+  const dx = b.x - a.x;
+  const dz = b.z - a.z;
+  const projectedHalf = (rect: RectFootprint, axis: [number, number]) =>
+    Math.abs(dot(rect.axisU[0], rect.axisU[1], axis)) * rect.halfWidth + Math.abs(dot(rect.axisV[0], rect.axisV[1], axis)) * rect.halfDepth;
+  return [a.axisU, a.axisV, b.axisU, b.axisV].every(axis =>
+    Math.abs(dot(dx, dz, axis)) < projectedHalf(a, axis) + projectedHalf(b, axis) + gap,
+  );
+};
+
+export const footprintsCollide = (a: Footprint, b: Footprint, gap: number = 0): boolean => {
+  if (Math.hypot(a.x - b.x, a.z - b.z) >= a.boundingRadius + b.boundingRadius + gap) return false;
+  if (a.kind === 'circle') return b.kind === 'circle' ? circleHitsCircle(a, b, gap) : rectHitsCircle(b, a, gap);
+  return b.kind === 'circle' ? rectHitsCircle(a, b, gap) : rectHitsRect(a, b, gap);
+};
+
+export interface FootprintIndex {
+  insert: (building: CityElementData) => void; // Replaces any entry with the same id
+  remove: (id: string) => void;
+  // Indexed buildings whose footprints come closer than `gap` to this one (itself excluded by id)
+  findCollisions: (building: CityElementData, gap?: number) => CityElementData[];
+  clear: () => void;
+  size: () => number;
+  buildings: () => CityElementData[]; // Everything indexed, in insertion order
+}
+
+interface IndexEntry {
+  building: CityElementData;
+  footprint: Footprint;
+  cells: string[];
+}
+
+export const createFootprintIndex = (cellSize: number = DEFAULT_CELL_SIZE): FootprintIndex => {
+  const entries = new Map<string, IndexEntry>();
+  const cells = new Map<string, Set<string>>();
+
+  const cellsCovering = (x: number, z: number, reach: number): string[] => {
+    const keys: string[] = [];
+    for (let cx = Math.floor((x - reach) / cellSize); cx <= Math.floor((x + reach) / cellSize); cx++) {
+      for (let cz = Math.floor((z - reach) / cellSize); cz <= Math.floor((z + reach) / cellSize); cz++) {
+        keys.push(`${cx},${cz}`);
+      }
+    }
+    return keys;
+  };
+
+  const remove = (id: string) => {
+    const entry = entries.get(id);
+    if (!entry) return;
+    entry.cells.forEach(key => {
+      const cell = cells.get(key);
+      cell?.delete(id);
+      if (cell?.size === 0) cells.delete(key);
+    });
+    entries.delete(id);
+  };
+
+  const insert = (building: CityElementData) => {
+    remove(building.id);
+    const footprint = footprintOf(building);
+    const entry: IndexEntry = { building, footprint, cells: cellsCovering(footprint.x, footprint.z, footprint.boundingRadius) };
+    entry.cells.forEach(key => {
+      if (!cells.has(key)) cells.set(key, new Set());
+      cells.get(key)!.add(building.id);
+    });
+    entries.set(building.id, entry);
+  };
+
+  const findCollisions = (building: CityElementData, gap: number = 0): CityElementData[] => {
+    const footprint = footprintOf(building);
+    const candidates = new Set<string>();
+    cellsCovering(footprint.x, footprint.z, footprint.boundingRadius + gap).forEach(key => {
+      cells.get(key)?.forEach(id => candidates.add(id));
+    });
+    candidates.delete(building.id);
+    return [...candidates]
+      .map(id => entries.get(id)!)
+      .filter(entry => footprintsCollide(footprint, entry.footprint, gap))
+      .map(entry => entry.building);
+  };
+
+  const clear = () => {
+    entries.clear();
+    cells.clear();
+  };
+
+  return {
+    insert,
+    remove,
+    findCollisions,
+    clear,
+    size: () => entries.size,
+    buildings: () => [...entries.values()].map(entry => entry.building),
+  };
+};
@@ -0,0 +1,284 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { RepairReport } from './cityRepair';
+import type { LandscapeProgress, ModelAttempt } from './cityGenerationProvider';
+import { createGeminiProvider, extractJsonText, PROMPT_TEMPLATE_VERSION, type GeminiRequest } from './geminiCityProvider';
+import { createRecordingTransport, createReplayProvider, createReplayTransport, parseGeminiFixture, type GeminiExchange } from './geminiFixtures';
+import { loadGeminiFixture, loadGeminiFixtures } from '../fixtures/loadGeminiFixtures';
+import { summariseNeighbourhood } from './neighbourhood';
+
+// Every test answers from fixtures/gemini/, so nothing here reaches the network.
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.stubGlobal('fetch', () => { throw new Error('Tests must not use the network'); });
+  return () => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  };
+});
+
+describe('extractJsonText', () => {
+  it('leaves bare JSON alone', () => {
+    expect(extractJsonText('  {"roads": []}\n')).toBe('{"roads": []}');
+  });
+
+  it('strips ```json fences', () => {
+    expect(extractJsonText('```json\n{"roads": []}\n```')).toBe('{"roads": []}');
+  });
+
+  it('strips fences without a language or newlines', () => {
+    expect(extractJsonText('```\n[1, 2]\n```')).toBe('[1, 2]');
+    expect(extractJsonText('```{"a": 1}```')).toBe('{"a": 1}');
+  });
+
+  it('leaves text with fences inside it alone', () => {
+    const text = 'Here you go:\n```json\n{}\n```';
+    expect(extractJsonText(text)).toBe(text);
+  });
+});
+
+describe('landscape generation', () => {
+  const generate = (name: string, hooks = {}) => {
+    const fixture = loadGeminiFixture(name);
+    if (fixture.kind !== 'landscape') throw new Error(`${name} is not a landscape fixture`);
+    return createReplayProvider([fixture], hooks).generateLandscape(fixture.request.seed, fixture.request.theme);
+  };
+
+  it('accepts a valid answer', async () => {
+    const landscape = await generate('landscape-valid');
+    expect(landscape.buildings).toHaveLength(30);
+    expect(landscape.districts.length).toBeGreaterThan(0);
+  });
+
+  it('accepts an answer wrapped in a code fence', async () => {
+    expect(await generate('landscape-fenced')).toEqual(await generate('landscape-valid'));
+  });
+
+  it('re-asks with the parse error after a truncated answer', async () => {
+    const fixture = loadGeminiFixture('landscape-truncated-then-corrected');
+    if (fixture.kind !== 'landscape') throw new Error('not a landscape fixture');
+    const requests: GeminiRequest[] = [];
+    const replay = createReplayTransport(fixture);
+    const provider = createGeminiProvider(request => {
+      requests.push(structuredClone(request));
+      return replay(request);
+    });
+
+    const landscape = await provider.generateLandscape(fixture.request.seed, fixture.request.theme);
+    expect(landscape.buildings).toHaveLength(30);
+    expect(requests).toHaveLength(2);
+    const [, second] = requests;
+    expect(second.contents.map(content => content.role)).toEqual(['user', 'model', 'user']);
+    expect(second.contents[1].parts?.[0].text).toBe(fixture.exchanges[0].response);
+    expect(second.contents[2].parts?.[0].text).toContain('(root): response is not valid JSON');
+  });
+
+  it('sends the same prompt and seed as when the fixture was recorded', async () => {
+    const fixture = loadGeminiFixture('landscape-truncated-then-corrected');
+    if (fixture.kind !== 'landscape') throw new Error('not a landscape fixture');
+    const replay = createReplayTransport(fixture);
+    const exchanges: GeminiExchange[] = [];
+    const seeds = new Set<number>();
+    const provider = createGeminiProvider(createRecordingTransport(request => {
+      seeds.add(request.seed);
+      return replay(request);
+    }, exchanges));
+
+    await provider.generateLandscape(fixture.request.seed, fixture.request.theme);
+    expect(exchanges).toEqual(fixture.exchanges);
+    expect(seeds.size).toBe(1);
+  });
+
+  it('fails with the validation issues after three invalid answers', async () => {
+    await expect(generate('landscape-too-few-buildings')).rejects.toThrow(
+      'Landscape data failed validation after 3 attempts:\n- buildings: expected at least 25 items, got 24',
+    );
+  });
+
+  it('reports repairs on accepted answers', async () => {
+    const reports: RepairReport[] = [];
+    const landscape = await generate('landscape-needs-repair', { onRepairReport: (report: RepairReport) => reports.push(report) });
+    expect(landscape.buildings[1].position.y).toBe(0);
+    expect(reports).toHaveLength(1);
+    expect(reports[0].fixes.map(fix => [fix.path, fix.action])).toEqual([
+      ['buildings[0].dimensions.height', 'coerced'],
+      ['buildings[1].position.y', 'clamped'],
+    ]);
+  });
+
+  it('reports every answer it took from the model', async () => {
+    const onModelAttempts = vi.fn();
+    await generate('landscape-truncated-then-corrected', { onModelAttempts });
+    expect(onModelAttempts).toHaveBeenCalledTimes(1);
+    const [kind, key, attempts] = onModelAttempts.mock.calls[0] as [string, string, ModelAttempt[]];
+    expect([kind, key]).toEqual(['landscape', 'FIXTURE3']);
+    expect(attempts.map(attempt => [attempt.outcome, attempt.failedRules])).toEqual([
+      ['unparseable', ['(root): response is not valid JSON']],
+      ['accepted', []],
+    ]);
+  });
+
+  it('reports the rules rejected answers broke', async () => {
+    const attempts: ModelAttempt[] = [];
+    await generate('landscape-too-few-buildings', {
+      onModelAttempts: (_kind: string, _key: string, reported: ModelAttempt[]) => attempts.push(...reported),
+    }).catch(() => {});
+    expect(attempts.map(attempt => attempt.outcome)).toEqual(['invalid', 'invalid', 'invalid']);
+    expect(attempts[0].failedRules).toEqual(['buildings: expected at least 25 items']);
+  });
+
+  it('does not report clean answers', async () => {
+    const onRepairReport = vi.fn();
+    await generate('landscape-valid', { onRepairReport });
+    expect(onRepairReport).not.toHaveBeenCalled();
+  });
+
+  it('fails like a network error when no fixture matches', async () => {
+    const fixture = loadGeminiFixture('landscape-valid');
+    if (fixture.kind !== 'landscape') throw new Error('not a landscape fixture');
+    await expect(createReplayProvider([fixture]).generateLandscape('OTHER', fixture.request.theme)).rejects.toThrow('No fixture recorded for landscape OTHER');
+  });
+});
+
+describe('streamed landscape generation', () => {
+  const stream = async (name: string) => {
+    const fixture = loadGeminiFixture(name);
+    if (fixture.kind !== 'landscape') throw new Error(`${name} is not a landscape fixture`);
+    const progress: LandscapeProgress[] = [];
+    const landscape = await createReplayProvider([fixture])
+      .generateLandscape(fixture.request.seed, fixture.request.theme, part => progress.push(part));
+    return { landscape, progress };
+  };
+
+  it('reports the layout, then every building as it arrives', async () => {
+    const { landscape, progress } = await stream('landscape-valid');
+    expect(progress.map(part => part.kind)).toEqual(['layout', ...landscape.buildings.map(() => 'building')]);
+    const [layout, ...buildings] = progress;
+    expect(layout).toEqual({ kind: 'layout', layout: { sky: landscape.sky, districts: landscape.districts, roads: landscape.roads } });
+    expect(buildings).toEqual(landscape.buildings.map(building => ({ kind: 'building', building })));
+  });
+
+  it('streams fenced answers', async () => {
+    const { progress } = await stream('landscape-fenced');
+    expect(progress.filter(part => part.kind === 'building')).toHaveLength(30);
+  });
+
+  it('holds back buildings that fail validation until the whole landscape is repaired', async () => {
+    const { landscape, progress } = await stream('landscape-needs-repair');
+    const streamedIds = progress.flatMap(part => (part.kind === 'building' ? [part.building.id] : []));
+    expect(streamedIds).not.toContain(landscape.buildings[0].id);
+    expect(streamedIds).not.toContain(landscape.buildings[1].id);
+    expect(streamedIds).toHaveLength(landscape.buildings.length - 2);
+  });
+
+  it('streams the corrected answer again after a truncated one', async () => {
+    const { landscape, progress } = await stream('landscape-truncated-then-corrected');
+    const streamedIds = progress.flatMap(part => (part.kind === 'building' ? [part.building.id] : []));
+    expect(new Set(streamedIds)).toEqual(new Set(landscape.buildings.map(building => building.id)));
+    expect(streamedIds.length).toBeGreaterThan(landscape.buildings.length);
+  });
+});
+
+describe('cluster generation', () => {
+  const generate = (name: string, hooks = {}) => {
+    const fixture = loadGeminiFixture(name);
+    if (fixture.kind !== 'cluster') throw new Error(`${name} is not a cluster fixture`);
+    const { clusterIdPrefix, seed, context } = fixture.request;
+    return createReplayProvider([fixture], hooks).generateBuildingCluster(clusterIdPrefix, seed, context);
+  };
+
+  it('prefixes building and road ids', async () => {
+    const cluster = await generate('cluster-valid');
+    expect(cluster?.buildings).toHaveLength(6);
+    expect(cluster?.buildings.every(b => b.id.startsWith('c1_') && b.districtId === undefined)).toBe(true);
+    expect(cluster?.roads.every(r => r.id.startsWith('c1_'))).toBe(true);
+  });
+
+  it('puts buildings in the district they were asked for', async () => {
+    const fixture = loadGeminiFixture('cluster-in-district');
+    if (fixture.kind !== 'cluster') throw new Error('not a cluster fixture');
+    const cluster = await generate('cluster-in-district');
+    expect(cluster?.buildings.every(b => b.districtId === fixture.request.context.district?.id)).toBe(true);
+  });
+
+  it('drops buildings past the limit of 8 and reports it', async () => {
+    const reports: RepairReport[] = [];
+    const cluster = await generate('cluster-too-many-buildings', { onRepairReport: (report: RepairReport) => reports.push(report) });
+    expect(cluster?.buildings).toHaveLength(8);
+    expect(reports[0].fixes).toContainEqual({ path: 'buildings[8]', action: 'dropped', detail: 'more than 8 buildings' });
+  });
+
+  it('gives up with null after three malformed answers', async () => {
+    const onModelAttempts = vi.fn();
+    expect(await generate('cluster-malformed', { onModelAttempts })).toBeNull();
+    const [kind, key, attempts] = onModelAttempts.mock.calls[0] as [string, string, ModelAttempt[]];
+    expect([kind, key]).toEqual(['cluster', 'c4_']);
+    expect(attempts.map(attempt => attempt.outcome)).toEqual(['unparseable', 'unparseable', 'invalid']);
+  });
+
+  it('tells the model about the sky and the buildings around, and asks as recorded without them', async () => {
+    const fixture = loadGeminiFixture('cluster-in-district');
+    if (fixture.kind !== 'cluster') throw new Error('not a cluster fixture');
+    const { clusterIdPrefix, seed, context } = fixture.request;
+    const promptFor = async (surroundings: Pick<typeof context, 'sky' | 'neighbourhood'>) => {
+      const exchanges: GeminiExchange[] = [];
+      const transport = createRecordingTransport(createReplayTransport(fixture), exchanges);
+      await createGeminiProvider(transport).generateBuildingCluster(clusterIdPrefix, seed, { ...context, ...surroundings });
+      return exchanges[0].prompt;
+    };
+    expect(await promptFor({ sky: null, neighbourhood: null })).toBe(fixture.exchanges[0].prompt);
+
+    const tower = { id: 't', type: 'building', shape: 'cylinder', position: { x: 140, y: 0, z: 0 }, dimensions: { radius: 10, height: 90 } } as const;
+    const prompt = await promptFor({
+      sky: { topColor: '#102030', horizonColor: '#ff8800' },
+      neighbourhood: summariseNeighbourhood([tower], { x: 100, z: 0 }, [{ x: 100, z: 225, radius: 75, height: 40 }]),
+    });
+    expect(prompt).toContain('fades from #102030 overhead to #ff8800');
+    expect(prompt).toContain('Surroundings: 1 buildings already stand');
+    expect(prompt).toContain('Median height on each side: -X open, +X 90, -Z open, +Z open');
+    expect(prompt).toContain('(40, 0, r 10, h 90). Keep every new footprint clear');
+    expect(prompt).toContain('Neighbouring clusters, not built yet, in this cluster\'s coordinates as (x, z, area radius, expected height): (0, 225, r 75, h 40).');
+  });
+
+  it('asks with the sky and neighbourhood as recorded, and keeps the answer off occupied ground', async () => {
+    const fixture = loadGeminiFixture('cluster-in-neighbourhood');
+    if (fixture.kind !== 'cluster') throw new Error('not a cluster fixture');
+    const { clusterIdPrefix, seed, context } = fixture.request;
+    const exchanges: GeminiExchange[] = [];
+    const transport = createRecordingTransport(createReplayTransport(fixture), exchanges);
+    const cluster = await createGeminiProvider(transport).generateBuildingCluster(clusterIdPrefix, seed, context);
+    expect(exchanges.map(exchange => exchange.prompt)).toEqual(fixture.exchanges.map(exchange => exchange.prompt));
+    expect(cluster?.buildings).toHaveLength(5);
+    const occupied = context.neighbourhood?.occupied ?? [];
+    expect(occupied.length).toBeGreaterThan(0);
+    expect(cluster?.buildings.every(b => occupied.every(area => Math.hypot(b.position.x - area.x, b.position.z - area.z) > area.radius))).toBe(true);
+  });
+
+  it('gives up with null when no fixture matches', async () => {
+    const fixture = loadGeminiFixture('cluster-valid');
+    if (fixture.kind !== 'cluster') throw new Error('not a cluster fixture');
+    expect(await createReplayProvider([fixture]).generateBuildingCluster('c9_', fixture.request.seed, fixture.request.context)).toBeNull();
+  });
+});
+
+describe('fixtures', () => {
+  it('all parse and match the current prompt template', () => {
+    const fixtures = loadGeminiFixtures();
+    expect(fixtures.length).toBeGreaterThan(0);
+    fixtures.forEach(fixture => expect(fixture.templateVersion, fixture.name).toBe(PROMPT_TEMPLATE_VERSION));
+  });
+
+  it('rejects files that are not fixtures', () => {
+    expect(() => parseGeminiFixture('{')).toThrow('Fixture is not valid JSON');
+    expect(() => parseGeminiFixture('{"format": "future-cities-session"}')).toThrow('Not a Gemini fixture');
+    expect(() => parseGeminiFixture('{"format": "future-cities-gemini-fixture", "version": 2}')).toThrow('Fixture version 2 is not supported (1)');
+  });
+
+  it('fails when the conversation outruns the recording', async () => {
+    const transport = createReplayTransport(loadGeminiFixture('cluster-valid'));
+    const request = { contents: [], responseSchema: {}, seed: 0 };
+    await transport(request);
+    await expect(transport(request)).rejects.toThrow("Fixture 'cluster-valid' has no answer for request 2");
+  });
+});
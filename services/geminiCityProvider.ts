@@ -0,0 +1,284 @@
+import { GoogleGenAI, GenerateContentResponse, type Content, type GenerateContentResponseUsageMetadata, type Schema } from "@google/genai";
+import type { LandscapeData, ClusterData } from '../App';
+import type {
+  CityGenerationProvider,
+  CityGenerationHooks,
+  ClusterContext,
+  GenerationKind,
+  LandscapeProgressHandler,
+  ModelAttempt,
+  TokenUsage,
+} from './cityGenerationProvider';
+import {
+  LANDSCAPE_SCHEMA,
+  CLUSTER_SCHEMA,
+  validateLandscape,
+  validateCluster,
+  formatValidationIssues,
+  validationRule,
+  LANDSCAPE_BUILDING_RANGES,
+  CLUSTER_BUILDING_RANGES,
+  LANDSCAPE_DISTRICT_COUNT,
+  LANDSCAPE_ROAD_COUNT,
+  CLUSTER_ROAD_COUNT,
+  LANDSCAPE_AVENUE_COUNT,
+  ROAD_POINT_COUNT,
+  ROAD_WIDTH_RANGES,
+  type BuildingRanges,
+  type ValidationResult,
+} from './citySchemas';
+import { SHAPE_PROMPT_GUIDE } from './buildingShapes';
+import { themeBuildingCount, themeBuildingRanges, type CityTheme } from './cityThemes';
+import { ZONE_TYPES } from './districts';
+import { SKYLINE_SIDES, type NeighbourhoodSummary, type OccupiedArea } from './neighbourhood';
+import { repairLandscape, repairCluster, type RepairResult } from './cityRepair';
+import { createLandscapeStreamReader } from './landscapeStream';
+import { hashSeed } from '../utils/seededRandom';
+
+const GEMINI_MODEL = 'gemini-2.5-flash-preview-04-17';
+export const PROMPT_TEMPLATE_VERSION = 8; // Also the version of results served through the city server
+const MAX_CORRECTION_ATTEMPTS = 2; // Re-asks after the first answer fails validation
+
+// responseSchema makes fenced output unlikely, but older models still wrap JSON in ``` now and then.
+export const extractJsonText = (text: string): string => {
+  const jsonStr = text.trim();
+  const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
+  const match = jsonStr.match(fenceRegex);
+  return match && match[2] ? match[2].trim() : jsonStr;
+};
+
+const describeSkyPalettes = (theme: CityTheme): string =>
+  theme.skyPalettes.map(p => `${p.topColor} -> ${p.horizonColor}`).join(', ');
+
+const describeBuildingSizes = ({ height, boxSide, radius }: BuildingRanges): string =>
+  `heights ${height[0]}-${height[1]}, width and depth ${boxSide[0]}-${boxSide[1]}, radius ${radius[0]}-${radius[1]}`;
+
+const describeDistrict = (district: ClusterContext['district']): string => district
+  ? `- District: this cluster lies in ${district.name}, a ${district.zone} district. Keep heights around ${district.heightProfile.min}-${district.heightProfile.max} and build it up to density ${district.density} (0.1 sparse, 1 packed).`
+  : '- District: open ground between districts; mix building types freely.';
+
+// Empty when the context lacks them, so the prompt only grows with what is known
+const describeSky = (sky: ClusterContext['sky']): string => sky
+  ? `\n- Sky: the city's sky fades from ${sky.topColor} overhead to ${sky.horizonColor} at the horizon; keep the cluster in the same style and mood as the rest of the city.`
+  : '';
+
+const describeAreas = (areas: OccupiedArea[]): string =>
+  areas.map(({ x, z, radius, height }) => `(${x}, ${z}, r ${radius}, h ${height})`).join('; ');
+
+// Buildings standing and clusters still to come are told apart, so the model never counts a cluster as a building
+const describeNeighbourhood = (neighbourhood: NeighbourhoodSummary | null): string => {
+  if (!neighbourhood) return '';
+  const { radius, buildingCount, heights, skyline, occupied, neighbourClusters } = neighbourhood;
+  const sides = SKYLINE_SIDES.map(side => `${side.toUpperCase()} ${skyline[side] ?? 'open'}`).join(', ');
+  const lines: string[] = [];
+  if (heights) {
+    lines.push(`- Surroundings: ${buildingCount} buildings already stand within ${radius} of this cluster's origin, heights ${heights.min}-${heights.max} (median ${heights.median}). Median height on each side: ${sides}. Continue this skyline: grade heights towards the neighbours on each side instead of jumping, and match the density around you.`);
+    lines.push(`- Occupied ground, in this cluster's coordinates as (x, z, footprint radius, height): ${describeAreas(occupied)}. Keep every new footprint clear of these circles.`);
+  }
+  if (neighbourClusters.length > 0) {
+    lines.push(`- Neighbouring clusters, not built yet, in this cluster's coordinates as (x, z, area radius, expected height): ${describeAreas(neighbourClusters)}. Each will fill its circle with buildings of about that height; grade heights towards them.`);
+  }
+  return lines.map(line => `\n${line}`).join('');
+};
+
+const buildCorrectionPrompt = (result: ValidationResult<unknown>): string => `
+Your previous response failed validation:
+${result.ok ? '' : formatValidationIssues(result.issues)}
+
+Return the complete corrected JSON. Keep every valid element unchanged and fix only the problems listed above.
+`;
+
+// One call to the model: the conversation so far, and the answer's raw text
+// with what it cost. Kept apart from the provider so recorded answers can stand in for Gemini
+// (see geminiFixtures.ts).
+export interface GeminiRequest {
+  contents: Content[];
+  responseSchema: Schema;
+  seed: number;
+  onText?: (text: string) => void; // Streams the answer: called with each piece as it arrives
+}
+
+export interface GeminiAnswer {
+  text: string;
+  usage: TokenUsage | null; // null when the response carried no usage metadata
+}
+
+export type GeminiTransport = (request: GeminiRequest) => Promise<GeminiAnswer>;
+
+const readUsage = (metadata: GenerateContentResponseUsageMetadata | undefined): TokenUsage | null =>
+  metadata
+    ? { prompt: metadata.promptTokenCount ?? 0, response: metadata.candidatesTokenCount ?? 0, total: metadata.totalTokenCount ?? 0 }
+    : null;
+
+// Once `signal` aborts, the call under way and every later one fail at once.
+export const createGeminiTransport = (apiKey: string, signal?: AbortSignal): GeminiTransport => {
+  const ai = new GoogleGenAI({ apiKey });
+  return async ({ contents, responseSchema, seed, onText }) => {
+    signal?.throwIfAborted();
+    const params = {
+      model: GEMINI_MODEL,
+      contents,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema,
+        seed,
+        thinkingConfig: { thinkingBudget: 0 },
+        abortSignal: signal,
+      },
+    };
+    if (!onText) {
+      const response: GenerateContentResponse = await ai.models.generateContent(params);
+      return { text: response.text ?? '', usage: readUsage(response.usageMetadata) };
+    }
+    let text = '';
+    let usage: TokenUsage | null = null;
+    for await (const chunk of await ai.models.generateContentStream(params)) {
+      signal?.throwIfAborted();
+      const piece = chunk.text ?? '';
+      text += piece;
+      if (piece) onText(piece);
+      usage = readUsage(chunk.usageMetadata) ?? usage; // The last chunk has the totals
+    }
+    return { text, usage };
+  };
+};
+
+export const createGeminiProvider = (transport: GeminiTransport, hooks: CityGenerationHooks = {}): CityGenerationProvider => {
+  // Sends the prompt with a response schema, repairs the answer and validates it
+  // against the same schema. Answers that are still invalid are re-asked in the
+  // same conversation with the exact validation errors; the last result is
+  // returned either way. With `readStream`, each answer is streamed into a
+  // fresh reader from it. Every answer is reported to onModelAttempts, also
+  // when the transport fails part way.
+  const requestValidatedJson = async <T,>(
+    subject: { kind: GenerationKind; key: string },
+    prompt: string,
+    responseSchema: Schema,
+    seed: string,
+    repair: (data: unknown) => RepairResult<unknown>,
+    validate: (data: unknown) => ValidationResult<T>,
+    readStream?: () => (text: string) => void,
+  ): Promise<ValidationResult<T>> => {
+    const contents: Content[] = [{ role: 'user', parts: [{ text: prompt }] }];
+    const attempts: ModelAttempt[] = [];
+    let result: ValidationResult<T> = { ok: false, issues: [] };
+
+    try {
+      for (let attempt = 0; attempt <= MAX_CORRECTION_ATTEMPTS; attempt++) {
+        const startedAt = performance.now();
+        const answer = await transport({ contents, responseSchema, seed: hashSeed(seed), onText: readStream?.() });
+        const latencyMs = Math.round(performance.now() - startedAt);
+        let repaired: RepairResult<unknown> | null = null;
+        try {
+          repaired = repair(JSON.parse(extractJsonText(answer.text)));
+          result = validate(repaired.data);
+        } catch (e) {
+          result = { ok: false, issues: [{ path: '', message: `response is not valid JSON (${e instanceof Error ? e.message : String(e)})` }] };
+        }
+        if (result.ok) {
+          attempts.push({ latencyMs, tokens: answer.usage, outcome: 'accepted', failedRules: [] });
+          if (repaired && repaired.report.fixes.length > 0) hooks.onRepairReport?.(repaired.report);
+          return result;
+        }
+        attempts.push({
+          latencyMs,
+          tokens: answer.usage,
+          outcome: repaired ? 'invalid' : 'unparseable',
+          failedRules: result.issues.map(validationRule),
+        });
+
+        console.warn(`Gemini response failed validation (attempt ${attempt + 1}/${MAX_CORRECTION_ATTEMPTS + 1}):\n${formatValidationIssues(result.issues)}`);
+        contents.push(
+          { role: 'model', parts: [{ text: answer.text }] },
+          { role: 'user', parts: [{ text: buildCorrectionPrompt(result) }] },
+        );
+      }
+      return result;
+    } finally {
+      hooks.onModelAttempts?.(subject.kind, subject.key, attempts);
+    }
+  };
+
+  const generateLandscape = async (seed: string, theme: CityTheme, onProgress?: LandscapeProgressHandler): Promise<LandscapeData> => {
+    const [minBuildings, maxBuildings] = themeBuildingCount(theme, 'landscape');
+    const prompt = `
+Generate a 3D city environment. Theme: ${theme.prompt}.
+All elements are rendered as glowing Commodore 64 green wireframes.
+The camera view starts high above, looking down at about a 30-degree angle with a wide-angle lens effect.
+The scene features dynamically appearing/recycled buildings.
+
+Details:
+- Sky: a dark top colour fading into a vibrant horizon colour that suits the theme, in the spirit of (top -> horizon): ${describeSkyPalettes(theme)}.
+- Building Style: Generate ${minBuildings}-${maxBuildings} buildings that fit the theme, with a wide variety of dimensions within ${describeBuildingSizes(themeBuildingRanges(LANDSCAPE_BUILDING_RANGES, theme))}. Mostly 'box' and 'cylinder', with landmark shapes mixed in.
+- Shapes (required dimensions besides height in parentheses):
+${SHAPE_PROMPT_GUIDE}
+- Every building stands on the ground (position.y = 0).
+- Districts: Zone the city first into ${LANDSCAPE_DISTRICT_COUNT.join('-')} non-overlapping rectangular districts that together cover it, each with a short evocative name, a zone (${ZONE_TYPES.map(z => `'${z}'`).join(', ')}), a height profile and a density. Downtown is tall and packed, residential low, industrial mid-height with broad footprints, port low and sparse.
+- Every building's 'districtId' names the district it stands in, and its height follows that district's height profile.
+- Roads: Lay out ${LANDSCAPE_ROAD_COUNT.join('-')} roads first as centre-line polylines of ${ROAD_POINT_COUNT.join('-')} points. ${LANDSCAPE_AVENUE_COUNT.join('-')} 'avenue' roads (width ${ROAD_WIDTH_RANGES.avenue.join('-')}) run the length of the city along Z; 'street' roads (width ${ROAD_WIDTH_RANGES.street.join('-')}) cross between them along X.
+- Keep every building's footprint off the roadway, leaving a small gap to the road edge.
+- Spacing: Use 'position.x' and 'position.z' along with 'dimensions' so buildings do not excessively clip into each other, while maintaining the overall density.
+- City seed (ignore this line, do not include in output): ${seed}
+`;
+
+    const readStream = onProgress && (() => createLandscapeStreamReader(onProgress));
+    const result = await requestValidatedJson({ kind: 'landscape', key: seed }, prompt, LANDSCAPE_SCHEMA, seed, repairLandscape, validateLandscape, readStream);
+    if (!result.ok) {
+      throw new Error(`Landscape data failed validation after ${MAX_CORRECTION_ATTEMPTS + 1} attempts:\n${formatValidationIssues(result.issues, 5)}`);
+    }
+    return result.value;
+  };
+
+  const generateBuildingCluster = async (clusterIdPrefix: string, seed: string, { theme, district, sky, neighbourhood }: ClusterContext): Promise<ClusterData | null> => {
+    try {
+      const [minBuildings, maxBuildings] = themeBuildingCount(theme, 'cluster');
+      const prompt = `
+Generate a small cluster of ${minBuildings}-${maxBuildings} 3D city buildings. Theme: ${theme.prompt}.
+All buildings are rendered as glowing Commodore 64 green wireframes.
+Positions are relative to an implicit (0,0,0) origin at the center of this cluster. Their actual world positions will be offset later, so do not use large world coordinates.
+
+Details for this cluster:
+- Sizes: ${describeBuildingSizes(themeBuildingRanges(CLUSTER_BUILDING_RANGES, theme))}.
+${describeDistrict(district)}${describeSky(sky)}${describeNeighbourhood(neighbourhood)}
+- Shapes (required dimensions besides height in parentheses):
+${SHAPE_PROMPT_GUIDE}
+- 'position.y' must be 0.
+- Roads: ${CLUSTER_ROAD_COUNT.join('-')} roads ('avenue' width ${ROAD_WIDTH_RANGES.avenue.join('-')} or 'street' width ${ROAD_WIDTH_RANGES.street.join('-')}) that cross the whole cluster area from edge to edge (coordinates up to +/-60), so they join the streets of neighbouring clusters. Keep buildings off the roadway.
+- Intra-Cluster Spacing: Ensure buildings within this cluster are reasonably spaced out from each other.
+- City seed (ignore this line, do not include in output): ${seed}
+`;
+
+      const result = await requestValidatedJson(
+        { kind: 'cluster', key: clusterIdPrefix },
+        prompt,
+        CLUSTER_SCHEMA,
+        seed,
+        data => repairCluster(data, `cluster ${clusterIdPrefix}`),
+        validateCluster,
+      );
+      if (!result.ok) {
+        console.error(`Cluster ${clusterIdPrefix} failed validation after ${MAX_CORRECTION_ATTEMPTS + 1} attempts.`);
+        return null;
+      }
+      return {
+        roads: result.value.roads.map(r => ({ ...r, id: `${clusterIdPrefix}${r.id}` })),
+        buildings: result.value.buildings.map(b => ({
+          ...b,
+          id: `${clusterIdPrefix}${b.id}`,
+          ...(district && { districtId: district.id }),
+        })),
+      };
+    } catch (err) {
+      console.error("Error generating building cluster:", err);
+      return null;
+    }
+  };
+
+  return {
+    id: 'gemini',
+    label: 'GEMINI URBAN CORE',
+    templateVersion: PROMPT_TEMPLATE_VERSION,
+    generateLandscape,
+    generateBuildingCluster,
+  };
+};
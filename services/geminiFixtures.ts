@@ -0,0 +1,109 @@
+import type { CityGenerationProvider, CityGenerationHooks, TokenUsage } from './cityGenerationProvider';
+import { createGeminiProvider, PROMPT_TEMPLATE_VERSION, type GeminiTransport } from './geminiCityProvider';
+import type { LandscapeRequest, ClusterRequest } from './cityProxyProtocol';
+
+// Recorded Gemini conversations. The city server saves one per generation when
+// recording (CITY_PROXY_RECORD_DIR); the replay provider plays them back through
+// the real provider, so parsing, repair, validation and correction prompts run
+// exactly as against the model, without a network. Fixtures can also be
+// written by hand to capture answers the model gives only rarely.
+
+export const FIXTURE_FORMAT = 'future-cities-gemini-fixture';
+export const FIXTURE_VERSION = 1;
+
+export interface GeminiExchange {
+  prompt: string; // The last user turn: the generation prompt, then each correction prompt
+  response: string; // The model's raw answer
+  usage?: TokenUsage | null; // Tokens the answer cost; absent from hand-written fixtures
+}
+
+// What was asked for.
+export type GeminiFixtureSubject =
+  | { kind: 'landscape'; request: LandscapeRequest }
+  | { kind: 'cluster'; request: ClusterRequest };
+
+export type GeminiFixture = {
+  format: typeof FIXTURE_FORMAT;
+  version: number;
+  name: string; // Also the file name, without .json
+  description: string; // What the conversation shows, e.g. "fenced JSON, accepted first time"
+  templateVersion: number; // PROMPT_TEMPLATE_VERSION when recorded
+  recordedAt: string; // ISO timestamp
+  exchanges: GeminiExchange[]; // In conversation order
+} & GeminiFixtureSubject;
+
+// Passes requests on to `inner` and appends each prompt and answer to `exchanges`.
+export const createRecordingTransport = (inner: GeminiTransport, exchanges: GeminiExchange[]): GeminiTransport =>
+  async request => {
+    const lastTurn = request.contents[request.contents.length - 1];
+    const prompt = lastTurn?.parts?.map(part => part.text ?? '').join('') ?? '';
+    const answer = await inner(request);
+    exchanges.push({ prompt, response: answer.text, ...(answer.usage && { usage: answer.usage }) });
+    return answer;
+  };
+
+const REPLAY_STREAM_PIECE_LENGTH = 64; // Characters per streamed piece, so objects split across pieces
+
+// Answers with the recorded responses in order, streamed in small pieces when
+// asked to. A conversation that runs longer than the recording has gone
+// differently, and fails like a network error.
+export const createReplayTransport = (fixture: GeminiFixture): GeminiTransport => {
+  let next = 0;
+  return async ({ onText }) => {
+    const exchange = fixture.exchanges[next];
+    next++;
+    if (!exchange) throw new Error(`Fixture '${fixture.name}' has no answer for request ${next}`);
+    for (let start = 0; onText && start < exchange.response.length; start += REPLAY_STREAM_PIECE_LENGTH) {
+      onText(exchange.response.slice(start, start + REPLAY_STREAM_PIECE_LENGTH));
+    }
+    return { text: exchange.response, usage: exchange.usage ?? null };
+  };
+};
+
+// A Gemini provider that plays back the fixture recorded for each seed (and,
+// for clusters, id prefix). A request with no fixture fails like a network error.
+export const createReplayProvider = (fixtures: GeminiFixture[], hooks: CityGenerationHooks = {}): CityGenerationProvider => {
+  const transportFor = (fixture: GeminiFixture | undefined, what: string): GeminiTransport =>
+    fixture
+      ? createReplayTransport(fixture)
+      : async () => { throw new Error(`No fixture recorded for ${what}`); };
+
+  return {
+    id: 'gemini',
+    label: 'GEMINI REPLAY',
+    templateVersion: PROMPT_TEMPLATE_VERSION,
+    generateLandscape: (seed, theme, onProgress) => {
+      const fixture = fixtures.find(f => f.kind === 'landscape' && f.request.seed === seed);
+      return createGeminiProvider(transportFor(fixture, `landscape ${seed}`), hooks).generateLandscape(seed, theme, onProgress);
+    },
+    generateBuildingCluster: (clusterIdPrefix, seed, context) => {
+      const fixture = fixtures.find(f => f.kind === 'cluster' && f.request.seed === seed && f.request.clusterIdPrefix === clusterIdPrefix);
+      return createGeminiProvider(transportFor(fixture, `cluster ${clusterIdPrefix} ${seed}`), hooks)
+        .generateBuildingCluster(clusterIdPrefix, seed, context);
+    },
+  };
+};
+
+const isExchange = (value: unknown): value is GeminiExchange => {
+  const exchange = value as GeminiExchange;
+  return typeof exchange === 'object' && exchange !== null && typeof exchange.prompt === 'string' && typeof exchange.response === 'string';
+};
+
+// Throws an Error with a readable message when the text is not a fixture this version can replay.
+export const parseGeminiFixture = (text: string): GeminiFixture => {
+  let parsed: Partial<GeminiFixture>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Fixture is not valid JSON');
+  }
+  if (typeof parsed !== 'object' || parsed === null || parsed.format !== FIXTURE_FORMAT) throw new Error('Not a Gemini fixture');
+  if (parsed.version !== FIXTURE_VERSION) throw new Error(`Fixture version ${parsed.version} is not supported (${FIXTURE_VERSION})`);
+  if (typeof parsed.name !== 'string' || !parsed.name) throw new Error('Fixture name is missing');
+  if (parsed.kind !== 'landscape' && parsed.kind !== 'cluster') throw new Error(`Fixture '${parsed.name}' has an unknown kind`);
+  if (typeof parsed.request?.seed !== 'string') throw new Error(`Fixture '${parsed.name}' is missing its request`);
+  if (!Array.isArray(parsed.exchanges) || !parsed.exchanges.every(isExchange)) {
+    throw new Error(`Fixture '${parsed.name}' has malformed exchanges`);
+  }
+  return parsed as GeminiFixture;
+};
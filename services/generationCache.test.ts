@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { withGenerationCache, type GenerationCache } from './generationCache';
+import { createProceduralProvider } from './proceduralCityProvider';
+import { summariseNeighbourhood } from './neighbourhood';
+import { DEFAULT_THEME } from './cityThemes';
+import type { CityGenerationProvider } from './cityGenerationProvider';
+
+// IndexedDB is not available here; a map stands in for the store.
+const createMapCache = (): GenerationCache => {
+  const entries = new Map<string, unknown>();
+  return {
+    get: async <T,>(key: string) => (entries.get(key) as T | undefined) ?? null,
+    set: async (key, value) => { entries.set(key, value); },
+    clear: async () => entries.clear(),
+    stats: async () => ({ entries: entries.size, bytes: 0 }),
+  };
+};
+
+describe('withGenerationCache', () => {
+  it('does not replay a cluster into another neighbourhood', async () => {
+    const procedural = createProceduralProvider();
+    let generated = 0;
+    const counting: CityGenerationProvider = {
+      ...procedural,
+      generateBuildingCluster: (...args) => {
+        generated++;
+        return procedural.generateBuildingCluster(...args);
+      },
+    };
+    const provider = withGenerationCache(counting, createMapCache(), () => true);
+    const tower = { id: 't', type: 'building', shape: 'box', position: { x: 80, y: 0, z: 0 }, dimensions: { width: 10, height: 90, depth: 10 } } as const;
+    const context = (height: number) => ({
+      theme: DEFAULT_THEME,
+      district: null,
+      sky: null,
+      neighbourhood: summariseNeighbourhood([{ ...tower, dimensions: { ...tower.dimensions, height } }], { x: 0, z: 0 }),
+    });
+
+    await provider.generateBuildingCluster('ch1_0_', 'S:ch1_0_', context(90));
+    await provider.generateBuildingCluster('ch1_0_', 'S:ch1_0_', context(90));
+    expect(generated).toBe(1);
+    await provider.generateBuildingCluster('ch1_0_', 'S:ch1_0_', context(30));
+    expect(generated).toBe(2);
+  });
+});
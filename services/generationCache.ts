@@ -0,0 +1,210 @@
+import type { LandscapeData, ClusterData } from '../App';
+import type { CityGenerationProvider, ClusterContext } from './cityGenerationProvider';
+import { themeFingerprint, type CityTheme } from './cityThemes';
+import { hashSeed } from '../utils/seededRandom';
+
+// Persistent cache for validated generation results, stored in IndexedDB and
+// evicted least-recently-used first once it exceeds its entry or size budget.
+// The cache is best-effort: any storage error is logged and treated as a miss.
+
+export interface GenerationCacheOptions {
+  maxEntries: number;
+  maxBytes: number; // Approximate: measured as JSON string length
+}
+
+export const DEFAULT_GENERATION_CACHE_OPTIONS: GenerationCacheOptions = {
+  maxEntries: 400,
+  maxBytes: 16 * 1024 * 1024,
+};
+
+export interface GenerationCacheStats {
+  entries: number;
+  bytes: number;
+}
+
+export interface GenerationCache {
+  get: <T>(key: string) => Promise<T | null>;
+  set: (key: string, value: unknown) => Promise<void>;
+  clear: () => Promise<void>;
+  stats: () => Promise<GenerationCacheStats>;
+}
+
+interface CacheRecord {
+  key: string;
+  value: unknown;
+  bytes: number;
+  lastUsed: number;
+}
+
+const DB_NAME = 'future-cities';
+const DB_VERSION = 1;
+const STORE_NAME = 'generations';
+
+const promisifyRequest = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const NO_OP_CACHE: GenerationCache = {
+  get: async () => null,
+  set: async () => {},
+  clear: async () => {},
+  stats: async () => ({ entries: 0, bytes: 0 }),
+};
+
+export const createIndexedDbGenerationCache = (
+  options: GenerationCacheOptions = DEFAULT_GENERATION_CACHE_OPTIONS,
+): GenerationCache => {
+  if (typeof indexedDB === 'undefined') {
+    console.warn("IndexedDB is unavailable; generation cache disabled.");
+    return NO_OP_CACHE;
+  }
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => (dbPromise ??= openDatabase());
+
+  const readAll = async (): Promise<CacheRecord[]> => {
+    const db = await getDb();
+    return promisifyRequest(db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll() as IDBRequest<CacheRecord[]>);
+  };
+
+  // Deletes the least recently used records until both budgets are met.
+  const evict = async () => {
+    const records = await readAll();
+    let entries = records.length;
+    let bytes = records.reduce((sum, record) => sum + record.bytes, 0);
+    if (entries <= options.maxEntries && bytes <= options.maxBytes) return;
+
+    const db = await getDb();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    for (const record of records.sort((a, b) => a.lastUsed - b.lastUsed)) {
+      if (entries <= options.maxEntries && bytes <= options.maxBytes) break;
+      store.delete(record.key);
+      entries--;
+      bytes -= record.bytes;
+    }
+    await transactionDone(transaction);
+  };
+
+  const get = async <T,>(key: string): Promise<T | null> => {
+    try {
+      const db = await getDb();
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      const record = await promisifyRequest(store.get(key) as IDBRequest<CacheRecord | undefined>);
+      if (!record) return null;
+      store.put({ ...record, lastUsed: Date.now() });
+      await transactionDone(transaction);
+      return record.value as T;
+    } catch (err) {
+      console.warn(`Generation cache read failed for ${key}:`, err);
+      return null;
+    }
+  };
+
+  const set = async (key: string, value: unknown) => {
+    try {
+      const bytes = JSON.stringify(value).length;
+      if (bytes > options.maxBytes) return;
+      const db = await getDb();
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      transaction.objectStore(STORE_NAME).put({ key, value, bytes, lastUsed: Date.now() } satisfies CacheRecord);
+      await transactionDone(transaction);
+      await evict();
+    } catch (err) {
+      console.warn(`Generation cache write failed for ${key}:`, err);
+    }
+  };
+
+  const clear = async () => {
+    try {
+      const db = await getDb();
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      transaction.objectStore(STORE_NAME).clear();
+      await transactionDone(transaction);
+    } catch (err) {
+      console.warn("Generation cache clear failed:", err);
+    }
+  };
+
+  const stats = async (): Promise<GenerationCacheStats> => {
+    try {
+      const records = await readAll();
+      return { entries: records.length, bytes: records.reduce((sum, record) => sum + record.bytes, 0) };
+    } catch (err) {
+      console.warn("Generation cache stats failed:", err);
+      return { entries: 0, bytes: 0 };
+    }
+  };
+
+  return { get, set, clear, stats };
+};
+
+// Keys include the provider and its prompt template version, so editing a
+// prompt or schema never replays results generated for the old contract, and
+// what the result was generated for (theme, district, sky, neighbourhood), so
+// one seed can be cached once per theme.
+const cacheKey = (provider: CityGenerationProvider, kind: 'landscape' | 'cluster', seed: string, variant: string): string =>
+  `${provider.id}:v${provider.templateVersion}:${kind}:${variant}:${seed}`;
+
+const landscapeVariant = (theme: CityTheme): string => themeFingerprint(theme);
+
+// The neighbourhood is hashed in as well: a landscape can be evicted, bypassed
+// or come from an uncached provider while its clusters stay cached, and a
+// cluster fitted around one landscape must not be replayed into another.
+const clusterVariant = ({ theme, district, sky, neighbourhood }: ClusterContext): string =>
+  district || sky || neighbourhood
+    ? `${themeFingerprint(theme)}.${hashSeed(JSON.stringify([district, sky, neighbourhood])).toString(36)}`
+    : themeFingerprint(theme);
+
+// Serves landscapes and clusters from the cache when `isEnabled()` is true and
+// stores every fresh result. Failed generations are never cached, and neither
+// is anything the provider marks as not cacheable.
+export const withGenerationCache = (
+  provider: CityGenerationProvider,
+  cache: GenerationCache,
+  isEnabled: () => boolean,
+): CityGenerationProvider => ({
+  ...provider,
+  get label() {
+    return provider.label;
+  },
+  generateLandscape: async (seed, theme, onProgress) => {
+    const key = cacheKey(provider, 'landscape', seed, landscapeVariant(theme));
+    if (isEnabled()) {
+      const cached = await cache.get<LandscapeData>(key);
+      if (cached) return cached;
+    }
+    const landscape = await provider.generateLandscape(seed, theme, onProgress);
+    if (isEnabled() && provider.isCacheable?.() !== false) await cache.set(key, landscape);
+    return landscape;
+  },
+  generateBuildingCluster: async (clusterIdPrefix, seed, context) => {
+    const key = cacheKey(provider, 'cluster', seed, clusterVariant(context));
+    if (isEnabled()) {
+      const cached = await cache.get<ClusterData>(key);
+      if (cached) return cached;
+    }
+    const cluster = await provider.generateBuildingCluster(clusterIdPrefix, seed, context);
+    if (cluster && isEnabled() && provider.isCacheable?.() !== false) await cache.set(key, cluster);
+    return cluster;
+  },
+});
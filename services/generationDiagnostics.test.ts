@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createGenerationDiagnostics, summarizeGenerationDiagnostics, withGenerationDiagnostics } from './generationDiagnostics';
+import { createReplayProvider } from './geminiFixtures';
+import { loadGeminiFixture } from '../fixtures/loadGeminiFixtures';
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  return () => vi.restoreAllMocks();
+});
+
+// A replay provider for every cluster fixture, logged into a fresh diagnostics log.
+const replayClusters = () => {
+  const fixtures = ['cluster-valid', 'cluster-too-many-buildings', 'cluster-malformed'].map(loadGeminiFixture);
+  const diagnostics = createGenerationDiagnostics();
+  const provider = withGenerationDiagnostics(
+    createReplayProvider(fixtures, { onModelAttempts: diagnostics.recordAttempts }),
+    diagnostics,
+  );
+  const generate = async (name: string) => {
+    const fixture = fixtures.find(f => f.name === name);
+    if (fixture?.kind !== 'cluster') throw new Error(`${name} is not a cluster fixture`);
+    const { clusterIdPrefix, seed, context } = fixture.request;
+    return provider.generateBuildingCluster(clusterIdPrefix, seed, context);
+  };
+  return { diagnostics, generate };
+};
+
+describe('generation diagnostics', () => {
+  it('logs each request with the model answers behind it', async () => {
+    const { diagnostics, generate } = replayClusters();
+    await generate('cluster-valid');
+    await generate('cluster-malformed');
+
+    const [valid, malformed] = diagnostics.records();
+    expect(valid).toMatchObject({ kind: 'cluster', key: 'c1_', outcome: 'accepted', error: null });
+    expect(valid.latencyMs).toBeGreaterThanOrEqual(0);
+    expect(valid.attempts.map(attempt => attempt.outcome)).toEqual(['accepted']);
+    expect(malformed).toMatchObject({ key: 'c4_', outcome: 'empty' });
+    expect(malformed.attempts).toHaveLength(3);
+  });
+
+  it('logs failed landscapes with their error', async () => {
+    const fixture = loadGeminiFixture('landscape-too-few-buildings');
+    if (fixture.kind !== 'landscape') throw new Error('not a landscape fixture');
+    const diagnostics = createGenerationDiagnostics();
+    const provider = withGenerationDiagnostics(createReplayProvider([fixture], { onModelAttempts: diagnostics.recordAttempts }), diagnostics);
+
+    await expect(provider.generateLandscape(fixture.request.seed, fixture.request.theme)).rejects.toThrow();
+    const [record] = diagnostics.records();
+    expect(record.outcome).toBe('failed');
+    expect(record.error).toContain('failed validation after 3 attempts');
+    expect(record.attempts.map(attempt => attempt.outcome)).toEqual(['invalid', 'invalid', 'invalid']);
+  });
+
+  it('notifies subscribers and keeps only the newest records', async () => {
+    const diagnostics = createGenerationDiagnostics(2);
+    const listener = vi.fn();
+    const unsubscribe = diagnostics.subscribe(listener);
+    [1, 2, 3].forEach(n => diagnostics.finish(diagnostics.begin('cluster', `c${n}_`, 'SEED'), 'accepted'));
+    expect(diagnostics.records().map(record => record.key)).toEqual(['c2_', 'c3_']);
+    expect(listener).toHaveBeenCalledTimes(6);
+    unsubscribe();
+    diagnostics.clear();
+    expect(listener).toHaveBeenCalledTimes(6);
+    expect(diagnostics.records()).toEqual([]);
+  });
+});
+
+describe('summarizeGenerationDiagnostics', () => {
+  it('counts cluster outcomes, answers and broken rules', async () => {
+    const { diagnostics, generate } = replayClusters();
+    await generate('cluster-valid');
+    await generate('cluster-too-many-buildings');
+    await generate('cluster-malformed');
+    diagnostics.begin('cluster', 'c5_', 'SEED'); // Still pending
+
+    const summary = summarizeGenerationDiagnostics(diagnostics.records());
+    expect(summary.clusters).toEqual({ requested: 4, accepted: 2, empty: 1, failed: 0, successRatio: 2 / 3 });
+    expect(summary.answers).toEqual({ total: 5, accepted: 2, unparseable: 2, invalid: 1 });
+    expect(summary.tokens.unreported).toBe(5);
+    expect(summary.ruleFailures[0]).toEqual({ rule: '(root): response is not valid JSON', count: 2 });
+    expect(summary.ruleFailures.map(failure => failure.rule)).toContain('roads: expected an array');
+    expect(summary.latency.cluster?.count).toBe(3);
+    expect(summary.latency.landscape).toBeNull();
+  });
+
+  it('adds up reported tokens and counts a rule once per answer', () => {
+    const attempt = {
+      latencyMs: 100,
+      tokens: { prompt: 900, response: 300, total: 1200 },
+      outcome: 'invalid' as const,
+      failedRules: ['buildings[].position.y: must be <= 0', 'buildings[].position.y: must be <= 0'],
+    };
+    const summary = summarizeGenerationDiagnostics([{
+      id: 1, kind: 'landscape', key: 'SEED', seed: 'SEED', startedAt: '', latencyMs: 250, outcome: 'failed', error: 'x',
+      attempts: [attempt, { ...attempt, latencyMs: 300 }],
+    }]);
+    expect(summary.tokens).toEqual({ prompt: 1800, response: 600, total: 2400, unreported: 0 });
+    expect(summary.ruleFailures).toEqual([{ rule: 'buildings[].position.y: must be <= 0', count: 2 }]);
+    expect(summary.modelLatency).toEqual({ count: 2, meanMs: 200, p50Ms: 300, p95Ms: 300 });
+    expect(summary.landscapes).toEqual({ requested: 1, accepted: 0, failed: 1 });
+  });
+});
@@ -0,0 +1,215 @@
+import type { CityGenerationProvider, GenerationKind, ModelAttempt, TokenUsage } from './cityGenerationProvider';
+
+// A session log of generation requests for tuning prompts: how long each took,
+// what the model's answers cost in tokens, and which validation rules rejected
+// answers. The provider wrapper times each request as the app saw it; the
+// provider's onModelAttempts hook fills in the answers behind it. Cache hits
+// never reach the wrapped provider and are not logged.
+
+export const DIAGNOSTICS_FORMAT = 'future-cities-diagnostics';
+export const DIAGNOSTICS_VERSION = 1;
+
+const DEFAULT_MAX_RECORDS = 500;
+
+export interface GenerationRecord {
+  id: number;
+  kind: GenerationKind;
+  key: string; // The seed of a landscape, the id prefix of a cluster
+  seed: string;
+  startedAt: string; // ISO timestamp
+  latencyMs: number | null; // Round trip as the app saw it; null while pending
+  // 'empty': the provider answered without a usable cluster
+  outcome: 'pending' | 'accepted' | 'empty' | 'failed';
+  error: string | null; // Why a landscape failed
+  attempts: ModelAttempt[]; // Empty for providers without a model, such as the stub server
+}
+
+export interface LatencySummary {
+  count: number;
+  meanMs: number;
+  p50Ms: number;
+  p95Ms: number;
+}
+
+export interface RuleFailureCount {
+  rule: string;
+  count: number; // Rejected answers that broke the rule
+}
+
+export interface GenerationDiagnosticsSummary {
+  landscapes: { requested: number; accepted: number; failed: number };
+  clusters: { requested: number; accepted: number; empty: number; failed: number; successRatio: number | null };
+  latency: Record<GenerationKind, LatencySummary | null>;
+  modelLatency: LatencySummary | null; // Per answer, as the provider measured it
+  answers: { total: number; accepted: number; unparseable: number; invalid: number };
+  tokens: TokenUsage & { unreported: number }; // `unreported`: answers that carried no usage
+  ruleFailures: RuleFailureCount[]; // Most frequent first
+}
+
+export interface GenerationDiagnostics {
+  records: () => GenerationRecord[]; // Oldest first; a new array after every change
+  subscribe: (listener: () => void) => () => void;
+  begin: (kind: GenerationKind, key: string, seed: string) => number;
+  finish: (id: number, outcome: Exclude<GenerationRecord['outcome'], 'pending'>, error?: string) => void;
+  // For the provider's onModelAttempts hook; attached to the pending request they belong to
+  recordAttempts: (kind: GenerationKind, key: string, attempts: ModelAttempt[]) => void;
+  clear: () => void;
+}
+
+export const createGenerationDiagnostics = (maxRecords: number = DEFAULT_MAX_RECORDS): GenerationDiagnostics => {
+  let records: GenerationRecord[] = [];
+  const startTimes = new Map<number, number>();
+  const listeners = new Set<() => void>();
+  let nextId = 1;
+
+  const update = (next: GenerationRecord[]) => {
+    records = next.slice(-maxRecords);
+    listeners.forEach(listener => listener());
+  };
+
+  const patch = (id: number, changes: Partial<GenerationRecord>) =>
+    update(records.map(record => (record.id === id ? { ...record, ...changes } : record)));
+
+  return {
+    records: () => records,
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    begin: (kind, key, seed) => {
+      const id = nextId++;
+      startTimes.set(id, performance.now());
+      update([...records, {
+        id, kind, key, seed,
+        startedAt: new Date().toISOString(),
+        latencyMs: null,
+        outcome: 'pending',
+        error: null,
+        attempts: [],
+      }]);
+      return id;
+    },
+    finish: (id, outcome, error) => {
+      const startedAt = startTimes.get(id);
+      startTimes.delete(id);
+      if (startedAt === undefined) return;
+      patch(id, { outcome, error: error ?? null, latencyMs: Math.round(performance.now() - startedAt) });
+    },
+    recordAttempts: (kind, key, attempts) => {
+      const pending = [...records].reverse().find(record => record.outcome === 'pending' && record.kind === kind && record.key === key);
+      if (pending) patch(pending.id, { attempts: [...pending.attempts, ...attempts] });
+    },
+    clear: () => {
+      startTimes.clear();
+      update([]);
+    },
+  };
+};
+
+// Logs every landscape and cluster request that reaches `provider`.
+export const withGenerationDiagnostics = (
+  provider: CityGenerationProvider,
+  diagnostics: GenerationDiagnostics,
+): CityGenerationProvider => ({
+  ...provider,
+  get label() {
+    return provider.label; // Read each time: the proxy's label changes when it falls back offline
+  },
+  generateLandscape: async (seed, theme, onProgress) => {
+    const id = diagnostics.begin('landscape', seed, seed);
+    try {
+      const landscape = await provider.generateLandscape(seed, theme, onProgress);
+      diagnostics.finish(id, 'accepted');
+      return landscape;
+    } catch (err) {
+      diagnostics.finish(id, 'failed', err instanceof Error ? err.message : String(err));
+      throw err;
+    }
+  },
+  generateBuildingCluster: async (clusterIdPrefix, seed, context) => {
+    const id = diagnostics.begin('cluster', clusterIdPrefix, seed);
+    try {
+      const cluster = await provider.generateBuildingCluster(clusterIdPrefix, seed, context);
+      diagnostics.finish(id, cluster ? 'accepted' : 'empty');
+      return cluster;
+    } catch (err) {
+      diagnostics.finish(id, 'failed', err instanceof Error ? err.message : String(err));
+      throw err;
+    }
+  },
+});
+
+const summarizeLatency = (values: number[]): LatencySummary | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+  return {
+    count: sorted.length,
+    meanMs: Math.round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+    p50Ms: percentile(0.5),
+    p95Ms: percentile(0.95),
+  };
+};
+
+// Pending requests count as requested but not towards ratios or latencies.
+export const summarizeGenerationDiagnostics = (records: GenerationRecord[]): GenerationDiagnosticsSummary => {
+  const ofKind = (kind: GenerationKind) => records.filter(record => record.kind === kind);
+  const count = (list: GenerationRecord[], outcome: GenerationRecord['outcome']) => list.filter(record => record.outcome === outcome).length;
+  const latencies = (list: GenerationRecord[]) => list.flatMap(record => (record.latencyMs === null ? [] : [record.latencyMs]));
+
+  const landscapes = ofKind('landscape');
+  const clusters = ofKind('cluster');
+  const clusterAccepted = count(clusters, 'accepted');
+  const clusterSettled = clusters.length - count(clusters, 'pending');
+
+  const attempts = records.flatMap(record => record.attempts);
+  const tokens = { prompt: 0, response: 0, total: 0, unreported: 0 };
+  const ruleCounts = new Map<string, number>();
+  for (const attempt of attempts) {
+    if (attempt.tokens) {
+      tokens.prompt += attempt.tokens.prompt;
+      tokens.response += attempt.tokens.response;
+      tokens.total += attempt.tokens.total;
+    } else {
+      tokens.unreported++;
+    }
+    // A rule broken in several places still counts once per answer
+    new Set(attempt.failedRules).forEach(rule => ruleCounts.set(rule, (ruleCounts.get(rule) ?? 0) + 1));
+  }
+
+  return {
+    landscapes: { requested: landscapes.length, accepted: count(landscapes, 'accepted'), failed: count(landscapes, 'failed') },
+    clusters: {
+      requested: clusters.length,
+      accepted: clusterAccepted,
+      empty: count(clusters, 'empty'),
+      failed: count(clusters, 'failed'),
+      successRatio: clusterSettled > 0 ? clusterAccepted / clusterSettled : null,
+    },
+    latency: { landscape: summarizeLatency(latencies(landscapes)), cluster: summarizeLatency(latencies(clusters)) },
+    modelLatency: summarizeLatency(attempts.map(attempt => attempt.latencyMs)),
+    answers: {
+      total: attempts.length,
+      accepted: attempts.filter(attempt => attempt.outcome === 'accepted').length,
+      unparseable: attempts.filter(attempt => attempt.outcome === 'unparseable').length,
+      invalid: attempts.filter(attempt => attempt.outcome === 'invalid').length,
+    },
+    tokens,
+    ruleFailures: [...ruleCounts]
+      .map(([rule, ruleCount]) => ({ rule, count: ruleCount }))
+      .sort((a, b) => b.count - a.count || a.rule.localeCompare(b.rule)),
+  };
+};
+
+// The log as a JSON document, with its summary and what it was generated with.
+export const serializeGenerationDiagnostics = (
+  records: GenerationRecord[],
+  context: { provider: string; templateVersion: number },
+): string => JSON.stringify({
+  format: DIAGNOSTICS_FORMAT,
+  version: DIAGNOSTICS_VERSION,
+  exportedAt: new Date().toISOString(),
+  ...context,
+  summary: summarizeGenerationDiagnostics(records),
+  records,
+}, null, 2);
@@ -0,0 +1,45 @@
+import type { LandscapeProgress, LandscapeProgressHandler } from './cityGenerationProvider';
+import { validateLandscapeLayout, validateLandscapeBuilding } from './citySchemas';
+import { createJsonStreamParser } from '../utils/jsonStream';
+
+// Progress of a streamed landscape, from the model's text as it arrives to the
+// validated parts the app can show before the whole landscape is ready.
+
+// Validates progress one part at a time and passes on what is valid. Buildings
+// are passed on only after a valid layout, and only when they stand in one of
+// its districts. Takes unknown input, since it also checks what the city server
+// forwards.
+export const createLandscapeProgressFilter = (onProgress: LandscapeProgressHandler): ((progress: unknown) => void) => {
+  let districtIds: Set<string> | null = null;
+  return progress => {
+    const { kind } = (progress ?? {}) as Partial<LandscapeProgress>;
+    if (kind === 'layout') {
+      const result = validateLandscapeLayout((progress as { layout?: unknown }).layout);
+      if (!result.ok) return;
+      districtIds = new Set(result.value.districts.map(district => district.id));
+      onProgress({ kind, layout: result.value });
+    } else if (kind === 'building' && districtIds) {
+      const result = validateLandscapeBuilding((progress as { building?: unknown }).building, districtIds);
+      if (result.ok) onProgress({ kind, building: result.value });
+    }
+  };
+};
+
+// Reads one streamed answer to the landscape prompt: push each piece of text as
+// it arrives. The layout is reported once sky, districts and roads are all
+// complete (the schema orders them before the buildings), then each building.
+export const createLandscapeStreamReader = (onProgress: LandscapeProgressHandler): ((text: string) => void) => {
+  const accept = createLandscapeProgressFilter(onProgress);
+  const layout: Record<string, unknown> = {};
+  const parser = createJsonStreamParser({
+    onProperty: (key, value) => {
+      if (key !== 'sky' && key !== 'districts' && key !== 'roads') return;
+      layout[key] = value;
+      if ('sky' in layout && 'districts' in layout && 'roads' in layout) accept({ kind: 'layout', layout });
+    },
+    onElement: (key, building) => {
+      if (key === 'buildings') accept({ kind: 'building', building });
+    },
+  });
+  return parser.push;
+};
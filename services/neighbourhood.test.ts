@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import type { CityElementData } from '../App';
+import { MAX_OCCUPIED_AREAS, summariseNeighbourhood } from './neighbourhood';
+
+const box = (id: string, x: number, z: number, height: number): CityElementData => ({
+  id,
+  type: 'building',
+  shape: 'box',
+  position: { x, y: 0, z },
+  dimensions: { width: 12, height, depth: 12 },
+});
+
+describe('summariseNeighbourhood', () => {
+  const centre = { x: 1000, z: -500 };
+
+  it('is null on open ground', () => {
+    expect(summariseNeighbourhood([box('far', 2000, -500, 40)], centre)).toBeNull();
+  });
+
+  it('describes heights and the skyline on each side in the cluster\'s coordinates', () => {
+    const summary = summariseNeighbourhood([
+      box('west', 850, -500, 20),
+      box('east-low', 1160, -510, 30),
+      box('east-high', 1170.4, -490, 61),
+      box('south', 1000, -320, 100),
+    ], centre)!;
+    expect(summary.buildingCount).toBe(4);
+    expect(summary.heights).toEqual({ min: 20, median: 46, max: 100 });
+    expect(summary.skyline).toEqual({ '-x': 20, '+x': 46, '-z': null, '+z': 100 });
+    expect(summary.occupied[0]).toEqual({ x: -150, z: 0, radius: 9, height: 20 });
+    expect(summary.occupied).toContainEqual({ x: 170, z: 10, radius: 9, height: 61 });
+  });
+
+  it('lists clusters still to come apart from the buildings it counts', () => {
+    const outline = { x: 1000, z: -275, radius: 75, height: 40 };
+    const summary = summariseNeighbourhood([box('west', 850, -500, 20)], centre, [outline, { ...outline, x: 2000 }])!;
+    expect(summary.buildingCount).toBe(1);
+    expect(summary.heights).toEqual({ min: 20, median: 20, max: 20 });
+    expect(summary.skyline['+z']).toBeNull();
+    expect(summary.occupied).toHaveLength(1);
+    expect(summary.neighbourClusters).toEqual([{ x: 0, z: 225, radius: 75, height: 40 }]);
+
+    const clustersOnly = summariseNeighbourhood([], centre, [outline])!;
+    expect(clustersOnly.buildingCount).toBe(0);
+    expect(clustersOnly.heights).toBeNull();
+  });
+
+  it('lists the nearest occupied ground first, up to its limit', () => {
+    const ring = Array.from({ length: 30 }, (_, i) => box(`b${i}`, 1000 + 5 * i + 20, -500, 40));
+    const summary = summariseNeighbourhood(ring, centre)!;
+    expect(summary.buildingCount).toBe(30);
+    expect(summary.occupied).toHaveLength(MAX_OCCUPIED_AREAS);
+    expect(summary.occupied.map(area => area.x)).toEqual(Array.from({ length: MAX_OCCUPIED_AREAS }, (_, i) => 5 * i + 20));
+  });
+});
@@ -0,0 +1,100 @@
+import type { CityElementData } from '../App';
+import { footprintOf } from './footprintIndex';
+
+// What stands around a cluster's spawn area, summarised compactly enough to
+// travel with every cluster request: the heights around it, the skyline on
+// each side, and the nearest footprints as circles. Positions are in the
+// cluster's own coordinates, so a provider can carry the skyline on and keep
+// new buildings off occupied ground. Clusters next door that are not generated
+// yet are listed apart, as outlines, since they hold no buildings to count.
+
+export const NEIGHBOURHOOD_RADIUS = 240; // Reaches into the clusters of the chunks next door
+export const MAX_OCCUPIED_AREAS = 16;
+export const MAX_NEIGHBOUR_CLUSTERS = 8; // One per chunk next door
+
+export type SkylineSide = '-x' | '+x' | '-z' | '+z';
+export const SKYLINE_SIDES: SkylineSide[] = ['-x', '+x', '-z', '+z'];
+
+export interface OccupiedArea {
+  x: number;
+  z: number;
+  radius: number; // Bounds the footprint
+  height: number;
+}
+
+// A neighbouring cluster in world coordinates: a circle round its spread, as tall as its district's middle height
+export interface ClusterOutline {
+  x: number;
+  z: number;
+  radius: number;
+  height: number;
+}
+
+export interface NeighbourhoodSummary {
+  radius: number; // Buildings reaching within this distance of the centre are counted
+  buildingCount: number;
+  heights: { min: number; median: number; max: number } | null; // null when no building is near
+  skyline: Record<SkylineSide, number | null>; // Median building height on each side of the centre; null where none stands
+  occupied: OccupiedArea[]; // Building footprints, nearest first
+  neighbourClusters: OccupiedArea[]; // Outlines of clusters still to come, nearest first
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const sideOf = (x: number, z: number): SkylineSide =>
+  Math.abs(x) >= Math.abs(z) ? (x < 0 ? '-x' : '+x') : (z < 0 ? '-z' : '+z');
+
+// Places `areas` (world coordinates) around `centre`, keeping those reaching within `radius`, nearest first.
+const areasNear = (areas: OccupiedArea[], centre: { x: number; z: number }, radius: number) => areas
+  .map(area => {
+    const x = area.x - centre.x;
+    const z = area.z - centre.z;
+    return { x, z, distance: Math.hypot(x, z), radius: area.radius, height: area.height };
+  })
+  .filter(area => area.distance - area.radius <= radius)
+  .sort((a, b) => a.distance - b.distance);
+
+// Rounded to whole units, which is all a prompt needs.
+const roundArea = (area: OccupiedArea): OccupiedArea => ({
+  x: Math.round(area.x),
+  z: Math.round(area.z),
+  radius: Math.ceil(area.radius),
+  height: Math.round(area.height),
+});
+
+// Summarises `buildings` and the `outlines` of clusters still to come (world
+// coordinates) around `centre`; null when none are near. Only buildings are
+// counted and make up the heights and skyline.
+export const summariseNeighbourhood = (
+  buildings: CityElementData[],
+  centre: { x: number; z: number },
+  outlines: ClusterOutline[] = [],
+  radius: number = NEIGHBOURHOOD_RADIUS,
+): NeighbourhoodSummary | null => {
+  const nearby = areasNear(buildings.map(building => {
+    const footprint = footprintOf(building);
+    return { x: footprint.x, z: footprint.z, radius: footprint.boundingRadius, height: building.dimensions.height };
+  }), centre, radius);
+  const clusters = areasNear(outlines, centre, radius);
+  if (nearby.length === 0 && clusters.length === 0) return null;
+
+  const heights = nearby.map(area => area.height);
+  const skyline = Object.fromEntries(SKYLINE_SIDES.map(side => {
+    const onSide = nearby.filter(area => sideOf(area.x, area.z) === side).map(area => area.height);
+    return [side, onSide.length > 0 ? Math.round(median(onSide)) : null];
+  })) as NeighbourhoodSummary['skyline'];
+  return {
+    radius,
+    buildingCount: nearby.length,
+    heights: heights.length > 0
+      ? { min: Math.round(Math.min(...heights)), median: Math.round(median(heights)), max: Math.round(Math.max(...heights)) }
+      : null,
+    skyline,
+    occupied: nearby.slice(0, MAX_OCCUPIED_AREAS).map(roundArea),
+    neighbourClusters: clusters.slice(0, MAX_NEIGHBOUR_CLUSTERS).map(roundArea),
+  };
+};
@@ -0,0 +1,144 @@
+import type { CityElementData, RoadData } from '../App';
+import type { BuildingRanges } from './citySchemas';
+import { SHAPE_SPECS, getFootprintRadius } from './buildingShapes';
+import { isOnRoad } from './roadLayout';
+import type { FootprintIndex } from './footprintIndex';
+
+// Settles buildings that collide with what is already in a footprint index.
+// Each colliding building is nudged away from the buildings it hits, then
+// shrunk in place, and dropped only when neither works. Settled buildings are
+// inserted into the index, so later buildings (and later clusters) respect them.
+
+export const OVERLAP_GAP = 1; // Clearance between footprints
+const NUDGE_ATTEMPTS = 4;
+const MAX_NUDGE_DISTANCE = 30; // Further than this is a relocation, not a nudge
+const SHRINK_SCALES = [0.85, 0.7, 0.55];
+// Smallest footprint a shrink may produce when no ranges are given
+const DEFAULT_MIN_SIDE = 5;
+const DEFAULT_MIN_RADIUS = 3;
+
+export type OverlapOutcome =
+  | { outcome: 'clear'; building: CityElementData }
+  | { outcome: 'nudged'; building: CityElementData; collidedWith: string; distance: number }
+  | { outcome: 'shrunk'; building: CityElementData; collidedWith: string; scale: number }
+  | { outcome: 'dropped'; collidedWith: string };
+
+export interface OverlapResolution {
+  placed: CityElementData[];
+  outcomes: OverlapOutcome[]; // One per input building, in input order
+  nudged: number;
+  shrunk: number;
+  dropped: number;
+}
+
+export interface OverlapOptions {
+  ranges?: BuildingRanges; // Bounds for nudged positions and minimum sizes for shrinking
+  roads?: RoadData[]; // Nudges may not push a building onto a road
+  gap?: number;
+}
+
+const round1 = (value: number): number => Math.round(value * 10) / 10;
+
+const withinBounds = (building: CityElementData, ranges?: BuildingRanges): boolean => {
+  if (!ranges) return true;
+  const { x, z } = building.position;
+  return x >= ranges.x[0] && x <= ranges.x[1] && z >= ranges.z[0] && z <= ranges.z[1];
+};
+
+// Moves the building along the sum of the directions away from each building it
+// hits, by the deepest overlap of their bounding circles.
+const tryNudge = (building: CityElementData, index: FootprintIndex, gap: number, ranges?: BuildingRanges, roads: RoadData[] = []) => {
+  let candidate = building;
+  for (let attempt = 0; attempt < NUDGE_ATTEMPTS; attempt++) {
+    const hits = index.findCollisions(candidate, gap);
+    if (hits.length === 0) break;
+    let dirX = 0;
+    let dirZ = 0;
+    let push = 0;
+    for (const hit of hits) {
+      const dx = candidate.position.x - hit.position.x;
+      const dz = candidate.position.z - hit.position.z;
+      const distance = Math.hypot(dx, dz);
+      if (distance > 1e-6) {
+        dirX += dx / distance;
+        dirZ += dz / distance;
+      }
+      push = Math.max(push, getFootprintRadius(candidate) + getFootprintRadius(hit) + gap - distance);
+    }
+    const length = Math.hypot(dirX, dirZ);
+    if (length < 1e-6) {
+      dirX = 1;
+      dirZ = 0;
+    } else {
+      dirX /= length;
+      dirZ /= length;
+    }
+    candidate = {
+      ...candidate,
+      position: {
+        ...candidate.position,
+        x: round1(candidate.position.x + dirX * (push + 0.1)),
+        z: round1(candidate.position.z + dirZ * (push + 0.1)),
+      },
+    };
+  }
+  const distance = Math.hypot(candidate.position.x - building.position.x, candidate.position.z - building.position.z);
+  const settled = distance <= MAX_NUDGE_DISTANCE
+    && withinBounds(candidate, ranges)
+    && !isOnRoad(candidate, roads)
+    && index.findCollisions(candidate, gap).length === 0;
+  return settled ? { building: candidate, distance } : null;
+};
+
+const tryShrink = (building: CityElementData, index: FootprintIndex, gap: number, ranges?: BuildingRanges) => {
+  const minSide = ranges?.boxSide[0] ?? DEFAULT_MIN_SIDE;
+  const minRadius = ranges?.radius[0] ?? DEFAULT_MIN_RADIUS;
+  const { width, depth, radius } = building.dimensions;
+  const isRound = SHAPE_SPECS[building.shape]?.footprint === 'round';
+  for (const scale of SHRINK_SCALES) {
+    const dimensions = isRound
+      ? { ...building.dimensions, radius: round1((radius ?? 0) * scale) }
+      : { ...building.dimensions, width: round1((width ?? 0) * scale), depth: round1((depth ?? 0) * scale) };
+    const tooSmall = isRound
+      ? dimensions.radius! < minRadius
+      : dimensions.width! < minSide || dimensions.depth! < minSide;
+    if (tooSmall) return null;
+    const candidate = { ...building, dimensions };
+    if (index.findCollisions(candidate, gap).length === 0) return { building: candidate, scale };
+  }
+  return null;
+};
+
+export const resolveOverlaps = (buildings: CityElementData[], index: FootprintIndex, options: OverlapOptions = {}): OverlapResolution => {
+  const gap = options.gap ?? OVERLAP_GAP;
+  const resolution: OverlapResolution = { placed: [], outcomes: [], nudged: 0, shrunk: 0, dropped: 0 };
+  const settle = (building: CityElementData, outcome: OverlapOutcome) => {
+    index.insert(building);
+    resolution.placed.push(building);
+    resolution.outcomes.push(outcome);
+  };
+
+  for (const building of buildings) {
+    const hits = index.findCollisions(building, gap);
+    if (hits.length === 0) {
+      settle(building, { outcome: 'clear', building });
+      continue;
+    }
+    const collidedWith = hits[0].id;
+    const nudged = tryNudge(building, index, gap, options.ranges, options.roads);
+    if (nudged) {
+      resolution.nudged++;
+      settle(nudged.building, { outcome: 'nudged', building: nudged.building, collidedWith, distance: nudged.distance });
+      continue;
+    }
+    const shrunk = tryShrink(building, index, gap, options.ranges);
+    if (shrunk) {
+      resolution.shrunk++;
+      settle(shrunk.building, { outcome: 'shrunk', building: shrunk.building, collidedWith, scale: shrunk.scale });
+      continue;
+    }
+    resolution.dropped++;
+    resolution.outcomes.push({ outcome: 'dropped', collidedWith });
+  }
+  return resolution;
+};
@@ -0,0 +1,325 @@
+import type { LandscapeData, CityElementData, ClusterData, RoadData, BuildingShape, DistrictData, ZoneType } from '../App';
+import type { CityGenerationProvider, ClusterContext } from './cityGenerationProvider';
+import {
+  LANDSCAPE_BUILDING_RANGES,
+  CLUSTER_BUILDING_RANGES,
+  ORIENTATION_RANGE,
+  ROAD_WIDTH_RANGES,
+  LANDSCAPE_AVENUE_COUNT,
+  type BuildingRanges,
+} from './citySchemas';
+import { SHAPE_SPECS, TIER_COUNT_RANGE, TWIST_ANGLE_RANGE, getFootprintRadius } from './buildingShapes';
+import { isOnRoad, placeClearOfRoads } from './roadLayout';
+import { createFootprintIndex } from './footprintIndex';
+import { resolveOverlaps } from './overlapResolver';
+import { themeBuildingCount, themeBuildingRanges, type CityTheme } from './cityThemes';
+import { ZONE_PROFILES, DISTRICT_DENSITY_RANGE, createDistrictName, zoneHeightProfile } from './districts';
+import { createSeededRandom } from '../utils/seededRandom';
+
+// Offline generator that draws from the same ranges as the Gemini schemas,
+// narrowed by the theme, so the renderer cannot tell the two providers apart.
+// Themes steer it through their palettes and ranges; the prompt text is not read.
+// Landscapes are zoned into bands of districts across the direction of flight.
+
+const GENERATOR_VERSION = 6;
+const PLACEMENT_ATTEMPTS = 12; // Tries per building before accepting some overlap
+const FOOTPRINT_GAP = 4; // Minimum clearance between footprint circles
+
+// Road counts per kind; landscapes stay inside LANDSCAPE_ROAD_COUNT and clusters inside CLUSTER_ROAD_COUNT.
+const LANDSCAPE_STREET_COUNT: [number, number] = [3, 6];
+const CLUSTER_AVENUE_COUNT: [number, number] = [0, 1];
+const CLUSTER_STREET_COUNT: [number, number] = [0, 2];
+const AVENUE_SEGMENTS = 4;
+const AVENUE_WOBBLE = 12; // Maximum sideways drift of an avenue's interior points
+const STREET_TILT = 6; // Maximum Z difference between a street's two ends
+
+const LANDSCAPE_DISTRICT_BANDS: [number, number] = [2, 4];
+const BAND_JITTER = 0.25; // How far a band edge may drift, as a share of the band depth
+const DISTRICT_DENSITY_JITTER = 0.1;
+const ZONE_WEIGHTS: [ZoneType, number][] = [
+  ['downtown', 3],
+  ['residential', 3],
+  ['industrial', 2],
+  ['port', 1],
+];
+const TOTAL_ZONE_WEIGHT = ZONE_WEIGHTS.reduce((sum, [, weight]) => sum + weight, 0);
+
+// Relative frequency of each shape; plain blocks and towers still dominate the skyline.
+const SHAPE_WEIGHTS: [BuildingShape, number][] = [
+  ['box', 36],
+  ['cylinder', 18],
+  ['steppedTower', 10],
+  ['twistedTower', 10],
+  ['pyramid', 7],
+  ['spire', 7],
+  ['cone', 6],
+  ['dome', 6],
+];
+const TOTAL_SHAPE_WEIGHT = SHAPE_WEIGHTS.reduce((sum, [, weight]) => sum + weight, 0);
+
+const round1 = (value: number): number => Math.round(value * 10) / 10;
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+const clamp = (value: number, [min, max]: [number, number]): number => Math.min(max, Math.max(min, value));
+
+const randomRange = (random: () => number, min: number, max: number): number => min + random() * (max - min);
+const randomInt = (random: () => number, min: number, max: number): number => Math.floor(randomRange(random, min, max + 1));
+
+const pickShape = (random: () => number): BuildingShape => {
+  let remaining = random() * TOTAL_SHAPE_WEIGHT;
+  for (const [shape, weight] of SHAPE_WEIGHTS) {
+    remaining -= weight;
+    if (remaining < 0) return shape;
+  }
+  return 'box';
+};
+
+const pickZone = (random: () => number): ZoneType => {
+  let remaining = random() * TOTAL_ZONE_WEIGHT;
+  for (const [zone, weight] of ZONE_WEIGHTS) {
+    remaining -= weight;
+    if (remaining < 0) return zone;
+  }
+  return 'residential';
+};
+
+// Bands run the full width of the city, one behind the other along Z; at least
+// one of them is downtown. Heights come from the zone's share of `ranges.height`.
+const generateDistricts = (random: () => number, ranges: BuildingRanges): DistrictData[] => {
+  const bandCount = randomInt(random, LANDSCAPE_DISTRICT_BANDS[0], LANDSCAPE_DISTRICT_BANDS[1]);
+  const depth = (ranges.z[1] - ranges.z[0]) / bandCount;
+  const edges = [ranges.z[1]];
+  for (let i = 1; i < bandCount; i++) {
+    edges.push(round1(ranges.z[1] - depth * (i + randomRange(random, -BAND_JITTER, BAND_JITTER))));
+  }
+  edges.push(ranges.z[0]);
+
+  const zones = Array.from({ length: bandCount }, () => pickZone(random));
+  if (!zones.includes('downtown')) zones[Math.floor(bandCount / 2)] = 'downtown';
+
+  return zones.map((zone, i) => ({
+    id: `dist_${String(i + 1).padStart(2, '0')}`,
+    name: createDistrictName(random, zone),
+    zone,
+    bounds: { minX: ranges.x[0], maxX: ranges.x[1], minZ: edges[i + 1], maxZ: edges[i] },
+    heightProfile: zoneHeightProfile(zone, ranges.height),
+    density: round2(clamp(
+      ZONE_PROFILES[zone].density + randomRange(random, -DISTRICT_DENSITY_JITTER, DISTRICT_DENSITY_JITTER),
+      DISTRICT_DENSITY_RANGE,
+    )),
+  }));
+};
+
+// Splits `count` across districts by built-up area (density x ground area),
+// largest remainder first; every district gets at least one building.
+const allotBuildings = (count: number, districts: DistrictData[]): number[] => {
+  const weights = districts.map(({ bounds, density }) => density * (bounds.maxX - bounds.minX) * (bounds.maxZ - bounds.minZ));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const spare = count - districts.length;
+  const shares = weights.map(weight => (weight / totalWeight) * spare);
+  const counts = shares.map(share => 1 + Math.floor(share));
+  const byRemainder = shares.map((share, i) => ({ i, remainder: share - Math.floor(share) })).sort((a, b) => b.remainder - a.remainder);
+  const leftover = count - counts.reduce((sum, c) => sum + c, 0);
+  for (let k = 0; k < leftover; k++) counts[byRemainder[k].i]++;
+  return counts;
+};
+
+const generateDimensions = (random: () => number, shape: BuildingShape, ranges: BuildingRanges): CityElementData['dimensions'] => {
+  const [minRadius, maxRadius] = ranges.radius;
+  let height = round1(randomRange(random, ranges.height[0], ranges.height[1]));
+  const dimensions: CityElementData['dimensions'] = { height };
+  if (SHAPE_SPECS[shape].footprint === 'rect') {
+    dimensions.width = round1(randomRange(random, ranges.boxSide[0], ranges.boxSide[1]));
+    dimensions.depth = round1(randomRange(random, ranges.boxSide[0], ranges.boxSide[1]));
+  } else if (shape === 'spire') {
+    // Needles: thin base and at least half the tallest height.
+    dimensions.radius = round1(randomRange(random, minRadius, minRadius + (maxRadius - minRadius) * 0.25));
+    height = round1(randomRange(random, (ranges.height[0] + ranges.height[1]) / 2, ranges.height[1]));
+  } else {
+    dimensions.radius = round1(randomRange(random, minRadius, maxRadius));
+    if (shape === 'dome') {
+      height = round1(Math.max(ranges.height[0], dimensions.radius * randomRange(random, 0.6, 1.2)));
+    }
+  }
+  dimensions.height = height;
+  if (shape === 'steppedTower') dimensions.tierCount = randomInt(random, TIER_COUNT_RANGE[0], TIER_COUNT_RANGE[1]);
+  if (shape === 'twistedTower') dimensions.twistAngle = round1(randomRange(random, TWIST_ANGLE_RANGE[0], TWIST_ANGLE_RANGE[1]));
+  return dimensions;
+};
+
+// Avenues run along Z, the direction of flight, and wobble a little; streets
+// cross them along X. Both span the whole area so clusters line up at their edges.
+const generateRoads = (
+  random: () => number,
+  ranges: BuildingRanges,
+  avenueCount: [number, number],
+  streetCount: [number, number],
+  idPrefix: string,
+): RoadData[] => {
+  const roads: RoadData[] = [];
+  const nextId = () => `${idPrefix}${String(roads.length + 1).padStart(2, '0')}`;
+  const clampX = (x: number) => round1(Math.min(ranges.x[1], Math.max(ranges.x[0], x)));
+  const clampZ = (z: number) => round1(Math.min(ranges.z[1], Math.max(ranges.z[0], z)));
+
+  const avenues = randomInt(random, avenueCount[0], avenueCount[1]);
+  const laneWidthX = (ranges.x[1] - ranges.x[0]) / Math.max(1, avenues);
+  for (let i = 0; i < avenues; i++) {
+    const baseX = ranges.x[0] + laneWidthX * (i + 0.5) + randomRange(random, -0.2, 0.2) * laneWidthX;
+    const points: RoadData['points'] = [];
+    for (let p = 0; p <= AVENUE_SEGMENTS; p++) {
+      const wobble = p === 0 || p === AVENUE_SEGMENTS ? 0 : randomRange(random, -AVENUE_WOBBLE, AVENUE_WOBBLE);
+      points.push({ x: clampX(baseX + wobble), z: clampZ(ranges.z[1] - (ranges.z[1] - ranges.z[0]) * (p / AVENUE_SEGMENTS)) });
+    }
+    roads.push({ id: nextId(), kind: 'avenue', width: round1(randomRange(random, ...ROAD_WIDTH_RANGES.avenue)), points });
+  }
+
+  const streets = randomInt(random, streetCount[0], streetCount[1]);
+  const laneWidthZ = (ranges.z[1] - ranges.z[0]) / Math.max(1, streets);
+  for (let i = 0; i < streets; i++) {
+    const baseZ = ranges.z[0] + laneWidthZ * (i + 0.5) + randomRange(random, -0.2, 0.2) * laneWidthZ;
+    const tilt = randomRange(random, -STREET_TILT, STREET_TILT) / 2;
+    roads.push({
+      id: nextId(),
+      kind: 'street',
+      width: round1(randomRange(random, ...ROAD_WIDTH_RANGES.street)),
+      points: [{ x: ranges.x[0], z: clampZ(baseZ - tilt) }, { x: ranges.x[1], z: clampZ(baseZ + tilt) }],
+    });
+  }
+  return roads;
+};
+
+// A batch of buildings and the area and sizes they are drawn from.
+interface BuildingPlan {
+  count: number;
+  ranges: BuildingRanges;
+  districtId?: string;
+}
+
+// Buildings are placed by rejection sampling on their bounding circles, away
+// from roads. After PLACEMENT_ATTEMPTS the last candidate is kept so the count
+// stays in range, pushed off any road it sits on and settled against its
+// neighbours by the overlap resolver; a building that cannot be pushed clear
+// or settled is replaced by a fresh one, up to 3 × `count` extra times per plan.
+// `occupied` holds footprint circles of buildings already standing, to keep clear of
+const generateBuildings = (
+  random: () => number,
+  plans: BuildingPlan[],
+  roads: RoadData[],
+  idPrefix: string,
+  occupied: { x: number; z: number; r: number }[] = [],
+): CityElementData[] => {
+  const buildings: CityElementData[] = [];
+  const footprints = [...occupied];
+  const footprintIndex = createFootprintIndex();
+
+  // Places up to `count` buildings of the plan and returns how many fit.
+  const place = ({ ranges, districtId }: BuildingPlan, count: number): number => {
+    let placed = 0;
+    for (let tries = 0; placed < count && tries < count * 4; tries++) {
+      const shape = pickShape(random);
+      const dimensions = generateDimensions(random, shape, ranges);
+      const footprintRadius = getFootprintRadius({ shape, dimensions });
+
+      let building: CityElementData = {
+        id: `${idPrefix}${String(buildings.length + 1).padStart(3, '0')}`,
+        type: 'building',
+        shape,
+        position: { x: 0, y: 0, z: 0 },
+        dimensions,
+        ...(districtId && { districtId }),
+      };
+      for (let attempt = 0; attempt < PLACEMENT_ATTEMPTS; attempt++) {
+        const x = round1(randomRange(random, ranges.x[0], ranges.x[1]));
+        const z = round1(randomRange(random, ranges.z[0], ranges.z[1]));
+        building.position = { x, y: 0, z };
+        const overlaps = footprints.some(f => Math.hypot(f.x - x, f.z - z) < f.r + footprintRadius + FOOTPRINT_GAP);
+        if (!overlaps && !isOnRoad(building, roads)) break;
+      }
+      const placement = placeClearOfRoads(building, roads, ranges);
+      if (placement.outcome === 'rejected') continue;
+      building = placement.building;
+
+      if (SHAPE_SPECS[shape].footprint === 'rect' && random() < 0.5) {
+        building.orientationY = Math.min(ORIENTATION_RANGE[1], round1(randomRange(random, ORIENTATION_RANGE[0], ORIENTATION_RANGE[1])));
+      }
+      const [settled] = resolveOverlaps([building], footprintIndex, { ranges, roads }).placed;
+      if (!settled) continue;
+      footprints.push({ x: settled.position.x, z: settled.position.z, r: getFootprintRadius(settled) });
+      buildings.push(settled);
+      placed++;
+    }
+    return placed;
+  };
+
+  let missing = 0;
+  plans.forEach(plan => { missing += plan.count - place(plan, plan.count); });
+  // Districts too crowded for their share hand the rest to the others
+  for (const plan of plans) {
+    if (missing <= 0) break;
+    missing -= place(plan, missing);
+  }
+  return buildings;
+};
+
+export const createProceduralProvider = (): CityGenerationProvider => {
+  const generateLandscape = async (seed: string, theme: CityTheme): Promise<LandscapeData> => {
+    const random = createSeededRandom(seed);
+    const sky = theme.skyPalettes[Math.floor(random() * theme.skyPalettes.length)];
+    const count = randomInt(random, ...themeBuildingCount(theme, 'landscape'));
+    const ranges = themeBuildingRanges(LANDSCAPE_BUILDING_RANGES, theme);
+    const districts = generateDistricts(random, ranges);
+    // Roads span the full area whatever the theme; only buildings take the themed sizes.
+    const roads = generateRoads(random, LANDSCAPE_BUILDING_RANGES, LANDSCAPE_AVENUE_COUNT, LANDSCAPE_STREET_COUNT, 'road_');
+    const counts = allotBuildings(count, districts);
+    const plans = districts.map((district, i): BuildingPlan => ({
+      count: counts[i],
+      ranges: {
+        ...ranges,
+        x: [district.bounds.minX, district.bounds.maxX],
+        z: [district.bounds.minZ, district.bounds.maxZ],
+        height: [district.heightProfile.min, district.heightProfile.max],
+      },
+      districtId: district.id,
+    }));
+    return {
+      sky: { ...sky },
+      districts,
+      roads,
+      buildings: generateBuildings(random, plans, roads, 'bld_'),
+    };
+  };
+
+  // A cluster in a district takes the district's heights, and denser districts
+  // get counts nearer the top of the theme's range. Heights then lean halfway
+  // towards the buildings around it, and its footprints avoid theirs.
+  const generateBuildingCluster = async (clusterIdPrefix: string, seed: string, { theme, district, neighbourhood }: ClusterContext): Promise<ClusterData | null> => {
+    const random = createSeededRandom(seed);
+    const [minCount, maxCount] = themeBuildingCount(theme, 'cluster');
+    const count = district
+      ? clamp(Math.round(minCount + (maxCount - minCount) * district.density + randomRange(random, -1, 1)), [minCount, maxCount])
+      : randomInt(random, minCount, maxCount);
+    const roads = generateRoads(random, CLUSTER_BUILDING_RANGES, CLUSTER_AVENUE_COUNT, CLUSTER_STREET_COUNT, `${clusterIdPrefix}road_`);
+    const ranges = themeBuildingRanges(CLUSTER_BUILDING_RANGES, theme);
+    const themeHeights = ranges.height;
+    if (district) {
+      const low = clamp(district.heightProfile.min, ranges.height);
+      ranges.height = [low, clamp(district.heightProfile.max, [low, ranges.height[1]])];
+    }
+    const occupied = neighbourhood?.occupied.map(({ x, z, radius }) => ({ x, z, r: radius })) ?? [];
+    if (neighbourhood?.heights) {
+      const low = clamp(round1((ranges.height[0] + neighbourhood.heights.min) / 2), themeHeights);
+      ranges.height = [low, clamp(round1((ranges.height[1] + neighbourhood.heights.max) / 2), [low, themeHeights[1]])];
+    }
+    return {
+      roads,
+      buildings: generateBuildings(random, [{ count, ranges, districtId: district?.id }], roads, `${clusterIdPrefix}bld_part_`, occupied),
+    };
+  };
+
+  return {
+    id: 'procedural',
+    label: 'PROCEDURAL URBAN CORE',
+    templateVersion: GENERATOR_VERSION,
+    generateLandscape,
+    generateBuildingCluster,
+  };
+};
@@ -0,0 +1,34 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createProxyCityProvider } from './proxyCityProvider';
+import { createProceduralProvider } from './proceduralCityProvider';
+import { createGenerationDiagnostics, withGenerationDiagnostics } from './generationDiagnostics';
+import { withGenerationCache, type GenerationCache } from './generationCache';
+import { DEFAULT_THEME } from './cityThemes';
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', () => Promise.reject(new TypeError('Failed to fetch')));
+  return () => vi.unstubAllGlobals();
+});
+
+const noCache: GenerationCache = {
+  get: async () => null,
+  set: async () => {},
+  clear: async () => {},
+  stats: async () => ({ entries: 0, bytes: 0 }),
+};
+
+describe('proxy city provider', () => {
+  it('falls back offline when no city server answers, and its wrappers say so', async () => {
+    const provider = withGenerationCache(
+      withGenerationDiagnostics(createProxyCityProvider('/api/city', {}, createProceduralProvider()), createGenerationDiagnostics()),
+      noCache,
+      () => true,
+    );
+    expect(provider.label).toBe('GEMINI URBAN CORE');
+
+    const landscape = await provider.generateLandscape('aurora-7', DEFAULT_THEME);
+    expect(landscape.buildings.length).toBeGreaterThan(0);
+    expect(provider.label).toBe('PROCEDURAL URBAN CORE');
+    expect(provider.isCacheable?.()).toBe(false);
+  });
+});
@@ -0,0 +1,173 @@
+import type { LandscapeData, ClusterData } from '../App';
+import type {
+  CityGenerationProvider,
+  CityGenerationHooks,
+  ClusterContext,
+  LandscapeProgressHandler,
+  ModelAttempt,
+} from './cityGenerationProvider';
+import { validateLandscape, validateCluster, formatValidationIssues } from './citySchemas';
+import { PROMPT_TEMPLATE_VERSION } from './geminiCityProvider';
+import { createLandscapeProgressFilter } from './landscapeStream';
+import type {
+  LandscapeRequest,
+  LandscapeResponse,
+  LandscapeStreamMessage,
+  ClusterRequest,
+  ClusterResponse,
+  ProxyErrorResponse,
+  CityProxyStatus,
+} from './cityProxyProtocol';
+import type { CityTheme } from './cityThemes';
+
+// Gemini generation through the city server (server/), which holds the API key
+// and prompts, repairs and validates server-side. Responses are validated again
+// here, since they feed the cache and the renderer; so is each part of a
+// streamed landscape. The model answers the server reports, failed ones
+// included, go on to the app's onModelAttempts hook. With an `offline`
+// provider, cities are generated by it whenever no city server answers, as
+// with a static build deployed on its own; those are never cached.
+
+export const createProxyCityProvider = (
+  baseUrl: string,
+  hooks: CityGenerationHooks = {},
+  offline: CityGenerationProvider | null = null,
+): CityGenerationProvider => {
+  let isStub = false; // The server's mode, as its last answer stated it
+  let isOffline = false; // No city server answered before the last landscape
+
+  // Checked before each landscape, so a server started later is picked up
+  const isServerUp = async (): Promise<boolean> => {
+    try {
+      const response = await fetch(`${baseUrl}/status`);
+      const status = await response.json() as Partial<CityProxyStatus> | null;
+      return response.ok && (status?.mode === 'gemini' || status?.mode === 'stub');
+    } catch {
+      return false;
+    }
+  };
+
+  const reportAttempts = (body: LandscapeRequest | ClusterRequest, attempts: ModelAttempt[] | undefined) => {
+    if (!Array.isArray(attempts)) return;
+    if ('clusterIdPrefix' in body) hooks.onModelAttempts?.('cluster', body.clusterIdPrefix, attempts);
+    else hooks.onModelAttempts?.('landscape', body.seed, attempts);
+  };
+
+  // Resolves with a successful response; rejects with the server's error message otherwise.
+  const request = async (endpoint: string, body: LandscapeRequest | ClusterRequest): Promise<Response> => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}/${endpoint}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+    } catch {
+      throw new Error(`The city server at ${baseUrl} is unreachable. Add ?provider=procedural to the URL to generate offline.`);
+    }
+    if (!response.ok) {
+      const payload = await response.json().catch(() => null) as ProxyErrorResponse | null;
+      reportAttempts(body, payload?.attempts);
+      const message = payload?.error;
+      throw new Error(message ?? `The city server answered ${response.status} ${response.statusText}`);
+    }
+    return response;
+  };
+
+  const post = async <T,>(endpoint: string, body: LandscapeRequest | ClusterRequest): Promise<T> => {
+    const response = await request(endpoint, body);
+    return await response.json().catch(() => null) as T;
+  };
+
+  // Reads a newline-delimited JSON response line by line as it arrives.
+  const postStream = async (endpoint: string, body: LandscapeRequest, onMessage: (message: unknown) => void) => {
+    const response = await request(endpoint, body);
+    if (!response.body) throw new Error('The city server sent an empty stream');
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let pending = '';
+    const readLines = (final: boolean) => {
+      const lines = pending.split('\n');
+      pending = final ? '' : lines.pop()!;
+      lines.filter(line => line.trim()).forEach(line => onMessage(JSON.parse(line)));
+    };
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        pending += decoder.decode(value, { stream: true });
+        readLines(false);
+      }
+      pending += decoder.decode();
+      readLines(true);
+    } catch (err) {
+      reader.cancel().catch(() => {});
+      throw err instanceof SyntaxError ? new Error('The city server sent a malformed stream') : err;
+    }
+  };
+
+  // Passes validated progress on as it arrives and resolves with the final response.
+  const streamLandscape = async (seed: string, theme: CityTheme, onProgress: LandscapeProgressHandler): Promise<LandscapeResponse> => {
+    const accept = createLandscapeProgressFilter(onProgress);
+    let final: LandscapeResponse | null = null;
+    await postStream('landscape/stream', { seed, theme }, message => {
+      const line = message as LandscapeStreamMessage | null;
+      if (line?.type === 'progress') accept(line.progress);
+      else if (line?.type === 'landscape') final = line;
+      else if (line?.type === 'error') {
+        reportAttempts({ seed, theme }, line.attempts);
+        throw new Error(line.error);
+      }
+    });
+    if (!final) throw new Error('The city server ended the stream without a landscape');
+    return final;
+  };
+
+  const generateLandscape = async (seed: string, theme: CityTheme, onProgress?: LandscapeProgressHandler): Promise<LandscapeData> => {
+    if (offline) {
+      isOffline = !(await isServerUp());
+      if (isOffline) return offline.generateLandscape(seed, theme, onProgress);
+    }
+    const response = onProgress
+      ? await streamLandscape(seed, theme, onProgress)
+      : await post<LandscapeResponse>('landscape', { seed, theme });
+    reportAttempts({ seed, theme }, response?.attempts);
+    const result = validateLandscape(response?.landscape);
+    if (!result.ok) throw new Error(`The city server sent an invalid landscape:\n${formatValidationIssues(result.issues, 5)}`);
+    isStub = response.stub === true;
+    response.reports?.forEach(report => hooks.onRepairReport?.(report));
+    return result.value;
+  };
+
+  const generateBuildingCluster = async (clusterIdPrefix: string, seed: string, context: ClusterContext): Promise<ClusterData | null> => {
+    if (offline && isOffline) return offline.generateBuildingCluster(clusterIdPrefix, seed, context);
+    try {
+      const body: ClusterRequest = { clusterIdPrefix, seed, context };
+      const response = await post<ClusterResponse>('cluster', body);
+      isStub = response?.stub === true;
+      reportAttempts(body, response?.attempts);
+      if (!response?.cluster) return null;
+      const result = validateCluster(response.cluster);
+      if (!result.ok) {
+        console.error(`The city server sent an invalid cluster ${clusterIdPrefix}:\n${formatValidationIssues(result.issues, 5)}`);
+        return null;
+      }
+      response.reports?.forEach(report => hooks.onRepairReport?.(report));
+      return result.value;
+    } catch (err) {
+      console.error("Error generating building cluster:", err);
+      return null;
+    }
+  };
+
+  return {
+    id: 'gemini',
+    get label() {
+      return offline && isOffline ? offline.label : 'GEMINI URBAN CORE';
+    },
+    templateVersion: PROMPT_TEMPLATE_VERSION,
+    isCacheable: () => !isStub && !isOffline,
+    generateLandscape,
+    generateBuildingCluster,
+  };
+};
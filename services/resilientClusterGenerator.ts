@@ -0,0 +1,79 @@
+import type { CityGenerationProvider } from './cityGenerationProvider';
+import { deriveSeed } from '../utils/seededRandom';
+
+// Wraps a cluster generator with bounded retries, exponential backoff and a
+// circuit breaker. Whenever the primary source gives up (or the circuit is
+// open) the fallback fills the spawn region, so streamed flights never show gaps.
+
+export type ClusterGenerator = CityGenerationProvider['generateBuildingCluster'];
+
+export interface ResilientClusterOptions {
+  maxAttempts: number; // Attempts per cluster against the primary source
+  baseDelayMs: number; // Delay before the first retry; doubles with each further retry
+  maxDelayMs: number;
+  failureThreshold: number; // Consecutive failed clusters that open the circuit
+  cooldownMs: number; // Time the circuit stays open before one trial request
+}
+
+export const DEFAULT_RESILIENT_CLUSTER_OPTIONS: ResilientClusterOptions = {
+  maxAttempts: 3,
+  baseDelayMs: 800,
+  maxDelayMs: 8000,
+  failureThreshold: 3,
+  cooldownMs: 30000,
+};
+
+const sleep = (ms: number) => new Promise<void>(resolve => window.setTimeout(resolve, ms));
+
+export const createResilientClusterGenerator = (
+  primary: ClusterGenerator,
+  fallback: ClusterGenerator,
+  options: ResilientClusterOptions = DEFAULT_RESILIENT_CLUSTER_OPTIONS,
+): ClusterGenerator => {
+  let consecutiveFailures = 0;
+  let circuitOpenedAt: number | null = null;
+  let trialInFlight = false;
+
+  const backoffDelay = (retry: number): number => {
+    const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (retry - 1));
+    return exponential / 2 + Math.random() * exponential / 2; // Jitter keeps parallel clusters from retrying in lockstep
+  };
+
+  return async (clusterIdPrefix, seed, context) => {
+    const isTrial = circuitOpenedAt !== null;
+    if (isTrial) {
+      // Half-open: after the cooldown exactly one request probes the primary source.
+      if (trialInFlight || Date.now() - circuitOpenedAt! < options.cooldownMs) {
+        return fallback(clusterIdPrefix, seed, context);
+      }
+      trialInFlight = true;
+    }
+
+    const attempts = isTrial ? 1 : options.maxAttempts;
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      if (attempt > 0) await sleep(backoffDelay(attempt));
+      // Retries use a derived seed; re-sending the same seed tends to reproduce the same bad answer.
+      const attemptSeed = attempt === 0 ? seed : deriveSeed(seed, 'retry', attempt);
+      try {
+        const cluster = await primary(clusterIdPrefix, attemptSeed, context);
+        if (cluster) {
+          if (circuitOpenedAt !== null) console.info("Cluster generation recovered; circuit closed.");
+          consecutiveFailures = 0;
+          circuitOpenedAt = null;
+          trialInFlight = false;
+          return cluster;
+        }
+      } catch (err) {
+        console.warn(`Cluster ${clusterIdPrefix} attempt ${attempt + 1}/${attempts} failed:`, err);
+      }
+    }
+
+    consecutiveFailures++;
+    trialInFlight = false;
+    if (isTrial || consecutiveFailures >= options.failureThreshold) {
+      console.warn(`Cluster generation failed ${consecutiveFailures} times in a row; using procedural clusters for ${options.cooldownMs / 1000}s.`);
+      circuitOpenedAt = Date.now();
+    }
+    return fallback(clusterIdPrefix, seed, context);
+  };
+};
@@ -0,0 +1,97 @@
+import type { CityElementData, RoadData } from '../App';
+import type { BuildingRanges } from './citySchemas';
+import { getFootprintRadius } from './buildingShapes';
+
+// Keeps buildings off the roadway. Footprints are treated as their enclosing
+// circle, so a building is clear when that circle stays ROAD_CLEARANCE away
+// from the road's edge.
+
+export const ROAD_CLEARANCE = 2;
+const SNAP_ATTEMPTS = 3; // Pushing off one road can land on another; give up after this many pushes
+
+interface NearestRoadPoint {
+  distance: number;
+  x: number;
+  z: number;
+  // Unit vector from the road towards the query point (the segment normal when the point is on the centre line)
+  awayX: number;
+  awayZ: number;
+}
+
+const nearestPointOnRoad = (x: number, z: number, road: RoadData): NearestRoadPoint | null => {
+  let nearest: NearestRoadPoint | null = null;
+  for (let i = 0; i < road.points.length - 1; i++) {
+    const a = road.points[i];
+    const b = road.points[i + 1];
+    const segX = b.x - a.x;
+    const segZ = b.z - a.z;
+    const lengthSq = segX * segX + segZ * segZ;
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((x - a.x) * segX + (z - a.z) * segZ) / lengthSq));
+    const px = a.x + segX * t;
+    const pz = a.z + segZ * t;
+    const distance = Math.hypot(x - px, z - pz);
+    if (nearest && distance >= nearest.distance) continue;
+
+    let awayX = x - px;
+    let awayZ = z - pz;
+    if (distance > 1e-6) {
+      awayX /= distance;
+      awayZ /= distance;
+    } else {
+      const length = Math.sqrt(lengthSq) || 1;
+      awayX = -segZ / length;
+      awayZ = segX / length;
+    }
+    nearest = { distance, x: px, z: pz, awayX, awayZ };
+  }
+  return nearest;
+};
+
+const clearanceFor = (building: CityElementData, road: RoadData): number =>
+  road.width / 2 + getFootprintRadius(building) + ROAD_CLEARANCE;
+
+// First road the building's footprint intrudes on, with the nearest point on it.
+const findRoadConflict = (building: CityElementData, roads: RoadData[]): { road: RoadData; nearest: NearestRoadPoint } | null => {
+  for (const road of roads) {
+    const nearest = nearestPointOnRoad(building.position.x, building.position.z, road);
+    if (nearest && nearest.distance < clearanceFor(building, road)) return { road, nearest };
+  }
+  return null;
+};
+
+export const isOnRoad = (building: CityElementData, roads: RoadData[]): boolean => findRoadConflict(building, roads) !== null;
+
+export type RoadPlacement =
+  | { outcome: 'clear'; building: CityElementData }
+  | { outcome: 'snapped'; building: CityElementData; roadId: string }
+  | { outcome: 'rejected'; roadId: string };
+
+// Pushes a building that sits on a road sideways to the nearest kerb. When that
+// fails (or leaves `bounds`, if given) the building is rejected. The input is
+// never mutated; snapped buildings are copies.
+export const placeClearOfRoads = (building: CityElementData, roads: RoadData[], bounds?: BuildingRanges): RoadPlacement => {
+  let conflict = findRoadConflict(building, roads);
+  if (!conflict) return { outcome: 'clear', building };
+
+  const firstRoadId = conflict.road.id;
+  let placed = building;
+  for (let attempt = 0; attempt < SNAP_ATTEMPTS && conflict; attempt++) {
+    const { road, nearest } = conflict;
+    const offset = clearanceFor(placed, road) + 0.1;
+    placed = {
+      ...placed,
+      position: {
+        ...placed.position,
+        x: Math.round((nearest.x + nearest.awayX * offset) * 10) / 10,
+        z: Math.round((nearest.z + nearest.awayZ * offset) * 10) / 10,
+      },
+    };
+    conflict = findRoadConflict(placed, roads);
+  }
+
+  const { x, z } = placed.position;
+  const inBounds = !bounds || (x >= bounds.x[0] && x <= bounds.x[1] && z >= bounds.z[0] && z <= bounds.z[1]);
+  return !conflict && inBounds
+    ? { outcome: 'snapped', building: placed, roadId: firstRoadId }
+    : { outcome: 'rejected', roadId: firstRoadId };
+};
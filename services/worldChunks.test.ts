@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import type { CityElementData, ClusterData, DistrictData } from '../App';
+import {
+  CHUNK_SIZE, chunkAt, chunkCentre, chunkIdPrefix, chunksAround, createChunkStore, isChunkBuiltUp, neighbourOutlines,
+  parseChunkIdPrefix, settleChunk,
+} from './worldChunks';
+import { footprintOf, footprintsCollide } from './footprintIndex';
+
+const box = (id: string, x: number, z: number, side = 20): CityElementData => ({
+  id,
+  type: 'building',
+  shape: 'box',
+  position: { x, y: 0, z },
+  dimensions: { width: side, height: 40, depth: side },
+});
+
+const NO_LANDSCAPE = { roads: [], buildings: [] };
+
+describe('chunk addressing', () => {
+  it('derives the same chunks and prefixes from the same seed', () => {
+    const coords = Array.from({ length: 40 }, (_, i) => ({ cx: i - 20, cz: -5 - i }));
+    const pattern = (seed: string) => coords.map(c => isChunkBuiltUp(seed, c));
+    expect(pattern('aurora-7')).toEqual(pattern('aurora-7'));
+    expect(pattern('aurora-7')).not.toEqual(pattern('cobalt-3'));
+    expect(pattern('aurora-7')).toContain(true);
+    expect(pattern('aurora-7')).toContain(false);
+
+    expect(chunkIdPrefix({ cx: -3, cz: 12 })).toBe('ch-3_12_');
+    expect(/^[A-Za-z0-9_-]{1,32}$/.test(chunkIdPrefix({ cx: -3, cz: 12 }))).toBe(true);
+    expect(parseChunkIdPrefix('ch-3_12_')).toEqual({ cx: -3, cz: 12 });
+    expect(parseChunkIdPrefix('c0_')).toBeNull();
+  });
+
+  it('leaves chunks over the landscape to it', () => {
+    expect(isChunkBuiltUp('aurora-7', { cx: 0, cz: 0 })).toBe(false);
+    expect(isChunkBuiltUp('aurora-7', { cx: 0, cz: -2 })).toBe(false);
+  });
+
+  it('lists the chunks around a point nearest first', () => {
+    const around = chunksAround(CHUNK_SIZE * 4 + 10, 0, CHUNK_SIZE * 1.5);
+    expect(around[0]).toEqual({ cx: 4, cz: 0 });
+    expect(around).toHaveLength(9);
+    const distances = around.map(c => Math.hypot(chunkCentre(c).x - (CHUNK_SIZE * 4 + 10), chunkCentre(c).z));
+    expect(distances).toEqual([...distances].sort((a, b) => a - b));
+    expect(chunkAt(CHUNK_SIZE * 4 + 10, -CHUNK_SIZE * 0.6)).toEqual({ cx: 4, cz: -1 });
+  });
+
+  it('outlines the built-up chunks next door that hold no cluster yet', () => {
+    const district: DistrictData = {
+      id: 'd1', name: 'NEON HEIGHTS', zone: 'downtown',
+      bounds: { minX: -300, maxX: 300, minZ: -300, maxZ: 300 },
+      heightProfile: { min: 40, max: 120 }, density: 0.8,
+    };
+    const coords = { cx: 6, cz: -4 };
+    const store = createChunkStore();
+    const builtUp = chunksAround(chunkCentre(coords).x, chunkCentre(coords).z, CHUNK_SIZE * 1.5)
+      .filter(c => (c.cx !== coords.cx || c.cz !== coords.cz) && isChunkBuiltUp('aurora-7', c));
+    const keys = (list: { cx: number; cz: number }[]) => list.map(c => `${c.cx},${c.cz}`).sort();
+    const outlinedChunks = () => keys(neighbourOutlines(store, 'aurora-7', coords, [district]).map(({ x, z }) => chunkAt(x, z)));
+    expect(builtUp.length).toBeGreaterThan(1);
+    expect(outlinedChunks()).toEqual(keys(builtUp));
+    expect(neighbourOutlines(store, 'aurora-7', coords, [district]).every(outline => outline.height === 80)).toBe(true);
+    expect(neighbourOutlines(store, 'aurora-7', coords, [])).toEqual([]);
+
+    const generated = builtUp[0];
+    const cluster = { roads: [], buildings: [box('g', 0, 0)] };
+    settleChunk(store, generated, { idPrefix: chunkIdPrefix(generated), offset: chunkCentre(generated), cluster }, NO_LANDSCAPE);
+    expect(outlinedChunks()).toEqual(keys(builtUp.slice(1)));
+  });
+});
+
+describe('settleChunk', () => {
+  const cluster: ClusterData = { roads: [], buildings: [box('a', -100, 0), box('b', 0, 0)] };
+
+  it('fits a chunk around its stored neighbours and stores it', () => {
+    const store = createChunkStore();
+    const west = { cx: 3, cz: 0 };
+    const east = { cx: 4, cz: 0 };
+    settleChunk(store, west, { idPrefix: chunkIdPrefix(west), offset: { x: 800, z: 0 }, cluster: { roads: [], buildings: [box('w', 0, 0)] } }, NO_LANDSCAPE);
+
+    const { chunk, fixes } = settleChunk(store, east, { idPrefix: chunkIdPrefix(east), offset: chunkCentre(east), cluster }, NO_LANDSCAPE);
+
+    expect(fixes.length).toBeGreaterThan(0);
+    const neighbour = footprintOf(store.get(west)!.buildings[0]);
+    chunk.buildings.forEach(building => expect(footprintsCollide(footprintOf(building), neighbour)).toBe(false));
+    expect(store.get(east)).toBe(chunk);
+    expect(store.chunks().map(c => c.coords)).toEqual([west, east]);
+  });
+
+  it('comes out the same whichever neighbours were generated after it', () => {
+    const settle = (withLaterNeighbour: boolean) => {
+      const store = createChunkStore();
+      const coords = { cx: 4, cz: 0 };
+      settleChunk(store, coords, { idPrefix: chunkIdPrefix(coords), offset: chunkCentre(coords), cluster }, NO_LANDSCAPE);
+      if (withLaterNeighbour) {
+        settleChunk(store, { cx: 5, cz: 0 }, { idPrefix: 'ch5_0_', offset: chunkCentre({ cx: 5, cz: 0 }), cluster }, NO_LANDSCAPE);
+      }
+      return store.get(coords)!.buildings.map(b => b.position);
+    };
+    expect(settle(true)).toEqual(settle(false));
+  });
+});
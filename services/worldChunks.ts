@@ -0,0 +1,160 @@
+import type { CityElementData, ClusterData, DistrictData, RoadData } from '../App';
+import type { RepairFix } from './cityRepair';
+import { LANDSCAPE_BUILDING_RANGES } from './citySchemas';
+import { districtAt } from './districts';
+import type { ClusterOutline } from './neighbourhood';
+import { createFootprintIndex } from './footprintIndex';
+import { placeClusterInWorld } from './clusterPlacement';
+import { createSeededRandom, deriveSeed } from '../utils/seededRandom';
+
+// The streamed world as a grid of square chunks addressed by integer
+// coordinates. Whether a chunk is built up, and its cluster's id prefix, which
+// seeds the cluster's generation, follow from the city seed and the chunk's
+// coordinates. The cluster is then settled around whichever neighbouring
+// chunks were generated before it, so a chunk can come out differently when
+// the flight reaches it another way. Once generated, a chunk is kept in the
+// chunk store: flying back to it, or loading it again after it was retired,
+// shows the same buildings for the rest of the session, and a saved session
+// keeps them.
+
+export const CHUNK_SIZE = 225; // A cluster spans +/-60 around its centre, plus its buildings
+const BUILT_UP_SHARE = 0.7; // Chunks holding a cluster; the rest stay open ground
+const CLUSTER_OUTLINE_RADIUS = 75; // Bounds a cluster's +/-60 spread and the footprints at its edge
+
+export interface ChunkCoords {
+  cx: number;
+  cz: number;
+}
+
+export interface StoredChunk {
+  coords: ChunkCoords;
+  idPrefix: string;
+  offset: { x: number; z: number }; // World position of the cluster's origin, normally the chunk centre
+  cluster: ClusterData; // As the provider returned it, for sessions
+  roads: RoadData[]; // Settled, in world coordinates
+  buildings: CityElementData[]; // Settled, in world coordinates; dropped buildings are left out
+}
+
+export interface ChunkStore {
+  get: (coords: ChunkCoords) => StoredChunk | undefined;
+  put: (chunk: StoredChunk) => void;
+  chunks: () => StoredChunk[]; // In the order they were generated
+  clear: () => void;
+  size: () => number;
+}
+
+export const chunkKey = ({ cx, cz }: ChunkCoords): string => `${cx},${cz}`;
+
+export const chunkAt = (x: number, z: number): ChunkCoords =>
+  ({ cx: Math.round(x / CHUNK_SIZE), cz: Math.round(z / CHUNK_SIZE) });
+
+export const chunkCentre = ({ cx, cz }: ChunkCoords): { x: number; z: number } =>
+  ({ x: cx * CHUNK_SIZE, z: cz * CHUNK_SIZE });
+
+export const chunkIdPrefix = ({ cx, cz }: ChunkCoords): string => `ch${cx}_${cz}_`;
+
+const CHUNK_ID_PREFIX_PATTERN = /^ch(-?\d+)_(-?\d+)_$/;
+
+export const parseChunkIdPrefix = (idPrefix: string): ChunkCoords | null => {
+  const match = CHUNK_ID_PREFIX_PATTERN.exec(idPrefix);
+  return match ? { cx: Number(match[1]), cz: Number(match[2]) } : null;
+};
+
+// Chunks over the landscape are left to it.
+const isOverLandscape = (coords: ChunkCoords) => {
+  const { x, z } = chunkCentre(coords);
+  const { x: [minX, maxX], z: [minZ, maxZ] } = LANDSCAPE_BUILDING_RANGES;
+  return x >= minX && x <= maxX && z >= minZ && z <= maxZ;
+};
+
+export const isChunkBuiltUp = (citySeed: string, coords: ChunkCoords): boolean =>
+  !isOverLandscape(coords) && createSeededRandom(deriveSeed(citySeed, 'chunk', coords.cx, coords.cz))() < BUILT_UP_SHARE;
+
+// The built-up chunks next to `coords` that `store` holds no cluster for yet,
+// outlined from the seed and the landscape's districts.
+export const neighbourOutlines = (
+  store: ChunkStore,
+  citySeed: string,
+  coords: ChunkCoords,
+  districts: DistrictData[],
+): ClusterOutline[] => {
+  const outlines: ClusterOutline[] = [];
+  for (let dx = -1; dx <= 1; dx++) {
+    for (let dz = -1; dz <= 1; dz++) {
+      const neighbour = { cx: coords.cx + dx, cz: coords.cz + dz };
+      if ((dx === 0 && dz === 0) || store.get(neighbour) || !isChunkBuiltUp(citySeed, neighbour)) continue;
+      const { x, z } = chunkCentre(neighbour);
+      const district = districtAt(districts, x, z);
+      if (!district) continue;
+      const height = (district.heightProfile.min + district.heightProfile.max) / 2;
+      outlines.push({ x, z, radius: CLUSTER_OUTLINE_RADIUS, height });
+    }
+  }
+  return outlines;
+};
+
+// Chunks whose centres lie within `radius` of (x, z), nearest first.
+export const chunksAround = (x: number, z: number, radius: number): ChunkCoords[] => {
+  const reach = Math.ceil(radius / CHUNK_SIZE);
+  const { cx, cz } = chunkAt(x, z);
+  const found: { coords: ChunkCoords; distance: number }[] = [];
+  for (let dx = -reach; dx <= reach; dx++) {
+    for (let dz = -reach; dz <= reach; dz++) {
+      const coords = { cx: cx + dx, cz: cz + dz };
+      const centre = chunkCentre(coords);
+      const distance = Math.hypot(centre.x - x, centre.z - z);
+      if (distance <= radius) found.push({ coords, distance });
+    }
+  }
+  return found.sort((a, b) => a.distance - b.distance).map(({ coords }) => coords);
+};
+
+export const createChunkStore = (): ChunkStore => {
+  const chunks = new Map<string, StoredChunk>(); // Insertion order is generation order
+  return {
+    get: coords => chunks.get(chunkKey(coords)),
+    put: chunk => {
+      chunks.set(chunkKey(chunk.coords), chunk);
+    },
+    chunks: () => [...chunks.values()],
+    clear: () => chunks.clear(),
+    size: () => chunks.size,
+  };
+};
+
+// What a chunk's cluster is fitted around: the landscape and the stored chunks
+// next to it, loaded or not. Chunks generated later are fitted around this one
+// in turn, so of two neighbours the first is placed without the other.
+export const chunkSurroundings = (
+  store: ChunkStore,
+  coords: ChunkCoords,
+  landscape: { roads: RoadData[]; buildings: CityElementData[] },
+): { roads: RoadData[]; buildings: CityElementData[] } => {
+  const neighbours: StoredChunk[] = [];
+  for (let dx = -1; dx <= 1; dx++) {
+    for (let dz = -1; dz <= 1; dz++) {
+      const neighbour = store.get({ cx: coords.cx + dx, cz: coords.cz + dz });
+      if (neighbour && (dx !== 0 || dz !== 0)) neighbours.push(neighbour);
+    }
+  }
+  return {
+    roads: [...landscape.roads, ...neighbours.flatMap(neighbour => neighbour.roads)],
+    buildings: [...landscape.buildings, ...neighbours.flatMap(neighbour => neighbour.buildings)],
+  };
+};
+
+// Settles a freshly generated cluster into its chunk, around its surroundings, and stores it.
+export const settleChunk = (
+  store: ChunkStore,
+  coords: ChunkCoords,
+  streamed: { idPrefix: string; offset: { x: number; z: number }; cluster: ClusterData },
+  landscape: { roads: RoadData[]; buildings: CityElementData[] },
+): { chunk: StoredChunk; fixes: RepairFix[] } => {
+  const { roads, buildings } = chunkSurroundings(store, coords, landscape);
+  const world = createFootprintIndex();
+  buildings.forEach(world.insert);
+  const placement = placeClusterInWorld(streamed.cluster, streamed.offset, roads, world);
+  const chunk: StoredChunk = { coords, ...streamed, roads: placement.roads, buildings: placement.buildings };
+  store.put(chunk);
+  return { chunk, fixes: placement.fixes };
+};
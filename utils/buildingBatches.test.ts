@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import type { CityElementData } from '../App';
+import { createBuildingBatches } from './buildingBatches';
+import { buildingTemplateOf, createBuildingEdgesGeometry, createTemplateEdgesGeometry } from './buildingGeometry';
+
+const building = (id: string, shape: CityElementData['shape'], dimensions: CityElementData['dimensions'], orientationY?: number): CityElementData => ({
+  id, type: 'building', shape, dimensions, position: { x: 40, y: 0, z: -25 }, orientationY,
+});
+
+const BUILDINGS: CityElementData[] = [
+  building('box', 'box', { width: 20, height: 60, depth: 12 }, 0.4),
+  building('cylinder', 'cylinder', { radius: 9, height: 80 }),
+  building('pyramid', 'pyramid', { width: 30, height: 25, depth: 18 }, 1.2),
+  building('stepped', 'steppedTower', { width: 24, height: 120, depth: 20, tierCount: 4 }),
+  building('cone', 'cone', { radius: 7, height: 35 }),
+  building('dome', 'dome', { radius: 15, height: 12 }),
+  building('spire', 'spire', { radius: 6, height: 150 }, 0.3),
+  building('twisted', 'twistedTower', { width: 16, height: 140, depth: 10, twistAngle: Math.PI / 3 }, -0.7),
+  building('unknown', 'helix' as CityElementData['shape'], { width: 5, height: 5, depth: 5 }),
+];
+
+// What the batch vertex shader does to a template vertex, before the seat offset
+const turn = (x: number, z: number, angle: number): [number, number] =>
+  [x * Math.cos(angle) - z * Math.sin(angle), x * Math.sin(angle) + z * Math.cos(angle)];
+const placeTemplateVertex = (data: CityElementData, x: number, y: number, z: number) => {
+  const { scale, twist } = buildingTemplateOf(data);
+  let [px, pz] = turn(x * scale[0], z * scale[2], twist * (y + 0.5));
+  [px, pz] = turn(px, pz, -(data.orientationY ?? 0));
+  return new THREE.Vector3(px, y * scale[1], pz);
+};
+
+const maxDistance = (a: THREE.Vector3[], b: THREE.Vector3[]) => Math.max(...a.map((point, i) => point.distanceTo(b[i])));
+const positionsOf = (geometry: THREE.BufferGeometry) => {
+  const attribute = geometry.getAttribute('position');
+  return Array.from({ length: attribute.count }, (_, i) => new THREE.Vector3().fromBufferAttribute(attribute, i));
+};
+
+describe('building templates', () => {
+  it('stretch, twist and turn into each building\'s own wireframe', () => {
+    BUILDINGS.forEach(data => {
+      const template = positionsOf(createTemplateEdgesGeometry(buildingTemplateOf(data)));
+      const placed = template.map(({ x, y, z }) => placeTemplateVertex(data, x, y, z));
+      const rotation = new THREE.Matrix4().makeRotationY(data.orientationY ?? 0);
+      const own = positionsOf(createBuildingEdgesGeometry(data)).map(point => point.applyMatrix4(rotation));
+      expect(placed).toHaveLength(own.length);
+      expect(maxDistance(placed, own)).toBeLessThan(1e-3);
+    });
+  });
+
+  it('are shared by buildings of the same shape and tier count', () => {
+    const key = (data: CityElementData) => buildingTemplateOf(data).key;
+    expect(key(BUILDINGS[0])).toBe(key(building('b', 'box', { width: 1, height: 2, depth: 3 })));
+    expect(key(BUILDINGS[3])).not.toBe(key(building('s', 'steppedTower', { width: 24, height: 120, depth: 20, tierCount: 3 })));
+    expect(key(BUILDINGS[8])).toBe('box');
+  });
+});
+
+describe('createBuildingBatches', () => {
+  const style = { color: new THREE.Color(0x00ff00), footprintRadius: 10, fadeIn: false };
+  const flat = () => 0;
+
+  it('draws one batch per template and keeps instances contiguous', () => {
+    const batches = createBuildingBatches(flat, 0.35);
+    for (let i = 0; i < 100; i++) batches.set(building(`b${i}`, 'box', { width: 10, height: 10 + i, depth: 10 }), style);
+    batches.set(BUILDINGS[1], style);
+    const [boxes, cylinders] = batches.object.children as THREE.LineSegments[];
+    expect(batches.object.children).toHaveLength(2);
+    expect((boxes.geometry as THREE.InstancedBufferGeometry).instanceCount).toBe(100);
+    expect((cylinders.geometry as THREE.InstancedBufferGeometry).instanceCount).toBe(1);
+
+    batches.remove('b0');
+    batches.remove('b50');
+    expect((boxes.geometry as THREE.InstancedBufferGeometry).instanceCount).toBe(98);
+    expect(batches.has('b50')).toBe(false);
+    const heights = boxes.geometry.getAttribute('buildingScale');
+    const drawn = Array.from({ length: 98 }, (_, i) => heights.getY(i)).sort((a, b) => a - b);
+    expect(drawn).toEqual(Array.from({ length: 100 }, (_, i) => 10 + i).filter(h => h !== 10 && h !== 60));
+  });
+
+  it('moves a building whose shape changed to its new batch', () => {
+    const batches = createBuildingBatches(flat, 0.35);
+    batches.set(BUILDINGS[0], style);
+    batches.set({ ...BUILDINGS[1], id: 'box' }, style);
+    const [boxes, cylinders] = batches.object.children as THREE.LineSegments[];
+    expect(boxes.visible).toBe(false);
+    expect((cylinders.geometry as THREE.InstancedBufferGeometry).instanceCount).toBe(1);
+  });
+
+  it('fades buildings in from when they were added', () => {
+    const batches = createBuildingBatches(flat, 0.35);
+    batches.update(10);
+    batches.set(BUILDINGS[0], { ...style, fadeIn: true });
+    batches.set(BUILDINGS[1], style);
+    expect(batches.isFading('box')).toBe(true);
+    expect(batches.isFading('cylinder')).toBe(false);
+    batches.update(10.5);
+    expect(batches.isFading('box')).toBe(false);
+  });
+
+  it('removes retired buildings once they have faded out, and exports only those standing', () => {
+    const batches = createBuildingBatches(flat, 0.35);
+    batches.set(BUILDINGS[0], style);
+    batches.set({ ...BUILDINGS[0], id: 'box2' }, style);
+    batches.update(5);
+    batches.retire('box');
+    expect(batches.toLineSegments().map(segments => segments.userData.id)).toEqual(['box2']);
+    batches.update(5.2);
+    expect(batches.has('box')).toBe(true);
+    batches.update(5.4);
+    expect(batches.has('box')).toBe(false);
+    const [boxes] = batches.object.children as THREE.LineSegments[];
+    expect((boxes.geometry as THREE.InstancedBufferGeometry).instanceCount).toBe(1);
+  });
+
+  it('seats buildings on the ground and exports them as standalone lines', () => {
+    const batches = createBuildingBatches(flat, 0.35);
+    batches.set(BUILDINGS[0], style);
+    batches.reseat(() => 7);
+    const [segments] = batches.toLineSegments();
+    expect(segments.userData.id).toBe('box');
+    expect(segments.position.toArray()).toEqual([40, 7 + 30, -25]);
+    expect(segments.rotation.y).toBe(0.4);
+  });
+});
@@ -0,0 +1,293 @@
+import * as THREE from 'three';
+import type { CityElementData } from '../App';
+import { buildingTemplateOf, createBuildingEdgesGeometry, createTemplateEdgesGeometry, type BuildingTemplate } from './buildingGeometry';
+import { groundHeightUnderFootprint, type GroundHeightSampler } from './terrain';
+
+// Building wireframes drawn in one call per shape. Buildings of the same
+// template share an instanced copy of its unit wireframe; each building is a
+// slot of per-instance attributes (seat, scale, turn, colour, fade times), and
+// the shader stretches, twists and turns the template into place and fades it
+// in and out. Adding, moving or removing a building rewrites only its own
+// slot, and freed slots are reused by the next buildings to arrive.
+
+const INITIAL_CAPACITY = 64; // Slots per template; doubled whenever a template fills up
+const NOT_FADING_IN = -1e9; // Fade-in start of buildings that appear at full opacity
+const NOT_FADING_OUT = 1e9; // Fade-out start of buildings that are not retiring
+
+const vertexShader = `
+  attribute vec3 buildingOffset;
+  attribute vec3 buildingScale;
+  attribute vec2 buildingTurn; // Orientation about y, then twist at the roof
+  attribute vec3 buildingColor;
+  attribute vec2 buildingFade; // Fade-in start, fade-out start
+  uniform float time;
+  uniform float fadeDuration;
+  uniform float solid; // 1 draws every building at full opacity
+  varying vec3 vColor;
+  varying float vOpacity;
+
+  vec2 turn(vec2 p, float angle) {
+    float c = cos(angle);
+    float s = sin(angle);
+    return vec2(p.x * c - p.y * s, p.x * s + p.y * c);
+  }
+
+  void main() {
+    vec3 p = position * buildingScale;
+    p.xz = turn(p.xz, buildingTurn.y * (position.y + 0.5));
+    p.xz = turn(p.xz, -buildingTurn.x); // Same sense as Object3D.rotation.y
+    vColor = buildingColor;
+    float fadeIn = clamp((time - buildingFade.x) / fadeDuration, 0.0, 1.0);
+    float fadeOut = clamp((time - buildingFade.y) / fadeDuration, 0.0, 1.0);
+    vOpacity = max(solid, fadeIn * (1.0 - fadeOut));
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(p + buildingOffset, 1.0);
+  }
+`;
+
+const fragmentShader = `
+  uniform vec3 overrideColor;
+  uniform float overrideAmount;
+  varying vec3 vColor;
+  varying float vOpacity;
+
+  void main() {
+    gl_FragColor = vec4(mix(vColor, overrideColor, overrideAmount), vOpacity);
+    #include <colorspace_fragment>
+  }
+`;
+
+interface Slot {
+  building: CityElementData;
+  batch: Batch;
+  index: number;
+  color: THREE.Color;
+  footprintRadius: number;
+}
+
+interface Batch {
+  template: BuildingTemplate;
+  edges: THREE.BufferGeometry; // The template's wireframe, copied into every resize
+  lines: THREE.LineSegments;
+  slots: Slot[]; // By instance index
+}
+
+export interface BuildingStyle {
+  color: THREE.Color;
+  footprintRadius: number; // Seats the building on the lowest ground under it
+  fadeIn: boolean; // Fades in from now rather than appearing at once
+}
+
+export interface BuildingBatches {
+  object: THREE.Group; // Add to the scene once; batches are added to it as shapes appear
+  has: (id: string) => boolean;
+  isFading: (id: string) => boolean; // Still fading in
+  // Adds a building, or replaces the one with its id
+  set: (building: CityElementData, style: BuildingStyle) => void;
+  remove: (id: string) => void;
+  retire: (id: string) => void; // Fades the building out, then removes it
+  clear: () => void;
+  reseat: (ground: GroundHeightSampler) => void; // After the terrain changes
+  update: (time: number) => void; // Clock time, once per frame; removes retired buildings that have faded out
+  // Draws every building at full opacity, recoloured when `color` is set; null restores
+  setOverride: (override: { color: THREE.Color | null } | null) => void;
+  // One standalone wireframe per building still standing, positioned like the instances, for exports
+  toLineSegments: () => THREE.LineSegments[];
+}
+
+const instanceAttributes = (capacity: number) => ({
+  buildingOffset: new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3), 3),
+  buildingScale: new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3), 3),
+  buildingTurn: new THREE.InstancedBufferAttribute(new Float32Array(capacity * 2), 2),
+  buildingColor: new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3), 3),
+  buildingFade: new THREE.InstancedBufferAttribute(new Float32Array(capacity * 2), 2),
+});
+
+type InstanceAttribute = keyof ReturnType<typeof instanceAttributes>;
+const INSTANCE_ATTRIBUTES = Object.keys(instanceAttributes(0)) as InstanceAttribute[];
+
+const seatHeight = (building: CityElementData, footprintRadius: number, ground: GroundHeightSampler) =>
+  groundHeightUnderFootprint(ground, building.position.x, building.position.z, footprintRadius)
+  + building.position.y + (building.dimensions.height || 0) / 2;
+
+export const createBuildingBatches = (ground: GroundHeightSampler, fadeDuration: number): BuildingBatches => {
+  const object = new THREE.Group();
+  const material = new THREE.ShaderMaterial({
+    vertexShader,
+    fragmentShader,
+    uniforms: {
+      time: { value: 0 },
+      fadeDuration: { value: fadeDuration },
+      solid: { value: 0 },
+      overrideColor: { value: new THREE.Color() },
+      overrideAmount: { value: 0 },
+    },
+    transparent: true,
+  });
+  const batches = new Map<string, Batch>();
+  const slots = new Map<string, Slot>();
+  const retiring = new Map<string, number>(); // Fade-out start by id
+  let currentGround = ground;
+  let time = 0;
+
+  const attributeOf = (batch: Batch, name: InstanceAttribute) =>
+    batch.lines.geometry.getAttribute(name) as THREE.InstancedBufferAttribute;
+
+  // Marks one instance of an attribute for upload
+  const touch = (attribute: THREE.InstancedBufferAttribute, index: number) => {
+    attribute.addUpdateRange(index * attribute.itemSize, attribute.itemSize);
+    attribute.needsUpdate = true;
+  };
+
+  // Three caps the instances drawn from a geometry at the size its attributes had
+  // when first drawn, so growing a batch means a new geometry.
+  const createInstancedGeometry = (edges: THREE.BufferGeometry, capacity: number) => {
+    const geometry = new THREE.InstancedBufferGeometry();
+    geometry.setAttribute('position', edges.getAttribute('position').clone());
+    Object.entries(instanceAttributes(capacity)).forEach(([name, attribute]) => geometry.setAttribute(name, attribute));
+    geometry.instanceCount = 0;
+    return geometry;
+  };
+
+  const batchFor = (template: BuildingTemplate): Batch => {
+    const existing = batches.get(template.key);
+    if (existing) return existing;
+    const edges = createTemplateEdgesGeometry(template);
+    const lines = new THREE.LineSegments(createInstancedGeometry(edges, INITIAL_CAPACITY), material);
+    lines.frustumCulled = false; // Bounds would have to cover every instance; the whole batch is drawn anyway
+    lines.visible = false;
+    const batch: Batch = { template, edges, lines, slots: [] };
+    batches.set(template.key, batch);
+    object.add(lines);
+    return batch;
+  };
+
+  // Moves every instance into a geometry twice the size; the old one is disposed
+  const grow = (batch: Batch) => {
+    const old = batch.lines.geometry as THREE.InstancedBufferGeometry;
+    const geometry = createInstancedGeometry(batch.edges, old.getAttribute('buildingFade').count * 2);
+    INSTANCE_ATTRIBUTES.forEach(name => {
+      (geometry.getAttribute(name).array as Float32Array).set(old.getAttribute(name).array as Float32Array);
+    });
+    geometry.instanceCount = old.instanceCount;
+    batch.lines.geometry = geometry;
+    old.dispose();
+  };
+
+  const writeSlot = (slot: Slot, fadeIn: number, fadeOut: number) => {
+    const { building, batch, index, color, footprintRadius } = slot;
+    const template = buildingTemplateOf(building);
+    attributeOf(batch, 'buildingOffset').setXYZ(index, building.position.x, seatHeight(building, footprintRadius, currentGround), building.position.z);
+    attributeOf(batch, 'buildingScale').setXYZ(index, ...template.scale);
+    attributeOf(batch, 'buildingTurn').setXY(index, building.orientationY ?? 0, template.twist);
+    attributeOf(batch, 'buildingColor').setXYZ(index, color.r, color.g, color.b);
+    attributeOf(batch, 'buildingFade').setXY(index, fadeIn, fadeOut);
+    INSTANCE_ATTRIBUTES.forEach(name => touch(attributeOf(batch, name), index));
+  };
+
+  // Fills the freed slot with the batch's last instance, keeping instances contiguous
+  const removeSlot = (slot: Slot) => {
+    const { batch, index } = slot;
+    const last = batch.slots.pop()!;
+    if (last !== slot) {
+      const fade = attributeOf(batch, 'buildingFade');
+      const [fadeIn, fadeOut] = [fade.getX(last.index), fade.getY(last.index)];
+      last.index = index;
+      batch.slots[index] = last;
+      writeSlot(last, fadeIn, fadeOut);
+    }
+    const geometry = batch.lines.geometry as THREE.InstancedBufferGeometry;
+    geometry.instanceCount = batch.slots.length;
+    batch.lines.visible = batch.slots.length > 0;
+  };
+
+  const remove = (id: string) => {
+    const slot = slots.get(id);
+    if (!slot) return;
+    removeSlot(slot);
+    slots.delete(id);
+    retiring.delete(id);
+  };
+
+  const set = (building: CityElementData, { color, footprintRadius, fadeIn }: BuildingStyle) => {
+    const batch = batchFor(buildingTemplateOf(building));
+    let slot = slots.get(building.id);
+    if (slot && slot.batch !== batch) { // Changed shape: moves to the other template's batch
+      remove(building.id);
+      slot = undefined;
+    }
+    if (!slot) {
+      if (batch.slots.length === attributeOf(batch, 'buildingFade').count) grow(batch);
+      slot = { building, batch, index: batch.slots.length, color: color.clone(), footprintRadius };
+      batch.slots.push(slot);
+      slots.set(building.id, slot);
+      (batch.lines.geometry as THREE.InstancedBufferGeometry).instanceCount = batch.slots.length;
+      batch.lines.visible = true;
+    }
+    slot.building = building;
+    slot.color.copy(color);
+    slot.footprintRadius = footprintRadius;
+    retiring.delete(building.id);
+    writeSlot(slot, fadeIn ? time : NOT_FADING_IN, NOT_FADING_OUT);
+  };
+
+  return {
+    object,
+    has: id => slots.has(id),
+    isFading: id => {
+      const slot = slots.get(id);
+      return !!slot && attributeOf(slot.batch, 'buildingFade').getX(slot.index) + fadeDuration > time;
+    },
+    set,
+    remove,
+    retire: id => {
+      const slot = slots.get(id);
+      if (!slot || retiring.has(id)) return;
+      retiring.set(id, time);
+      const fade = attributeOf(slot.batch, 'buildingFade');
+      fade.setY(slot.index, time);
+      touch(fade, slot.index);
+    },
+    clear: () => {
+      batches.forEach(batch => {
+        batch.lines.geometry.dispose();
+        batch.edges.dispose();
+      });
+      object.clear();
+      batches.clear();
+      slots.clear();
+      retiring.clear();
+    },
+    reseat: nextGround => {
+      currentGround = nextGround;
+      slots.forEach(slot => {
+        const { building, batch, index, footprintRadius } = slot;
+        attributeOf(batch, 'buildingOffset').setY(index, seatHeight(building, footprintRadius, currentGround));
+      });
+      batches.forEach(batch => {
+        const offsets = attributeOf(batch, 'buildingOffset');
+        offsets.clearUpdateRanges();
+        offsets.needsUpdate = true;
+      });
+    },
+    update: nextTime => {
+      time = nextTime;
+      material.uniforms.time.value = nextTime;
+      retiring.forEach((fadeOut, id) => {
+        if (fadeOut + fadeDuration <= time) remove(id);
+      });
+    },
+    setOverride: override => {
+      material.uniforms.solid.value = override ? 1 : 0;
+      material.uniforms.overrideAmount.value = override?.color ? 1 : 0;
+      if (override?.color) material.uniforms.overrideColor.value.copy(override.color);
+    },
+    toLineSegments: () => [...slots.values()].filter(({ building }) => !retiring.has(building.id)).map(({ building, batch, index, color }) => {
+      const segments = new THREE.LineSegments(createBuildingEdgesGeometry(building), new THREE.LineBasicMaterial({ color }));
+      const offset = attributeOf(batch, 'buildingOffset');
+      segments.position.set(offset.getX(index), offset.getY(index), offset.getZ(index));
+      segments.rotation.y = building.orientationY ?? 0;
+      segments.userData = { id: building.id };
+      return segments;
+    }),
+  };
+};
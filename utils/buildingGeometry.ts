@@ -0,0 +1,250 @@
+import * as THREE from 'three';
+import type { BuildingShape, CityElementData } from '../App';
+
+// Solid and edge geometry for every building shape. Each shape is built from
+// solid parts centred on the origin and spanning -height/2..height/2
+// vertically, which is how the renderer positions buildings; the wireframe is
+// the edges of those parts. Solids are only built for export. The renderer
+// draws unit-sized templates instead, stretched per building (see
+// buildingBatches.ts); every shape scales linearly with its dimensions, so
+// the result is the same wireframe.
+
+type Dimensions = CityElementData['dimensions'];
+type SolidBuilder = (dimensions: Dimensions) => THREE.BufferGeometry[] | null;
+type EdgeBuilder = (dimensions: Dimensions) => THREE.BufferGeometry | null;
+
+const ROUND_SEGMENTS = 16;
+const SPIRE_SEGMENTS = 6;
+const SPIRE_PLINTH_FRACTION = 0.25; // Share of the spire height taken by its plinth
+const SPIRE_NEEDLE_RADIUS_FRACTION = 0.6;
+const STEPPED_TIER_SHRINK = 0.7; // Footprint of the top tier relative to the base
+const TWISTED_FLOOR_COUNT = 8;
+const FALLBACK_CUBE_SIDE = 10;
+
+const edgesOf = (solid: THREE.BufferGeometry): THREE.BufferGeometry => {
+  const edges = new THREE.EdgesGeometry(solid);
+  solid.dispose();
+  return edges;
+};
+
+// Concatenates non-indexed line-segment geometries into one and disposes the parts.
+const mergeLineGeometries = (parts: THREE.BufferGeometry[]): THREE.BufferGeometry => {
+  const total = parts.reduce((sum, part) => sum + part.getAttribute('position').array.length, 0);
+  const positions = new Float32Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    const array = part.getAttribute('position').array;
+    positions.set(array, offset);
+    offset += array.length;
+    part.dispose();
+  }
+  const merged = new THREE.BufferGeometry();
+  merged.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  return merged;
+};
+
+const buildBox: SolidBuilder = ({ width, height, depth }) =>
+  width && depth ? [new THREE.BoxGeometry(width, height, depth)] : null;
+
+const buildCylinder: SolidBuilder = ({ radius, height }) =>
+  radius ? [new THREE.CylinderGeometry(radius, radius, height, ROUND_SEGMENTS, 1, false)] : null;
+
+// A four-sided cone turned 45 degrees has a unit square base when its radius is sqrt(1/2).
+const buildPyramid: SolidBuilder = ({ width, height, depth }) => {
+  if (!width || !depth) return null;
+  const solid = new THREE.ConeGeometry(Math.SQRT1_2, 1, 4, 1);
+  solid.rotateY(Math.PI / 4);
+  solid.scale(width, height, depth);
+  return [solid];
+};
+
+const buildSteppedTower: SolidBuilder = ({ width, height, depth, tierCount }) => {
+  if (!width || !depth || !tierCount) return null;
+  const tierHeight = height / tierCount;
+  const tiers: THREE.BufferGeometry[] = [];
+  for (let tier = 0; tier < tierCount; tier++) {
+    const scale = 1 - (1 - STEPPED_TIER_SHRINK) * (tier / Math.max(1, tierCount - 1));
+    const solid = new THREE.BoxGeometry(width * scale, tierHeight, depth * scale);
+    solid.translate(0, -height / 2 + tierHeight * (tier + 0.5), 0);
+    tiers.push(solid);
+  }
+  return tiers;
+};
+
+const buildCone: SolidBuilder = ({ radius, height }) =>
+  radius ? [new THREE.ConeGeometry(radius, height, ROUND_SEGMENTS, 1)] : null;
+
+// Half of a sphere, stretched vertically so its crown reaches `height`.
+const buildDome: SolidBuilder = ({ radius, height }) => {
+  if (!radius) return null;
+  const solid = new THREE.SphereGeometry(radius, ROUND_SEGMENTS, ROUND_SEGMENTS / 2, 0, Math.PI * 2, 0, Math.PI / 2);
+  solid.scale(1, height / radius, 1);
+  solid.translate(0, -height / 2, 0);
+  return [solid];
+};
+
+const buildSpire: SolidBuilder = ({ radius, height }) => {
+  if (!radius) return null;
+  const plinthHeight = height * SPIRE_PLINTH_FRACTION;
+  const plinth = new THREE.CylinderGeometry(radius, radius, plinthHeight, SPIRE_SEGMENTS, 1, false);
+  plinth.translate(0, -height / 2 + plinthHeight / 2, 0);
+  const needle = new THREE.ConeGeometry(radius * SPIRE_NEEDLE_RADIUS_FRACTION, height - plinthHeight, SPIRE_SEGMENTS, 1);
+  needle.translate(0, plinthHeight / 2, 0);
+  return [plinth, needle];
+};
+
+// Floor outlines rotate evenly from base to roof.
+const twistedFloorCorners = ({ width = 0, height, depth = 0, twistAngle = 0 }: Dimensions, floor: number): THREE.Vector3[] => {
+  const corners: [number, number][] = [[-width / 2, -depth / 2], [width / 2, -depth / 2], [width / 2, depth / 2], [-width / 2, depth / 2]];
+  const angle = twistAngle * (floor / TWISTED_FLOOR_COUNT);
+  const y = -height / 2 + height * (floor / TWISTED_FLOOR_COUNT);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return corners.map(([x, z]) => new THREE.Vector3(x * cos - z * sin, y, x * sin + z * cos));
+};
+
+// Four vertices per floor; each side between two floors is a pair of triangles, plus floor and roof caps.
+const buildTwistedTower: SolidBuilder = dimensions => {
+  const { width, depth, twistAngle } = dimensions;
+  if (!width || !depth || twistAngle === undefined) return null;
+  const points: THREE.Vector3[] = [];
+  for (let floor = 0; floor <= TWISTED_FLOOR_COUNT; floor++) points.push(...twistedFloorCorners(dimensions, floor));
+  const indices: number[] = [];
+  for (let floor = 0; floor < TWISTED_FLOOR_COUNT; floor++) {
+    for (let i = 0; i < 4; i++) {
+      const a = floor * 4 + i;
+      const b = floor * 4 + ((i + 1) % 4);
+      indices.push(a, a + 4, b, b, a + 4, b + 4);
+    }
+  }
+  const roof = TWISTED_FLOOR_COUNT * 4;
+  indices.push(0, 1, 2, 0, 2, 3, roof, roof + 2, roof + 1, roof, roof + 3, roof + 2);
+  const solid = new THREE.BufferGeometry().setFromPoints(points);
+  solid.setIndex(indices);
+  solid.computeVertexNormals();
+  return [solid];
+};
+
+// Each corner is joined to the same corner on the next floor, which traces the
+// helical edges; the edges of the triangulated solid would add its diagonals.
+const buildTwistedTowerEdges: EdgeBuilder = dimensions => {
+  const { width, depth, twistAngle } = dimensions;
+  if (!width || !depth || twistAngle === undefined) return null;
+  const points: THREE.Vector3[] = [];
+  let below = twistedFloorCorners(dimensions, 0);
+  for (let floor = 0; floor <= TWISTED_FLOOR_COUNT; floor++) {
+    const current = floor === 0 ? below : twistedFloorCorners(dimensions, floor);
+    current.forEach((corner, i) => points.push(corner, current[(i + 1) % current.length]));
+    if (floor > 0) current.forEach((corner, i) => points.push(below[i], corner));
+    below = current;
+  }
+  return new THREE.BufferGeometry().setFromPoints(points);
+};
+
+const SOLID_BUILDERS: Record<BuildingShape, SolidBuilder> = {
+  box: buildBox,
+  cylinder: buildCylinder,
+  pyramid: buildPyramid,
+  steppedTower: buildSteppedTower,
+  cone: buildCone,
+  dome: buildDome,
+  spire: buildSpire,
+  twistedTower: buildTwistedTower,
+};
+
+// Shapes whose wireframe is not simply the edges of their solid parts.
+const EDGE_BUILDERS: Partial<Record<BuildingShape, EdgeBuilder>> = {
+  twistedTower: buildTwistedTowerEdges,
+};
+
+// Falls back to a 10-unit cube when the shape is unknown or lacks its dimensions.
+const buildSolidParts = (elementData: CityElementData): THREE.BufferGeometry[] => {
+  const builder = SOLID_BUILDERS[elementData.shape] as SolidBuilder | undefined; // Cached or hand-edited data may carry other shapes
+  const parts = builder && elementData.dimensions.height ? builder(elementData.dimensions) : null;
+  return parts ?? [new THREE.BoxGeometry(FALLBACK_CUBE_SIDE, FALLBACK_CUBE_SIDE, FALLBACK_CUBE_SIDE)];
+};
+
+export const createBuildingEdgesGeometry = (elementData: CityElementData): THREE.BufferGeometry => {
+  const edgeBuilder = EDGE_BUILDERS[elementData.shape];
+  const edges = edgeBuilder && elementData.dimensions.height ? edgeBuilder(elementData.dimensions) : null;
+  if (edges) return edges;
+  const parts = buildSolidParts(elementData).map(edgesOf);
+  return parts.length === 1 ? parts[0] : mergeLineGeometries(parts);
+};
+
+// A building as an instance of a unit template: the template's wireframe,
+// scaled along x, y and z, then twisted about its axis from base to roof.
+export interface BuildingTemplate {
+  key: string; // Buildings with the same key share the template's geometry
+  shape: BuildingShape;
+  unit: Dimensions; // The template's own dimensions
+  scale: [number, number, number];
+  twist: number; // Radians at the roof; twisted towers only
+}
+
+const UNIT_BLOCK: Dimensions = { width: 1, height: 1, depth: 1 };
+const UNIT_ROUND: Dimensions = { radius: 1, height: 1 };
+
+const blockTemplate = (shape: BuildingShape) => ({ width, height, depth }: Dimensions): BuildingTemplate | null =>
+  width && depth ? { key: shape, shape, unit: UNIT_BLOCK, scale: [width, height, depth], twist: 0 } : null;
+
+const roundTemplate = (shape: BuildingShape) => ({ radius, height }: Dimensions): BuildingTemplate | null =>
+  radius ? { key: shape, shape, unit: UNIT_ROUND, scale: [radius, height, radius], twist: 0 } : null;
+
+// Tier count and twist do not scale: stepped towers get a template per tier
+// count, and twisted towers are twisted by the renderer's shader.
+const TEMPLATES: Record<BuildingShape, (dimensions: Dimensions) => BuildingTemplate | null> = {
+  box: blockTemplate('box'),
+  cylinder: roundTemplate('cylinder'),
+  pyramid: blockTemplate('pyramid'),
+  steppedTower: ({ width, height, depth, tierCount }) => width && depth && tierCount
+    ? { key: `steppedTower:${tierCount}`, shape: 'steppedTower', unit: { ...UNIT_BLOCK, tierCount }, scale: [width, height, depth], twist: 0 }
+    : null,
+  cone: roundTemplate('cone'),
+  dome: roundTemplate('dome'),
+  spire: roundTemplate('spire'),
+  twistedTower: ({ width, height, depth, twistAngle }) => width && depth && twistAngle !== undefined
+    ? { key: 'twistedTower', shape: 'twistedTower', unit: { ...UNIT_BLOCK, twistAngle: 0 }, scale: [width, height, depth], twist: twistAngle }
+    : null,
+};
+
+const FALLBACK_TEMPLATE: BuildingTemplate = {
+  key: 'box',
+  shape: 'box',
+  unit: UNIT_BLOCK,
+  scale: [FALLBACK_CUBE_SIDE, FALLBACK_CUBE_SIDE, FALLBACK_CUBE_SIDE],
+  twist: 0,
+};
+
+// Falls back to the 10-unit cube, like the geometry builders.
+export const buildingTemplateOf = (elementData: CityElementData): BuildingTemplate => {
+  const template = TEMPLATES[elementData.shape] as ((dimensions: Dimensions) => BuildingTemplate | null) | undefined;
+  return (template && elementData.dimensions.height ? template(elementData.dimensions) : null) ?? FALLBACK_TEMPLATE;
+};
+
+export const createTemplateEdgesGeometry = ({ shape, unit }: BuildingTemplate): THREE.BufferGeometry =>
+  createBuildingEdgesGeometry({ id: 'template', type: 'building', shape, position: { x: 0, y: 0, z: 0 }, dimensions: unit });
+
+// Triangle mesh of the building, non-indexed with positions and normals only, so parts of any shape merge.
+export const createBuildingSolidGeometry = (elementData: CityElementData): THREE.BufferGeometry => {
+  const parts = buildSolidParts(elementData).map(part => {
+    const triangles = part.index ? part.toNonIndexed() : part;
+    if (triangles !== part) part.dispose();
+    if (!triangles.getAttribute('normal')) triangles.computeVertexNormals();
+    return triangles;
+  });
+  const total = parts.reduce((sum, part) => sum + part.getAttribute('position').array.length, 0);
+  const positions = new Float32Array(total);
+  const normals = new Float32Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    positions.set(part.getAttribute('position').array, offset);
+    normals.set(part.getAttribute('normal').array, offset);
+    offset += part.getAttribute('position').array.length;
+    part.dispose();
+  }
+  const solid = new THREE.BufferGeometry();
+  solid.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  solid.setAttribute('normal', new THREE.BufferAttribute(normals, 3));
+  return solid;
+};
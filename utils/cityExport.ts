@@ -0,0 +1,102 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { OBJExporter } from 'three/examples/jsm/exporters/OBJExporter.js';
+import type { CityElementData } from '../App';
+import { createBuildingSolidGeometry } from './buildingGeometry';
+
+// Copies the world on screen into a standalone scene for modelling tools. Each
+// building becomes a node named after its id, holding a solid mesh and the
+// same edge lines the renderer draws; roads become line nodes named after
+// theirs. Positions come from the rendered objects, so buildings stay seated
+// on the terrain as they appear.
+
+export type CityExportFormat = 'glb' | 'obj';
+
+export interface CityExportResult {
+  blob: Blob;
+  buildings: number;
+  roads: number;
+}
+
+const SOLID_COLOR = 0x000000; // Black solids behind coloured edges, like the screen
+
+const buildExportScene = (group: THREE.Group, buildingsById: Map<string, CityElementData>, frustum: THREE.Frustum | null) => {
+  const scene = new THREE.Scene();
+  scene.name = 'city';
+  const roadsNode = new THREE.Group();
+  roadsNode.name = 'roads';
+  const solidMaterial = new THREE.MeshStandardMaterial({ name: 'building_solid', color: SOLID_COLOR });
+  // One edge material per colour on screen; districts dim their wireframes
+  const edgeMaterials = new Map<string, THREE.LineBasicMaterial>();
+  const edgeMaterialOf = (segments: THREE.LineSegments): THREE.LineBasicMaterial => {
+    const hex = (segments.material as THREE.LineBasicMaterial).color.getHexString();
+    if (!edgeMaterials.has(hex)) edgeMaterials.set(hex, new THREE.LineBasicMaterial({ name: `edges_${hex}`, color: `#${hex}` }));
+    return edgeMaterials.get(hex)!;
+  };
+  let buildings = 0;
+  let roads = 0;
+
+  group.children.forEach(child => {
+    if (!(child instanceof THREE.LineSegments)) return;
+    if (frustum && !frustum.intersectsObject(child)) return;
+    const id: string = child.userData.id;
+    if (child.userData.isRoad) {
+      const road = new THREE.LineSegments(child.geometry.clone(), edgeMaterialOf(child));
+      road.name = id;
+      roadsNode.add(road);
+      roads++;
+      return;
+    }
+    const data = buildingsById.get(id);
+    if (!data) return; // Only buildings the world knows about have data to build a solid from
+    const node = new THREE.Group();
+    node.name = id;
+    node.position.copy(child.position);
+    node.rotation.copy(child.rotation);
+    node.userData = { shape: data.shape, ...(data.districtId && { districtId: data.districtId }) }; // glTF extras
+    const solid = new THREE.Mesh(createBuildingSolidGeometry(data), solidMaterial);
+    solid.name = `${id}_solid`;
+    const edges = new THREE.LineSegments(child.geometry.clone(), edgeMaterialOf(child));
+    edges.name = `${id}_edges`;
+    node.add(solid, edges);
+    scene.add(node);
+    buildings++;
+  });
+  if (roadsNode.children.length > 0) scene.add(roadsNode);
+  return { scene, buildings, roads };
+};
+
+const disposeScene = (scene: THREE.Scene) => {
+  scene.traverse(object => {
+    if (object instanceof THREE.Mesh || object instanceof THREE.LineSegments) {
+      object.geometry.dispose();
+      (object.material as THREE.Material).dispose(); // Shared materials tolerate repeated disposal
+    }
+  });
+};
+
+// `camera` limits the export to what it currently sees; null exports the whole world.
+export const exportCityGeometry = async (
+  group: THREE.Group,
+  buildingsById: Map<string, CityElementData>,
+  format: CityExportFormat,
+  camera: THREE.Camera | null,
+): Promise<CityExportResult> => {
+  let frustum: THREE.Frustum | null = null;
+  if (camera) {
+    camera.updateMatrixWorld();
+    frustum = new THREE.Frustum().setFromProjectionMatrix(
+      new THREE.Matrix4().multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse),
+    );
+  }
+  group.updateMatrixWorld();
+  const { scene, buildings, roads } = buildExportScene(group, buildingsById, frustum);
+  try {
+    const blob = format === 'glb'
+      ? new Blob([await new GLTFExporter().parseAsync(scene, { binary: true }) as ArrayBuffer], { type: 'model/gltf-binary' })
+      : new Blob([new OBJExporter().parse(scene)], { type: 'text/plain' });
+    return { blob, buildings, roads };
+  } finally {
+    disposeScene(scene);
+  }
+};
@@ -0,0 +1,83 @@
+// Layout of the LP cover: the record label hole and the typography around it.
+// Shared by the PNG capture (drawn on a canvas) and the SVG export, so both
+// covers carry the same text in the same places. All measures are in pixels
+// of a square cover `size` wide.
+
+export interface CoverText {
+  text: string;
+  x: number;
+  y: number;
+  fontSize: number;
+  align: 'left' | 'center' | 'right';
+  baseline: 'top' | 'bottom';
+  glow: number; // Blur radius of the text's glow on the raster cover
+}
+
+export interface CoverRule {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CoverLayout {
+  size: number;
+  hole: { cx: number; cy: number; radius: number; ringWidth: number }; // The label, drawn in white lines
+  texts: CoverText[];
+  rules: CoverRule[];
+}
+
+export const COVER_FONT_FAMILY = "'VT323', monospace";
+export const COVER_RING_COLOR = '#181818';
+export const COVER_LABEL_LINE_COLOR = '#ffffff';
+
+const SCALE_FACTOR = 1.2;
+
+export const layoutCover = (size: number, citySeed: string): CoverLayout => {
+  const texts: CoverText[] = [];
+  const rules: CoverRule[] = [];
+
+  const centerX = size / 2;
+  const margin = Math.max(Math.round(15 * SCALE_FACTOR), Math.floor(size / (75 / SCALE_FACTOR)));
+  const titleGlow = Math.max(Math.round(4 * SCALE_FACTOR), Math.floor(size / (150 / SCALE_FACTOR)));
+  let currentY = margin;
+
+  const aeonlightsFontSize = Math.max(Math.round(16 * SCALE_FACTOR), Math.floor(size * 0.018 * SCALE_FACTOR));
+  texts.push({ text: 'AEONLIGHTS', x: centerX, y: currentY, fontSize: aeonlightsFontSize, align: 'center', baseline: 'top', glow: titleGlow });
+  currentY += aeonlightsFontSize * 1.2;
+
+  currentY += Math.max(Math.round(3 * SCALE_FACTOR), Math.floor(size / (150 / SCALE_FACTOR)));
+  const ruleWidth = size * (0.12 * SCALE_FACTOR);
+  const ruleHeight = Math.max(1, Math.round(Math.max(1, Math.floor(size / 400)) * SCALE_FACTOR));
+  rules.push({ x: centerX - ruleWidth / 2, y: currentY, width: ruleWidth, height: ruleHeight });
+  currentY += ruleHeight;
+  currentY += Math.max(Math.round(5 * SCALE_FACTOR), Math.floor(size / (120 / SCALE_FACTOR)));
+
+  const futureCitiesFontSize = Math.max(Math.round(30 * SCALE_FACTOR), Math.floor(size * 0.04 * SCALE_FACTOR));
+  texts.push({ text: 'FUTURE CITIES', x: centerX, y: currentY, fontSize: futureCitiesFontSize, align: 'center', baseline: 'top', glow: titleGlow });
+
+  const overlayFontSize = Math.max(Math.round(10 * SCALE_FACTOR), Math.floor(size * 0.012 * SCALE_FACTOR));
+  const overlayGlow = Math.max(Math.round(1.5 * SCALE_FACTOR), Math.floor(size / (400 / SCALE_FACTOR)));
+  const overlayMargin = Math.max(Math.round(10 * SCALE_FACTOR), Math.floor(size * 0.015));
+  const textLineHeight = overlayFontSize * 1.2;
+  const overlay = (lines: string[], x: number, align: CoverText['align']) => {
+    lines.forEach((text, i) => {
+      texts.push({ text, x, y: size - overlayMargin - i * textLineHeight, fontSize: overlayFontSize, align, baseline: 'bottom', glow: overlayGlow });
+    });
+  };
+  // Bottom line first, stacking upwards. The seed lets the cover be regenerated exactly via ?seed=
+  overlay(['LABEL: ELPIDA MUSIC', 'RELEASE DATE: 20/6/2025', `CITY SEED: ${citySeed}`.toUpperCase()], overlayMargin, 'left');
+  overlay(['CODE BY AEONLIGHTS', 'YOUR VIRTUAL LP COVER'], size - overlayMargin, 'right');
+
+  return {
+    size,
+    hole: {
+      cx: size / 2,
+      cy: size / 2,
+      radius: size * 0.264 * 0.7,
+      ringWidth: Math.max(2, Math.round(size * 0.008)),
+    },
+    texts,
+    rules,
+  };
+};
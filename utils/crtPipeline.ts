@@ -0,0 +1,184 @@
+import * as THREE from 'three';
+import { isCrtActive, type CrtSettings } from './crtSettings';
+
+// Draws the scene as a CRT would show it. The scene is rendered into a
+// target; phosphor persistence keeps the brighter of each new frame and the
+// fading one before it, and a final full-screen pass bends the picture, splits
+// its colours, lays scanlines and the shadow mask over it and darkens the
+// corners. With every effect off the scene is rendered straight to the
+// screen. Scanline and mask spacing is in CSS pixels, so a capture at pixel
+// ratio 1 shows the same pattern the screen does.
+
+const SCANLINE_PERIOD = 3; // CSS pixels from one scanline to the next
+const MAX_PERSISTENCE = 0.92; // Share of the last frame's glow kept at full strength
+const TARGET_SAMPLES = 4; // Multisampling for the scene target, which the renderer's antialias does not reach
+
+const passVertexShader = `
+  varying vec2 vUv;
+  void main() {
+    vUv = uv;
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+  }
+`;
+
+const persistenceFragmentShader = `
+  uniform sampler2D current;
+  uniform sampler2D previous;
+  uniform float decay;
+  varying vec2 vUv;
+
+  void main() {
+    gl_FragColor = max(texture2D(current, vUv), texture2D(previous, vUv) * decay);
+  }
+`;
+
+const crtFragmentShader = `
+  uniform sampler2D image;
+  uniform vec2 resolution; // Drawing buffer pixels
+  uniform float pixelRatio;
+  uniform float scanlines;
+  uniform float barrel;
+  uniform float vignette;
+  uniform float aberration;
+  uniform float shadowMask;
+  varying vec2 vUv;
+
+  void main() {
+    vec2 centred = vUv - 0.5;
+    vec2 uv = vUv + centred * dot(centred, centred) * barrel * 0.6;
+    if (uv.x < 0.0 || uv.x > 1.0 || uv.y < 0.0 || uv.y > 1.0) {
+      gl_FragColor = vec4(0.0, 0.0, 0.0, 1.0);
+      return;
+    }
+
+    // Red and blue land either side of green, further apart towards the edges
+    vec2 shift = (uv - 0.5) * aberration * 0.012 + vec2(aberration * 1.5 * pixelRatio / resolution.x, 0.0);
+    vec4 centre = texture2D(image, uv);
+    vec3 color = vec3(texture2D(image, uv + shift).r, centre.g, texture2D(image, uv - shift).b);
+
+    vec2 cssPixel = uv * resolution / pixelRatio;
+    float line = 0.5 + 0.5 * cos(6.2831853 * cssPixel.y / ${SCANLINE_PERIOD.toFixed(1)});
+    color *= mix(1.0, line, scanlines * 0.7);
+
+    // Aperture grille: each column lets one primary through, brightened to make up the loss
+    float column = floor(mod(cssPixel.x, 3.0));
+    vec3 mask = vec3(column == 0.0 ? 1.0 : 0.0, column == 1.0 ? 1.0 : 0.0, column == 2.0 ? 1.0 : 0.0);
+    color *= mix(vec3(1.0), mask * 0.65 + 0.35, shadowMask * 0.8) * (1.0 + shadowMask * 0.5);
+
+    float corners = clamp(uv.x * uv.y * (1.0 - uv.x) * (1.0 - uv.y) * 16.0, 0.0, 1.0);
+    color *= pow(corners, vignette * 0.6);
+
+    gl_FragColor = vec4(color, centre.a);
+    #include <colorspace_fragment>
+  }
+`;
+
+export interface CrtPipeline {
+  render: (scene: THREE.Scene, camera: THREE.Camera) => void; // Draws one frame to the renderer's canvas
+  setSize: () => void; // After the renderer's size or pixel ratio changes
+  setSettings: (settings: CrtSettings) => void;
+  dispose: () => void; // Frees the pipeline's targets and materials, not the renderer
+}
+
+export const createCrtPipeline = (renderer: THREE.WebGLRenderer, initialSettings: CrtSettings): CrtPipeline => {
+  const size = renderer.getDrawingBufferSize(new THREE.Vector2());
+  const targetOptions = { type: THREE.HalfFloatType };
+  const sceneTarget = new THREE.WebGLRenderTarget(size.x, size.y, { ...targetOptions, samples: TARGET_SAMPLES });
+  let glow = new THREE.WebGLRenderTarget(size.x, size.y, targetOptions); // Persistence result of the last frame
+  let nextGlow = new THREE.WebGLRenderTarget(size.x, size.y, targetOptions);
+  let glowIsStale = true; // The last frame's glow was not kept, or is the wrong size
+
+  const persistenceMaterial = new THREE.ShaderMaterial({
+    vertexShader: passVertexShader,
+    fragmentShader: persistenceFragmentShader,
+    uniforms: {
+      current: { value: sceneTarget.texture },
+      previous: { value: null },
+      decay: { value: 0 },
+    },
+    depthTest: false,
+    depthWrite: false,
+  });
+  const crtMaterial = new THREE.ShaderMaterial({
+    vertexShader: passVertexShader,
+    fragmentShader: crtFragmentShader,
+    uniforms: {
+      image: { value: null },
+      resolution: { value: size.clone() },
+      pixelRatio: { value: renderer.getPixelRatio() },
+      scanlines: { value: 0 },
+      barrel: { value: 0 },
+      vignette: { value: 0 },
+      aberration: { value: 0 },
+      shadowMask: { value: 0 },
+    },
+    depthTest: false,
+    depthWrite: false,
+  });
+
+  // One full-screen triangle pair, drawn with whichever pass material is current
+  const quad = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), crtMaterial);
+  quad.frustumCulled = false;
+  const passCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1);
+
+  let settings = initialSettings;
+  const setSettings = (next: CrtSettings) => {
+    settings = next;
+    const uniforms = crtMaterial.uniforms;
+    uniforms.scanlines.value = next.scanlines;
+    uniforms.barrel.value = next.barrel;
+    uniforms.vignette.value = next.vignette;
+    uniforms.aberration.value = next.chromaticAberration;
+    uniforms.shadowMask.value = next.shadowMask;
+    persistenceMaterial.uniforms.decay.value = next.persistence * MAX_PERSISTENCE;
+  };
+  setSettings(initialSettings);
+
+  const drawPass = (material: THREE.ShaderMaterial, target: THREE.WebGLRenderTarget | null) => {
+    quad.material = material;
+    renderer.setRenderTarget(target);
+    renderer.render(quad, passCamera);
+  };
+
+  return {
+    render: (scene, camera) => {
+      if (!isCrtActive(settings)) {
+        glowIsStale = true;
+        renderer.render(scene, camera);
+        return;
+      }
+      renderer.setRenderTarget(sceneTarget);
+      renderer.render(scene, camera);
+
+      if (settings.persistence > 0) {
+        if (glowIsStale) {
+          renderer.setRenderTarget(glow);
+          renderer.clear();
+          glowIsStale = false;
+        }
+        persistenceMaterial.uniforms.previous.value = glow.texture;
+        drawPass(persistenceMaterial, nextGlow);
+        [glow, nextGlow] = [nextGlow, glow];
+        crtMaterial.uniforms.image.value = glow.texture;
+      } else {
+        glowIsStale = true;
+        crtMaterial.uniforms.image.value = sceneTarget.texture;
+      }
+      drawPass(crtMaterial, null);
+    },
+    setSize: () => {
+      renderer.getDrawingBufferSize(size);
+      [sceneTarget, glow, nextGlow].forEach(target => target.setSize(size.x, size.y));
+      crtMaterial.uniforms.resolution.value.copy(size);
+      crtMaterial.uniforms.pixelRatio.value = renderer.getPixelRatio();
+      glowIsStale = true;
+    },
+    setSettings,
+    dispose: () => {
+      [sceneTarget, glow, nextGlow].forEach(target => target.dispose());
+      persistenceMaterial.dispose();
+      crtMaterial.dispose();
+      quad.geometry.dispose();
+    },
+  };
+};
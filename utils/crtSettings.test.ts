@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CRT_PRESETS, DEFAULT_CRT_SETTINGS, crtPresetOf, cycleCrtPreset, isCrtActive, parseCrtSettings, withCrtStrength,
+} from './crtSettings';
+
+describe('CRT settings', () => {
+  it('steps strengths within 0..1 and lands back on presets exactly', () => {
+    const arcade = CRT_PRESETS.find(preset => preset.id === 'arcade')!.settings;
+    let settings = arcade;
+    for (let i = 0; i < 3; i++) settings = withCrtStrength(settings, 'scanlines', settings.scanlines + 0.1);
+    expect(settings.scanlines).toBe(1);
+    expect(crtPresetOf(settings)).toBeNull();
+    for (let i = 0; i < 2; i++) settings = withCrtStrength(settings, 'scanlines', settings.scanlines - 0.1);
+    expect(crtPresetOf(settings)?.id).toBe('arcade');
+    expect(withCrtStrength(settings, 'barrel', -0.3).barrel).toBe(0);
+  });
+
+  it('cycles presets in both directions, starting custom settings from the ends', () => {
+    expect(cycleCrtPreset(CRT_PRESETS[0].settings, -1)).toBe(CRT_PRESETS[CRT_PRESETS.length - 1]);
+    expect(cycleCrtPreset(CRT_PRESETS[0].settings, 1)).toBe(CRT_PRESETS[1]);
+    const custom = withCrtStrength(DEFAULT_CRT_SETTINGS, 'shadowMask', 0.9);
+    expect(cycleCrtPreset(custom, 1)).toBe(CRT_PRESETS[0]);
+    expect(cycleCrtPreset(custom, -1)).toBe(CRT_PRESETS[CRT_PRESETS.length - 1]);
+    expect(isCrtActive(CRT_PRESETS[0].settings)).toBe(false);
+    expect(isCrtActive(custom)).toBe(true);
+  });
+
+  it('takes malformed stored strengths from the default', () => {
+    expect(parseCrtSettings(null)).toEqual(DEFAULT_CRT_SETTINGS);
+    const parsed = parseCrtSettings({ scanlines: 2, vignette: 'dark', persistence: 0.44, barrel: Number.NaN });
+    expect(parsed).toEqual({ ...DEFAULT_CRT_SETTINGS, scanlines: 1, persistence: 0.4 });
+  });
+});
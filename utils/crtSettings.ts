@@ -0,0 +1,81 @@
+// How strongly each CRT effect is applied to the 3D view and its cover
+// capture, from 0 (off) to 1, and the presets the monitor cycles through.
+// The settings are remembered in local storage; presets are matched by value,
+// so hand-tuned strengths that land on a preset show under its name.
+
+const CRT_SETTINGS_STORAGE_KEY = 'futureCities.crtSettings';
+
+export const CRT_EFFECTS = ['scanlines', 'persistence', 'barrel', 'vignette', 'chromaticAberration', 'shadowMask'] as const;
+export type CrtEffect = typeof CRT_EFFECTS[number];
+export type CrtSettings = Record<CrtEffect, number>;
+
+export const CRT_EFFECT_LABELS: Record<CrtEffect, string> = {
+  scanlines: 'SCANLINES',
+  persistence: 'PHOSPHOR',
+  barrel: 'CURVE',
+  vignette: 'VIGNETTE',
+  chromaticAberration: 'FRINGE',
+  shadowMask: 'MASK',
+};
+
+export const CRT_STRENGTH_STEP = 0.1;
+
+export interface CrtPreset {
+  id: string;
+  name: string;
+  settings: CrtSettings;
+}
+
+export const CRT_PRESETS: CrtPreset[] = [
+  { id: 'off', name: 'OFF', settings: { scanlines: 0, persistence: 0, barrel: 0, vignette: 0, chromaticAberration: 0, shadowMask: 0 } },
+  { id: 'monitor', name: 'MONITOR', settings: { scanlines: 0.3, persistence: 0.2, barrel: 0.2, vignette: 0.3, chromaticAberration: 0.1, shadowMask: 0 } },
+  { id: 'television', name: 'HOME TV', settings: { scanlines: 0.5, persistence: 0.4, barrel: 0.5, vignette: 0.6, chromaticAberration: 0.3, shadowMask: 0.3 } },
+  { id: 'arcade', name: 'ARCADE', settings: { scanlines: 0.8, persistence: 0.3, barrel: 0.3, vignette: 0.4, chromaticAberration: 0.2, shadowMask: 0.6 } },
+  { id: 'worn', name: 'WORN TUBE', settings: { scanlines: 0.6, persistence: 0.8, barrel: 0.6, vignette: 0.8, chromaticAberration: 0.7, shadowMask: 0.2 } },
+];
+
+export const DEFAULT_CRT_SETTINGS = CRT_PRESETS[1].settings;
+
+// Clamped to 0..1 and snapped to the strength step, so stepping up and down returns to presets exactly
+const toStrength = (value: number) =>
+  Math.round(Math.max(0, Math.min(1, value)) / CRT_STRENGTH_STEP) / Math.round(1 / CRT_STRENGTH_STEP);
+
+export const withCrtStrength = (settings: CrtSettings, effect: CrtEffect, strength: number): CrtSettings =>
+  ({ ...settings, [effect]: toStrength(strength) });
+
+export const isCrtActive = (settings: CrtSettings) => CRT_EFFECTS.some(effect => settings[effect] > 0);
+
+export const crtPresetOf = (settings: CrtSettings): CrtPreset | null =>
+  CRT_PRESETS.find(preset => CRT_EFFECTS.every(effect => preset.settings[effect] === settings[effect])) ?? null;
+
+// The preset `step` places on from the current settings; custom settings step from before the first preset
+export const cycleCrtPreset = (settings: CrtSettings, step: number): CrtPreset => {
+  const current = crtPresetOf(settings);
+  const index = current ? CRT_PRESETS.indexOf(current) : (step > 0 ? -1 : 0);
+  return CRT_PRESETS[(index + step + CRT_PRESETS.length) % CRT_PRESETS.length];
+};
+
+// Stored settings, with missing or malformed strengths taken from the default
+export const parseCrtSettings = (stored: unknown): CrtSettings => {
+  const record = typeof stored === 'object' && stored !== null ? stored as Record<string, unknown> : {};
+  return Object.fromEntries(CRT_EFFECTS.map(effect => {
+    const value = record[effect];
+    return [effect, typeof value === 'number' && Number.isFinite(value) ? toStrength(value) : DEFAULT_CRT_SETTINGS[effect]];
+  })) as CrtSettings;
+};
+
+export const readCrtSettings = (): CrtSettings => {
+  try {
+    return parseCrtSettings(JSON.parse(window.localStorage.getItem(CRT_SETTINGS_STORAGE_KEY) ?? 'null'));
+  } catch {
+    return { ...DEFAULT_CRT_SETTINGS };
+  }
+};
+
+export const writeCrtSettings = (settings: CrtSettings) => {
+  try {
+    window.localStorage.setItem(CRT_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage can be unavailable (private mode); the settings then last for this session only
+  }
+};
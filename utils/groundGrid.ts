@@ -0,0 +1,65 @@
+import * as THREE from 'three';
+import type { GroundHeightSampler } from './terrain';
+
+// Synthwave ground grid that follows the camera. The grid snaps to whole cells
+// as it moves, so its lines stay fixed in the world and the ground appears to
+// scroll endlessly; vertex heights are resampled only when it snaps.
+
+const GRID_CELL_SIZE = 40;
+const GRID_HALF_CELLS = 32; // 2560 units across, past the camera's far plane when centred ahead of it
+const GRID_BRIGHTNESS = 0.35; // Relative to the city colour, so buildings stay in front visually
+
+export interface GroundGrid {
+  lines: THREE.LineSegments;
+  // Re-centres the grid near (x, z); cheap when neither the cell nor the terrain changed.
+  update: (x: number, z: number, ground: GroundHeightSampler) => void;
+}
+
+export const createGroundGrid = (cityColor: THREE.Color): GroundGrid => {
+  const lineCount = GRID_HALF_CELLS * 2 + 1;
+  const segmentsPerLine = GRID_HALF_CELLS * 2;
+  // Two directions x lines x segments x 2 vertices x 3 components
+  const positions = new Float32Array(2 * lineCount * segmentsPerLine * 2 * 3);
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  const material = new THREE.LineBasicMaterial({ color: cityColor.clone().multiplyScalar(GRID_BRIGHTNESS) });
+  const lines = new THREE.LineSegments(geometry, material);
+  lines.frustumCulled = false; // Bounds change every snap; the grid is always in view anyway
+
+  let centreCellX: number | null = null;
+  let centreCellZ: number | null = null;
+  let lastGround: GroundHeightSampler | null = null;
+
+  const update = (x: number, z: number, ground: GroundHeightSampler) => {
+    const cellX = Math.round(x / GRID_CELL_SIZE);
+    const cellZ = Math.round(z / GRID_CELL_SIZE);
+    if (cellX === centreCellX && cellZ === centreCellZ && ground === lastGround) return;
+    centreCellX = cellX;
+    centreCellZ = cellZ;
+    lastGround = ground;
+
+    const originX = (cellX - GRID_HALF_CELLS) * GRID_CELL_SIZE;
+    const originZ = (cellZ - GRID_HALF_CELLS) * GRID_CELL_SIZE;
+    let offset = 0;
+    const pushVertex = (vx: number, vz: number) => {
+      positions[offset++] = vx;
+      positions[offset++] = ground(vx, vz);
+      positions[offset++] = vz;
+    };
+    for (let line = 0; line < lineCount; line++) {
+      for (let segment = 0; segment < segmentsPerLine; segment++) {
+        // Line running along X at a fixed Z...
+        const fixedZ = originZ + line * GRID_CELL_SIZE;
+        pushVertex(originX + segment * GRID_CELL_SIZE, fixedZ);
+        pushVertex(originX + (segment + 1) * GRID_CELL_SIZE, fixedZ);
+        // ...and its counterpart running along Z at a fixed X.
+        const fixedX = originX + line * GRID_CELL_SIZE;
+        pushVertex(fixedX, originZ + segment * GRID_CELL_SIZE);
+        pushVertex(fixedX, originZ + (segment + 1) * GRID_CELL_SIZE);
+      }
+    }
+    geometry.attributes.position.needsUpdate = true;
+  };
+
+  return { lines, update };
+};
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { createJsonStreamParser } from './jsonStream';
+
+// Feeds `text` in pieces of `size` characters and collects what the parser reports.
+const parseInPieces = (text: string, size: number) => {
+  const events: unknown[][] = [];
+  const parser = createJsonStreamParser({
+    onProperty: (key, value) => events.push(['property', key, value]),
+    onElement: (key, element, index) => events.push(['element', key, index, element]),
+  });
+  for (let start = 0; start < text.length; start += size) parser.push(text.slice(start, start + size));
+  return events;
+};
+
+const CITY = JSON.stringify({
+  sky: { topColor: '#000022', horizonColor: '#ff00cc' },
+  name: 'A "quoted" {city}, [with] brackets \\ and escapes',
+  count: 2,
+  ok: true,
+  buildings: [
+    { id: 'bld_001', position: { x: 1, z: -2 }, tags: ['a', '}'] },
+    { id: 'bld_002', position: { x: 3, z: -4 }, tags: [] },
+  ],
+  nothing: null,
+});
+
+const EXPECTED = [
+  ['property', 'sky', { topColor: '#000022', horizonColor: '#ff00cc' }],
+  ['property', 'name', 'A "quoted" {city}, [with] brackets \\ and escapes'],
+  ['property', 'count', 2],
+  ['property', 'ok', true],
+  ['element', 'buildings', 0, { id: 'bld_001', position: { x: 1, z: -2 }, tags: ['a', '}'] }],
+  ['element', 'buildings', 1, { id: 'bld_002', position: { x: 3, z: -4 }, tags: [] }],
+  ['property', 'buildings', JSON.parse(CITY).buildings],
+  ['property', 'nothing', null],
+];
+
+describe('createJsonStreamParser', () => {
+  it('reports properties and array elements as they close', () => {
+    expect(parseInPieces(CITY, CITY.length)).toEqual(EXPECTED);
+  });
+
+  it('gives the same result however the text is split', () => {
+    [1, 2, 7, 64].forEach(size => expect(parseInPieces(CITY, size)).toEqual(EXPECTED));
+  });
+
+  it('reports an element before the rest of the text arrives', () => {
+    const text = JSON.stringify({ buildings: [{ id: 'a' }, { id: 'b' }] });
+    const cut = text.indexOf('{"id":"b"');
+    expect(parseInPieces(text.slice(0, cut), 4)).toEqual([['element', 'buildings', 0, { id: 'a' }]]);
+  });
+
+  it('copes with whitespace and skips text around the object', () => {
+    const fenced = '```json\n{\n  "roads" : [ { "id": "r1" } ] ,\n  "count" : 3\n}\n```';
+    expect(parseInPieces(fenced, 5)).toEqual([
+      ['element', 'roads', 0, { id: 'r1' }],
+      ['property', 'roads', [{ id: 'r1' }]],
+      ['property', 'count', 3],
+    ]);
+  });
+
+  it('skips values that do not parse and carries on', () => {
+    expect(parseInPieces('{"buildings": [{"id": tru}, {"id": "b"}], "count": 1}', 3)).toEqual([
+      ['element', 'buildings', 1, { id: 'b' }],
+      ['property', 'count', 1],
+    ]);
+  });
+});
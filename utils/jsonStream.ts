@@ -0,0 +1,136 @@
+// Incremental reader for a JSON object that arrives in pieces, as a streamed
+// model answer does. It reports each top-level property once its value is
+// complete and, inside top-level arrays, each object or array element as soon
+// as it closes, so the buildings of a landscape can be used while the model is
+// still writing the rest. Text before the first '{' (a code fence, say) and
+// after the object closes is ignored. Values that do not parse are skipped;
+// the caller validates the complete text as usual once it has arrived.
+
+export interface JsonStreamHandlers {
+  onProperty?: (key: string, value: unknown) => void;
+  onElement?: (key: string, element: unknown, index: number) => void;
+}
+
+export interface JsonStreamParser {
+  push: (text: string) => void;
+}
+
+const WHITESPACE = /\s/;
+
+export const createJsonStreamParser = ({ onProperty, onElement }: JsonStreamHandlers): JsonStreamParser => {
+  let text = '';
+  let scanned = 0;
+  let started = false;
+  let finished = false;
+  let depth = 0; // Open objects and arrays, the outer object included
+  let inString = false;
+  let escaped = false;
+
+  // State of the outer object's current member
+  let expectingKey = false;
+  let keyStart = -1;
+  let key: string | null = null;
+  let awaitingValue = false; // Between ':' and the value's first character
+  let valueStart = -1;
+  let valueIsArray = false;
+  let elementStart = -1;
+  let elementIndex = 0;
+
+  const parse = (from: number, to: number): { ok: true; value: unknown } | { ok: false } => {
+    try {
+      return { ok: true, value: JSON.parse(text.slice(from, to)) };
+    } catch {
+      return { ok: false };
+    }
+  };
+
+  // Ends the current member; primitives end at the ',' or '}' that follows them.
+  const closeValue = (end: number) => {
+    if (key !== null && valueStart >= 0) {
+      const parsed = parse(valueStart, end);
+      if (parsed.ok) onProperty?.(key, parsed.value);
+    }
+    key = null;
+    valueStart = -1;
+    valueIsArray = false;
+  };
+
+  const scan = (i: number) => {
+    const ch = text[i];
+    if (!started) {
+      if (ch !== '{') return;
+      started = true;
+      depth = 1;
+      expectingKey = true;
+      return;
+    }
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') {
+        inString = false;
+        if (depth === 1 && keyStart >= 0) {
+          const parsed = parse(keyStart, i + 1);
+          key = parsed.ok ? String(parsed.value) : null;
+          keyStart = -1;
+        }
+      }
+      return;
+    }
+
+    if (depth === 1 && awaitingValue && !WHITESPACE.test(ch)) {
+      awaitingValue = false;
+      valueStart = i;
+      valueIsArray = ch === '[';
+      elementIndex = 0;
+    }
+
+    switch (ch) {
+      case '"':
+        inString = true;
+        if (depth === 1 && expectingKey) {
+          expectingKey = false;
+          keyStart = i;
+        }
+        break;
+      case ':':
+        if (depth === 1) awaitingValue = true;
+        break;
+      case ',':
+        if (depth === 1) {
+          if (valueStart >= 0) closeValue(i);
+          expectingKey = true;
+        }
+        break;
+      case '{':
+      case '[':
+        if (depth === 2 && valueIsArray) elementStart = i;
+        depth++;
+        break;
+      case '}':
+      case ']':
+        depth--;
+        if (depth === 2 && valueIsArray && elementStart >= 0) {
+          const parsed = parse(elementStart, i + 1);
+          if (parsed.ok && key !== null) onElement?.(key, parsed.value, elementIndex);
+          elementIndex++;
+          elementStart = -1;
+        } else if (depth === 1) {
+          closeValue(i + 1);
+        } else if (depth === 0) {
+          if (valueStart >= 0) closeValue(i);
+          finished = true;
+        }
+        break;
+    }
+  };
+
+  const push = (piece: string) => {
+    if (finished) return;
+    text += piece;
+    for (; scanned < text.length && !finished; scanned++) scan(scanned);
+  };
+
+  return { push };
+};
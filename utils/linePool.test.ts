@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { createLinePool, copyDrawnLines } from './linePool';
+
+const points = (count: number) => Array.from({ length: count }, (_, i) => new THREE.Vector3(i, 0, -i));
+const green = new THREE.Color(0x00ff00);
+
+describe('createLinePool', () => {
+  it('hands released line objects to the next road that fits', () => {
+    const pool = createLinePool();
+    const small = pool.acquire(points(40), green);
+    const large = pool.acquire(points(300), green);
+    pool.release(large);
+    pool.release(small);
+    expect(pool.acquire(points(50), green)).toBe(small);
+    expect(pool.acquire(points(100), green)).toBe(large);
+    expect(pool.pooled()).toBe(0);
+  });
+
+  it('draws only the road\'s own vertices and resets its fade', () => {
+    const pool = createLinePool();
+    const lines = pool.acquire(points(100), green);
+    (lines.material as THREE.LineBasicMaterial).opacity = 0.2;
+    pool.release(lines);
+    const reused = pool.acquire(points(10), new THREE.Color(0xff0000));
+    expect(reused.geometry.drawRange.count).toBe(10);
+    expect((reused.material as THREE.LineBasicMaterial).opacity).toBe(1);
+    expect(reused.geometry.boundingSphere!.radius).toBeLessThan(7);
+    expect(copyDrawnLines(reused).geometry.getAttribute('position').count).toBe(10);
+  });
+
+  it('grows a buffer that is rewritten with more vertices', () => {
+    const pool = createLinePool();
+    const lines = pool.acquire(points(10), green);
+    pool.rewrite(lines, points(200));
+    expect(lines.geometry.drawRange.count).toBe(200);
+    expect(lines.geometry.getAttribute('position').count).toBeGreaterThanOrEqual(200);
+  });
+});
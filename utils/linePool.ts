@@ -0,0 +1,104 @@
+import * as THREE from 'three';
+
+// Reusable line objects for roads, whose vertex counts differ. A released
+// object keeps its material and its vertex buffer; the next road that fits in
+// the buffer takes it over and only rewrites the vertices, so streaming roads
+// in and retiring them stops allocating once the pool has warmed up. Vertices
+// past the draw range repeat the first one, so bounds stay tight.
+
+const MIN_CAPACITY = 64; // Vertices; buffers grow in powers of two from here
+const MAX_POOLED = 256; // Released objects kept for reuse; more are disposed
+
+export interface LinePool {
+  // A line object drawing `points` as segment pairs, in the given colour
+  acquire: (points: THREE.Vector3[], color: THREE.Color) => THREE.LineSegments;
+  rewrite: (lines: THREE.LineSegments, points: THREE.Vector3[]) => void; // Same object, new vertices
+  release: (lines: THREE.LineSegments) => void; // Detach it from the scene first
+  pooled: () => number;
+  dispose: () => void; // Frees everything pooled
+}
+
+const capacityOf = (lines: THREE.LineSegments) => lines.geometry.getAttribute('position').count;
+
+const createGeometry = (vertexCount: number) => {
+  let capacity = MIN_CAPACITY;
+  while (capacity < vertexCount) capacity *= 2;
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(capacity * 3), 3));
+  return geometry;
+};
+
+const writePoints = (geometry: THREE.BufferGeometry, points: THREE.Vector3[]) => {
+  const positions = geometry.getAttribute('position') as THREE.BufferAttribute;
+  const first = points[0] ?? new THREE.Vector3();
+  for (let i = 0; i < positions.count; i++) {
+    const point = points[i] ?? first;
+    positions.setXYZ(i, point.x, point.y, point.z);
+  }
+  positions.needsUpdate = true;
+  geometry.setDrawRange(0, points.length);
+  geometry.computeBoundingSphere();
+};
+
+export const createLinePool = (): LinePool => {
+  const free: THREE.LineSegments[] = [];
+
+  const disposeLines = (lines: THREE.LineSegments) => {
+    lines.geometry.dispose();
+    (lines.material as THREE.Material).dispose();
+  };
+
+  const rewrite = (lines: THREE.LineSegments, points: THREE.Vector3[]) => {
+    if (capacityOf(lines) < points.length) {
+      lines.geometry.dispose();
+      lines.geometry = createGeometry(points.length);
+    }
+    writePoints(lines.geometry, points);
+  };
+
+  return {
+    acquire: (points, color) => {
+      // The smallest free buffer that holds the points
+      let best = -1;
+      free.forEach((lines, i) => {
+        if (capacityOf(lines) >= points.length && (best < 0 || capacityOf(lines) < capacityOf(free[best]))) best = i;
+      });
+      const lines = best >= 0
+        ? free.splice(best, 1)[0]
+        : new THREE.LineSegments(createGeometry(points.length), new THREE.LineBasicMaterial());
+      const material = lines.material as THREE.LineBasicMaterial;
+      material.color.copy(color);
+      material.opacity = 1;
+      material.transparent = false;
+      lines.userData = {};
+      rewrite(lines, points);
+      return lines;
+    },
+    rewrite,
+    release: lines => {
+      if (free.length < MAX_POOLED) free.push(lines);
+      else disposeLines(lines);
+    },
+    pooled: () => free.length,
+    dispose: () => {
+      free.forEach(disposeLines);
+      free.length = 0;
+    },
+  };
+};
+
+// A standalone copy of the segments `lines` draws, sharing its material, for
+// exporters that read every vertex of a geometry.
+export const copyDrawnLines = (lines: THREE.LineSegments): THREE.LineSegments => {
+  const positions = lines.geometry.getAttribute('position');
+  const { start, count } = lines.geometry.drawRange;
+  const end = Math.min(positions.count, start + count);
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute((positions.array as Float32Array).slice(start * 3, end * 3), 3));
+  const copy = new THREE.LineSegments(geometry, lines.material);
+  copy.name = lines.name;
+  copy.userData = { ...lines.userData };
+  copy.position.copy(lines.position);
+  copy.rotation.copy(lines.rotation);
+  return copy;
+};
@@ -0,0 +1,328 @@
+import * as THREE from 'three';
+import type { CityElementData } from '../App';
+import { createBuildingSolidGeometry } from './buildingGeometry';
+import { layoutCover, COVER_FONT_FAMILY, COVER_LABEL_LINE_COLOR, COVER_RING_COLOR, type CoverLayout } from './coverLayout';
+
+// Draws the camera's view as vector lines for pen plotters. Building solids
+// are rasterised into a software depth buffer; every building and road edge is
+// then walked in steps of a pixel and only the stretches in front of that
+// buffer are kept, so lines behind nearer buildings disappear. The square view
+// and the typography are those of the LP cover, and edges inside the record
+// label turn white as they do there.
+
+export interface PlotterSvgOptions {
+  size: number; // Width and height of the square drawing, in SVG user units
+  citySeed: string;
+  color: string; // City colour for the typography
+  // Chain touching lines into polylines and order them to shorten pen-up
+  // travel; also leaves out the black background, which no pen should draw
+  plotter: boolean;
+}
+
+export interface PlotterSvgResult {
+  blob: Blob;
+  paths: number; // Pen strokes in the drawing
+}
+
+interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+type Polyline = ScreenPoint[];
+
+const SAMPLE_STEP = 1; // Pixels between visibility samples along an edge
+const DEPTH_BIAS = 0.002; // Relative depth slack, so edges are not hidden by their own faces
+const MERGE_TOLERANCE = 0.5; // Pixels between endpoints that count as touching
+const LABEL_LAYER = 'label';
+
+const touches = (a: ScreenPoint, b: ScreenPoint) => Math.hypot(a.x - b.x, a.y - b.y) <= MERGE_TOLERANCE;
+
+// Clip-space vertex: x, y, z, w after the view and projection matrices.
+type ClipVertex = THREE.Vector4;
+
+const lerpClip = (a: ClipVertex, b: ClipVertex, t: number) => a.clone().lerp(b, t);
+
+// Sutherland-Hodgman against the near plane (w >= near), the only plane that
+// has to be clipped before dividing by w; the others are handled per pixel.
+const clipPolygonToNear = (polygon: ClipVertex[], near: number): ClipVertex[] => {
+  const result: ClipVertex[] = [];
+  polygon.forEach((current, i) => {
+    const previous = polygon[(i + polygon.length - 1) % polygon.length];
+    const currentIn = current.w >= near;
+    const previousIn = previous.w >= near;
+    if (currentIn !== previousIn) result.push(lerpClip(previous, current, (near - previous.w) / (current.w - previous.w)));
+    if (currentIn) result.push(current);
+  });
+  return result;
+};
+
+const clipSegmentToNear = (a: ClipVertex, b: ClipVertex, near: number): [ClipVertex, ClipVertex] | null => {
+  if (a.w < near && b.w < near) return null;
+  if (a.w < near) return [lerpClip(a, b, (near - a.w) / (b.w - a.w)), b];
+  if (b.w < near) return [a, lerpClip(a, b, (near - a.w) / (b.w - a.w))];
+  return [a, b];
+};
+
+// Screen position in pixels (y down) and 1/w, which is affine across the
+// screen and grows towards the camera.
+const toScreen = (v: ClipVertex, size: number) => ({
+  x: (v.x / v.w * 0.5 + 0.5) * size,
+  y: (0.5 - v.y / v.w * 0.5) * size,
+  invW: 1 / v.w,
+});
+
+const createDepthBuffer = (size: number) => {
+  const depth = new Float32Array(size * size); // 1/w of the nearest solid; 0 where there is none
+
+  const rasterizeTriangle = (a: ClipVertex, b: ClipVertex, c: ClipVertex, near: number) => {
+    const polygon = clipPolygonToNear([a, b, c], near).map(v => toScreen(v, size));
+    for (let i = 1; i + 1 < polygon.length; i++) {
+      const [p0, p1, p2] = [polygon[0], polygon[i], polygon[i + 1]];
+      const area = (p1.x - p0.x) * (p2.y - p0.y) - (p2.x - p0.x) * (p1.y - p0.y);
+      if (Math.abs(area) < 1e-9) continue;
+      const minX = Math.max(0, Math.floor(Math.min(p0.x, p1.x, p2.x)));
+      const maxX = Math.min(size - 1, Math.ceil(Math.max(p0.x, p1.x, p2.x)));
+      const minY = Math.max(0, Math.floor(Math.min(p0.y, p1.y, p2.y)));
+      const maxY = Math.min(size - 1, Math.ceil(Math.max(p0.y, p1.y, p2.y)));
+      for (let y = minY; y <= maxY; y++) {
+        const py = y + 0.5;
+        for (let x = minX; x <= maxX; x++) {
+          const px = x + 0.5;
+          const w0 = ((p1.x - px) * (p2.y - py) - (p2.x - px) * (p1.y - py)) / area;
+          const w1 = ((p2.x - px) * (p0.y - py) - (p0.x - px) * (p2.y - py)) / area;
+          const w2 = 1 - w0 - w1;
+          if (w0 < 0 || w1 < 0 || w2 < 0) continue;
+          const invW = w0 * p0.invW + w1 * p1.invW + w2 * p2.invW;
+          const index = y * size + x;
+          if (invW > depth[index]) depth[index] = invW;
+        }
+      }
+    }
+  };
+
+  // A point is hidden only if every pixel around it holds a nearer solid;
+  // the neighbours forgive the half pixel between an edge and its faces.
+  const isVisible = (x: number, y: number, invW: number): boolean => {
+    const cx = Math.floor(x);
+    const cy = Math.floor(y);
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const px = Math.min(size - 1, Math.max(0, cx + dx));
+        const py = Math.min(size - 1, Math.max(0, cy + dy));
+        if (invW >= depth[py * size + px] * (1 - DEPTH_BIAS)) return true;
+      }
+    }
+    return false;
+  };
+
+  return { rasterizeTriangle, isVisible };
+};
+
+const toClip = (positions: THREE.BufferAttribute | THREE.InterleavedBufferAttribute, index: number, matrix: THREE.Matrix4): ClipVertex =>
+  new THREE.Vector4(positions.getX(index), positions.getY(index), positions.getZ(index), 1).applyMatrix4(matrix);
+
+// The visible stretches of every edge, filed by the layer (pen colour) they are drawn with.
+const traceVisibleLines = (
+  group: THREE.Group,
+  buildingsById: Map<string, CityElementData>,
+  camera: THREE.PerspectiveCamera,
+  cover: CoverLayout,
+): Map<string, Polyline[]> => {
+  const { size, hole } = cover;
+  const viewProjection = new THREE.Matrix4().multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+  const frustum = new THREE.Frustum().setFromProjectionMatrix(viewProjection);
+  const inView = group.children.filter((child): child is THREE.LineSegments =>
+    child instanceof THREE.LineSegments && frustum.intersectsObject(child));
+
+  const depthBuffer = createDepthBuffer(size);
+  inView.forEach(child => {
+    const data = buildingsById.get(child.userData.id);
+    if (child.userData.isRoad || !data) return; // Roads lie on the ground and hide nothing
+    const solid = createBuildingSolidGeometry(data);
+    const matrix = viewProjection.clone().multiply(child.matrixWorld);
+    const positions = solid.getAttribute('position');
+    for (let i = 0; i + 2 < positions.count; i += 3) {
+      depthBuffer.rasterizeTriangle(toClip(positions, i, matrix), toClip(positions, i + 1, matrix), toClip(positions, i + 2, matrix), camera.near);
+    }
+    solid.dispose();
+  });
+
+  const layers = new Map<string, Polyline[]>();
+  const emit = (layer: string, from: ScreenPoint, to: ScreenPoint) => {
+    if (touches(from, to)) return; // A glimpse between buildings too short to draw
+    if (!layers.has(layer)) layers.set(layer, []);
+    layers.get(layer)!.push([from, to]);
+  };
+  const layerAt = (x: number, y: number, color: string) =>
+    Math.hypot(x - hole.cx, y - hole.cy) < hole.radius ? LABEL_LAYER : color;
+
+  inView.forEach(child => {
+    const color = `#${(child.material as THREE.LineBasicMaterial).color.getHexString()}`;
+    const matrix = viewProjection.clone().multiply(child.matrixWorld);
+    const positions = child.geometry.getAttribute('position');
+    for (let i = 0; i + 1 < positions.count; i += 2) {
+      const clipped = clipSegmentToNear(toClip(positions, i, matrix), toClip(positions, i + 1, matrix), camera.near);
+      if (!clipped) continue;
+      const a = toScreen(clipped[0], size);
+      const b = toScreen(clipped[1], size);
+      const steps = Math.max(1, Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / SAMPLE_STEP));
+      let run: { layer: string; from: ScreenPoint; to: ScreenPoint } | null = null;
+      for (let s = 0; s <= steps; s++) {
+        const t = s / steps;
+        const x = a.x + (b.x - a.x) * t;
+        const y = a.y + (b.y - a.y) * t;
+        const visible = x >= 0 && x <= size && y >= 0 && y <= size
+          && depthBuffer.isVisible(x, y, a.invW + (b.invW - a.invW) * t);
+        const layer = visible ? layerAt(x, y, color) : null;
+        if (run && run.layer !== layer) {
+          emit(run.layer, run.from, run.to);
+          run = null;
+        }
+        if (layer) {
+          if (run) run.to = { x, y };
+          else run = { layer, from: { x, y }, to: { x, y } };
+        }
+      }
+      if (run) emit(run.layer, run.from, run.to);
+    }
+  });
+  return layers;
+};
+
+// Chains lines that share an endpoint into polylines, so the pen stays down
+// along a building's outline instead of lifting at every corner.
+const mergePolylines = (lines: Polyline[]): Polyline[] => {
+  const cellKey = (point: ScreenPoint) => `${Math.round(point.x / MERGE_TOLERANCE)},${Math.round(point.y / MERGE_TOLERANCE)}`;
+  const byEndpoint = new Map<string, Set<number>>();
+  const file = (point: ScreenPoint, index: number) => {
+    const key = cellKey(point);
+    if (!byEndpoint.has(key)) byEndpoint.set(key, new Set());
+    byEndpoint.get(key)!.add(index);
+  };
+  lines.forEach((line, index) => {
+    file(line[0], index);
+    file(line[line.length - 1], index);
+  });
+  const used = new Set<number>();
+  const takeTouching = (point: ScreenPoint): Polyline | null => {
+    const [cx, cy] = cellKey(point).split(',').map(Number);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (const index of byEndpoint.get(`${cx + dx},${cy + dy}`) ?? []) {
+          if (used.has(index)) continue;
+          const line = lines[index];
+          if (touches(line[0], point)) { used.add(index); return line.slice(1); }
+          if (touches(line[line.length - 1], point)) { used.add(index); return line.slice(0, -1).reverse(); }
+        }
+      }
+    }
+    return null;
+  };
+
+  const merged: Polyline[] = [];
+  lines.forEach((line, index) => {
+    if (used.has(index)) return;
+    used.add(index);
+    const polyline = [...line];
+    for (let next = takeTouching(polyline[polyline.length - 1]); next; next = takeTouching(polyline[polyline.length - 1])) {
+      polyline.push(...next);
+    }
+    for (let previous = takeTouching(polyline[0]); previous; previous = takeTouching(polyline[0])) {
+      polyline.unshift(...previous.reverse());
+    }
+    merged.push(polyline);
+  });
+  return merged;
+};
+
+// Greedy nearest neighbour: each stroke starts at whichever end of the
+// remaining strokes is closest to where the pen last lifted.
+const orderPolylines = (polylines: Polyline[]): Polyline[] => {
+  const remaining = [...polylines];
+  const ordered: Polyline[] = [];
+  let pen: ScreenPoint = { x: 0, y: 0 };
+  while (remaining.length > 0) {
+    let best = 0;
+    let bestDistance = Infinity;
+    let reverse = false;
+    remaining.forEach((polyline, index) => {
+      const toStart = Math.hypot(polyline[0].x - pen.x, polyline[0].y - pen.y);
+      const end = polyline[polyline.length - 1];
+      const toEnd = Math.hypot(end.x - pen.x, end.y - pen.y);
+      if (toStart < bestDistance) { best = index; bestDistance = toStart; reverse = false; }
+      if (toEnd < bestDistance) { best = index; bestDistance = toEnd; reverse = true; }
+    });
+    const [next] = remaining.splice(best, 1);
+    const stroke = reverse ? [...next].reverse() : next;
+    ordered.push(stroke);
+    pen = stroke[stroke.length - 1];
+  }
+  return ordered;
+};
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const pathData = (polylines: Polyline[]) =>
+  polylines.map(polyline =>
+    polyline.map((point, i) => `${i === 0 ? 'M' : 'L'}${formatNumber(point.x)} ${formatNumber(point.y)}`).join(''),
+  ).join('');
+
+// Inkscape layers, which plotter tools (AxiDraw, vpype) plot one pen at a time.
+const layerGroup = (label: string, attributes: string, content: string) =>
+  `<g inkscape:groupmode="layer" inkscape:label="${escapeXml(label)}" ${attributes}>${content}</g>`;
+
+const TEXT_ANCHORS = { left: 'start', center: 'middle', right: 'end' } as const;
+const TEXT_BASELINES = { top: 'text-before-edge', bottom: 'text-after-edge' } as const;
+
+const typographyLayer = (cover: CoverLayout, color: string) => {
+  const rules = cover.rules.map(rule =>
+    `<rect x="${formatNumber(rule.x)}" y="${formatNumber(rule.y)}" width="${formatNumber(rule.width)}" height="${formatNumber(rule.height)}"/>`);
+  const texts = cover.texts.map(text =>
+    `<text x="${formatNumber(text.x)}" y="${formatNumber(text.y)}" font-size="${text.fontSize}" text-anchor="${TEXT_ANCHORS[text.align]}" dominant-baseline="${TEXT_BASELINES[text.baseline]}">${escapeXml(text.text)}</text>`);
+  return layerGroup('typography', `fill="${color}" font-family="${escapeXml(COVER_FONT_FAMILY)}" font-weight="bold"`, [...rules, ...texts].join(''));
+};
+
+// `camera` is the live view; it is copied and squared like the cover, not changed.
+export const exportPlotterSvg = (
+  group: THREE.Group,
+  buildingsById: Map<string, CityElementData>,
+  camera: THREE.PerspectiveCamera,
+  options: PlotterSvgOptions,
+): PlotterSvgResult => {
+  const view = camera.clone();
+  view.aspect = 1;
+  view.updateProjectionMatrix();
+  view.updateMatrixWorld();
+  group.updateMatrixWorld();
+
+  const cover = layoutCover(options.size, options.citySeed);
+  const layers = traceVisibleLines(group, buildingsById, view, cover);
+  let paths = 0;
+  const lineLayers = [...layers.entries()]
+    .sort(([a], [b]) => (a === LABEL_LAYER ? 1 : b === LABEL_LAYER ? -1 : a.localeCompare(b))) // The label's white pen last
+    .map(([layer, lines]) => {
+      const polylines = options.plotter ? orderPolylines(mergePolylines(lines)) : lines;
+      paths += polylines.length;
+      const stroke = layer === LABEL_LAYER ? COVER_LABEL_LINE_COLOR : layer;
+      return layerGroup(layer, `fill="none" stroke="${stroke}" stroke-width="1" stroke-linecap="round" stroke-linejoin="round"`, `<path d="${pathData(polylines)}"/>`);
+    });
+
+  const { size, hole } = cover;
+  const svg = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">`,
+    `<title>Future Cities ${escapeXml(options.citySeed)}</title>`,
+    options.plotter ? '' : layerGroup('background', 'fill="#000000"', `<rect width="${size}" height="${size}"/>`),
+    ...lineLayers,
+    layerGroup('label ring', `fill="none" stroke="${COVER_RING_COLOR}" stroke-width="${hole.ringWidth}"`,
+      `<circle cx="${formatNumber(hole.cx)}" cy="${formatNumber(hole.cy)}" r="${formatNumber(hole.radius)}"/>`),
+    typographyLayer(cover, options.color),
+    '</svg>',
+  ].filter(Boolean).join('\n');
+
+  return { blob: new Blob([svg], { type: 'image/svg+xml' }), paths: paths + 1 }; // The ring is a stroke too
+};
@@ -0,0 +1,63 @@
+import * as THREE from 'three';
+import type { RoadData } from '../App';
+import { FLAT_GROUND, type GroundHeightSampler } from './terrain';
+
+// Ground lines for a road: both kerbs, plus a centre line on avenues so the
+// hierarchy reads at a glance. Geometry is in world coordinates and drapes
+// over the terrain.
+
+const ROAD_SURFACE_Y = 0.1; // Just above the ground so kerbs never z-fight with it
+const MAX_MITER_SCALE = 4; // Caps the kerb offset at sharp bends
+const DRAPE_STEP = 20; // Longest straight piece of kerb, so roads follow the relief
+
+// Offsets the polyline sideways by `distance`, joining segments with mitres.
+const offsetPolyline = (points: RoadData['points'], distance: number): THREE.Vector3[] => {
+  const normals = points.slice(0, -1).map((a, i) => {
+    const b = points[i + 1];
+    const length = Math.hypot(b.x - a.x, b.z - a.z) || 1;
+    return { x: -(b.z - a.z) / length, z: (b.x - a.x) / length };
+  });
+  return points.map((point, i) => {
+    const before = normals[Math.max(0, i - 1)];
+    const after = normals[Math.min(normals.length - 1, i)];
+    let nx = before.x + after.x;
+    let nz = before.z + after.z;
+    const length = Math.hypot(nx, nz) || 1;
+    nx /= length;
+    nz /= length;
+    const cosHalfAngle = nx * after.x + nz * after.z;
+    const scale = Math.min(MAX_MITER_SCALE, 1 / Math.max(1e-3, cosHalfAngle));
+    return new THREE.Vector3(point.x + nx * distance * scale, 0, point.z + nz * distance * scale);
+  });
+};
+
+// Splits each piece of the line into DRAPE_STEP-long segments laid on the ground.
+const drapeSegments = (line: THREE.Vector3[], ground: GroundHeightSampler): THREE.Vector3[] => {
+  const segments: THREE.Vector3[] = [];
+  const onGround = (x: number, z: number) => new THREE.Vector3(x, ground(x, z) + ROAD_SURFACE_Y, z);
+  line.slice(0, -1).forEach((start, i) => {
+    const end = line[i + 1];
+    const steps = Math.max(1, Math.ceil(Math.hypot(end.x - start.x, end.z - start.z) / DRAPE_STEP));
+    for (let step = 0; step < steps; step++) {
+      const t0 = step / steps;
+      const t1 = (step + 1) / steps;
+      segments.push(
+        onGround(start.x + (end.x - start.x) * t0, start.z + (end.z - start.z) * t0),
+        onGround(start.x + (end.x - start.x) * t1, start.z + (end.z - start.z) * t1),
+      );
+    }
+  });
+  return segments;
+};
+
+// Vertex pairs of every line segment, in world coordinates.
+export const roadLinePoints = (road: RoadData, ground: GroundHeightSampler = FLAT_GROUND): THREE.Vector3[] => {
+  const segments = [
+    ...drapeSegments(offsetPolyline(road.points, road.width / 2), ground),
+    ...drapeSegments(offsetPolyline(road.points, -road.width / 2), ground),
+  ];
+  if (road.kind === 'avenue') {
+    segments.push(...drapeSegments(road.points.map(p => new THREE.Vector3(p.x, 0, p.z)), ground));
+  }
+  return segments;
+};
@@ -0,0 +1,48 @@
+// Deterministic random number helpers. Every random choice that shapes a city
+// (layout, cluster spawning, prompt seeds) goes through these, so a city seed
+// always reproduces the same world.
+
+const SEED_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const SEED_LENGTH = 8;
+const MAX_SEED_LENGTH = 32;
+
+// FNV-1a, folded to an unsigned 32-bit integer.
+export const hashSeed = (seed: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: small, fast and good enough for procedural placement.
+export const createSeededRandom = (seed: string): (() => number) => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Derives an independent seed for a sub-stream, e.g. one cluster of a city.
+export const deriveSeed = (seed: string, ...parts: (string | number)[]): string => [seed, ...parts].join(':');
+
+// The only place a fresh seed is drawn from Math.random.
+export const generateCitySeed = (): string => {
+  let seed = '';
+  for (let i = 0; i < SEED_LENGTH; i++) {
+    seed += SEED_ALPHABET[Math.floor(Math.random() * SEED_ALPHABET.length)];
+  }
+  return seed;
+};
+
+// Returns null for input that cannot be used as a seed.
+export const normalizeCitySeed = (input: string | null | undefined): string | null => {
+  if (!input) return null;
+  const seed = input.trim().toUpperCase().slice(0, MAX_SEED_LENGTH);
+  return seed.length > 0 ? seed : null;
+};
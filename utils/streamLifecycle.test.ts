@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { createStreamLifecycle, streamedRoad, type StreamedItem } from './streamLifecycle';
+
+// Looks level down -Z from above the origin, so the view reaches the far plane
+const camera = () => {
+  const cam = new THREE.PerspectiveCamera(60, 1, 0.1, 2000);
+  cam.position.set(0, 50, 0);
+  cam.lookAt(0, 50, -300);
+  return cam;
+};
+
+const building = (id: string, x: number, z: number): StreamedItem => ({ id, kind: 'building', x, z, radius: 20 });
+
+describe('createStreamLifecycle', () => {
+  it('retires clusters far out of view and past the far plane, and keeps the rest', () => {
+    const lifecycle = createStreamLifecycle();
+    lifecycle.track('ahead', [building('a', 0, -1500)]); // Far but in view
+    lifecycle.track('behind-near', [building('b', 0, 600)]); // Out of view but close enough to turn back to
+    lifecycle.track('behind-far', [building('c', 0, 1500), building('d', 100, 1500)]);
+    lifecycle.track('beside-far', [building('e', 1500, 0)]);
+    lifecycle.track('past-far-plane', [building('f', 0, -2500)]);
+    const sweep = lifecycle.sweep(camera(), 0)!;
+    expect(sweep.clustersGone.sort()).toEqual(['behind-far', 'beside-far', 'past-far-plane']);
+    expect(sweep.retired.map(item => item.id).sort()).toEqual(['c', 'd', 'e', 'f']);
+    expect(lifecycle.size()).toBe(2);
+  });
+
+  it('sweeps at most once per interval', () => {
+    const lifecycle = createStreamLifecycle({ sweepInterval: 0.5 });
+    expect(lifecycle.sweep(camera(), 1)).not.toBeNull();
+    expect(lifecycle.sweep(camera(), 1.2)).toBeNull();
+    expect(lifecycle.sweep(camera(), 1.5)).not.toBeNull();
+  });
+
+  it('keeps a cluster while any of it could still be seen', () => {
+    const lifecycle = createStreamLifecycle();
+    lifecycle.track('straddling', [building('a', 0, 1500), building('b', 0, -500)]);
+    lifecycle.track('empty', []); // Everything it sent was dropped on placement
+    expect(lifecycle.sweep(camera(), 0)!.clustersGone).toEqual(['empty']);
+    expect(lifecycle.size()).toBe(2);
+  });
+
+  it('bounds roads by their points and width', () => {
+    const road = streamedRoad({ id: 'r', kind: 'street', width: 8, points: [{ x: -100, z: 0 }, { x: 100, z: 0 }] });
+    expect(road).toEqual({ id: 'r', kind: 'road', x: 0, z: 0, radius: 108 });
+  });
+});
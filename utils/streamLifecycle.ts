@@ -0,0 +1,113 @@
+import * as THREE from 'three';
+import type { CityElementData, RoadData } from '../App';
+
+// Keeps a long flight's world bounded. Every streamed building and road is
+// tracked by a bounding sphere, under the cluster it came with; a sweep, a
+// couple of times a second, retires whole clusters once every item in them is
+// far from the camera and outside its view, or past its far plane. A cluster
+// is therefore either standing or gone, and can be loaded again as it was.
+
+const DEFAULT_RETIRE_DISTANCE = 1200; // Nearer than this, items stay even out of view, so a quick turn finds them
+const DEFAULT_SWEEP_INTERVAL = 0.5; // Seconds between sweeps
+
+export interface StreamedItem {
+  id: string;
+  kind: 'building' | 'road';
+  x: number;
+  z: number;
+  radius: number; // Bounds the item around (x, 0, z)
+}
+
+export interface LifecycleSweep {
+  retired: StreamedItem[]; // No longer tracked
+  clustersGone: string[]; // The clusters they belonged to
+}
+
+export interface StreamLifecycle {
+  track: (clusterId: string, items: StreamedItem[]) => void; // Replaces what was tracked under the cluster
+  // Retires what the camera has left behind; null until the next sweep is due
+  sweep: (camera: THREE.PerspectiveCamera, time: number) => LifecycleSweep | null;
+  clear: () => void;
+  size: () => number; // Items tracked
+}
+
+// Bounds a building by its footprint and its roof
+export const streamedBuilding = (building: CityElementData, footprintRadius: number): StreamedItem => ({
+  id: building.id,
+  kind: 'building',
+  x: building.position.x,
+  z: building.position.z,
+  radius: Math.hypot(footprintRadius, building.position.y + (building.dimensions.height || 0)),
+});
+
+export const streamedRoad = (road: RoadData): StreamedItem => {
+  const xs = road.points.map(point => point.x);
+  const zs = road.points.map(point => point.z);
+  const [minX, maxX, minZ, maxZ] = [Math.min(...xs), Math.max(...xs), Math.min(...zs), Math.max(...zs)];
+  return {
+    id: road.id,
+    kind: 'road',
+    x: (minX + maxX) / 2,
+    z: (minZ + maxZ) / 2,
+    radius: Math.hypot(maxX - minX, maxZ - minZ) / 2 + road.width,
+  };
+};
+
+export interface StreamLifecycleOptions {
+  retireDistance?: number;
+  sweepInterval?: number;
+}
+
+export const createStreamLifecycle = ({
+  retireDistance = DEFAULT_RETIRE_DISTANCE,
+  sweepInterval = DEFAULT_SWEEP_INTERVAL,
+}: StreamLifecycleOptions = {}): StreamLifecycle => {
+  const clusters = new Map<string, StreamedItem[]>();
+  let itemCount = 0;
+  let lastSweep = -Infinity;
+
+  const retirementTest = (camera: THREE.PerspectiveCamera) => {
+    camera.updateMatrixWorld();
+    const frustum = new THREE.Frustum().setFromProjectionMatrix(
+      new THREE.Matrix4().multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse),
+    );
+    const sphere = new THREE.Sphere();
+    const { x: cameraX, z: cameraZ } = camera.position;
+    return (x: number, z: number, radius: number) => {
+      const distance = Math.hypot(x - cameraX, z - cameraZ) - radius;
+      if (distance > camera.far) return true;
+      if (distance <= retireDistance) return false;
+      sphere.center.set(x, 0, z);
+      sphere.radius = radius;
+      return !frustum.intersectsSphere(sphere);
+    };
+  };
+
+  return {
+    track: (clusterId, tracked) => {
+      itemCount += tracked.length - (clusters.get(clusterId)?.length ?? 0);
+      clusters.set(clusterId, tracked);
+    },
+    sweep: (camera, time) => {
+      if (time - lastSweep < sweepInterval) return null;
+      lastSweep = time;
+      const isRetirable = retirementTest(camera);
+      const retired: StreamedItem[] = [];
+      const clustersGone: string[] = [];
+      clusters.forEach((tracked, clusterId) => {
+        if (!tracked.every(item => isRetirable(item.x, item.z, item.radius))) return;
+        retired.push(...tracked);
+        clustersGone.push(clusterId);
+        clusters.delete(clusterId);
+        itemCount -= tracked.length;
+      });
+      return { retired, clustersGone };
+    },
+    clear: () => {
+      clusters.clear();
+      itemCount = 0;
+      lastSweep = -Infinity;
+    },
+    size: () => itemCount,
+  };
+};
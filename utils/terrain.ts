@@ -0,0 +1,31 @@
+// Multi-sine heightfield shared by the VIEW MAP terrain and the ground under
+// the city. Deterministic, so the same spot always has the same height.
+
+export const multiSineHeight = (x: number, z: number, maxHeight: number): number =>
+  Math.sin(x * 0.05) * Math.cos(z * 0.08) * maxHeight * 0.4 +
+  Math.sin(x * 0.15 + z * 0.03) * maxHeight * 0.3 +
+  Math.cos(x * 0.02 - z * 0.12) * maxHeight * 0.2;
+
+export type GroundHeightSampler = (x: number, z: number) => number;
+
+const CITY_TERRAIN_MAX_HEIGHT = 40;
+const CITY_TERRAIN_SCALE = 0.2; // Stretches the map's hills to city scale (periods of roughly 200-1500 units)
+const FOOTPRINT_SAMPLES = 8; // Points sampled around a footprint's rim
+
+export const FLAT_GROUND: GroundHeightSampler = () => 0;
+
+export const createGroundHeightSampler = (relief: boolean): GroundHeightSampler =>
+  relief
+    ? (x, z) => multiSineHeight(x * CITY_TERRAIN_SCALE, z * CITY_TERRAIN_SCALE, CITY_TERRAIN_MAX_HEIGHT)
+    : FLAT_GROUND;
+
+// Lowest ground under a circular footprint: buildings on a slope sink into the
+// hillside instead of floating above it.
+export const groundHeightUnderFootprint = (ground: GroundHeightSampler, x: number, z: number, radius: number): number => {
+  let lowest = ground(x, z);
+  for (let i = 0; i < FOOTPRINT_SAMPLES; i++) {
+    const angle = (i / FOOTPRINT_SAMPLES) * Math.PI * 2;
+    lowest = Math.min(lowest, ground(x + Math.cos(angle) * radius, z + Math.sin(angle) * radius));
+  }
+  return lowest;
+};
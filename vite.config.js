@@ -1,25 +1,32 @@
-import { defineConfig } from 'vite';
+import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { cityProxyPlugin } from './server/vitePlugin';
+import { readCityProxyOptions } from './server/cityProxy';
+import { CITY_PROXY_BASE_PATH } from './services/cityProxyProtocol';
 
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
-  base: process.env.VITE_BASE_PATH, // <--- Add a comma here!
-  define: {
-    // Vite does not expose process.env directly to the client.
-    // This makes process.env.API_KEY available in the client code.
-    // If API_KEY is set in the environment where Vite runs, it will be embedded.
-    // Otherwise, it will be undefined, and the app's existing checks will handle it.
-    'process.env.API_KEY': JSON.stringify(process.env.API_KEY),
-  },
-  // Optional: If you need to serve from a subdirectory on a static host
-  // base: '/your-subdirectory/',
-  server: {
-    port: 3000, // You can specify a port for the dev server
-    open: true, // Automatically open the app in the browser on server start
-  },
-  build: {
-    outDir: 'dist', // The output directory for the build
-    sourcemap: true, // Generate source maps for debugging
-  },
+export default defineConfig(({ mode }) => {
+  // .env.local and the environment; read here in Node, never embedded in the client
+  const env = { ...loadEnv(mode, '.', ''), ...process.env };
+  return {
+    // The city server's endpoints, holding the Gemini key, on the dev and preview servers
+    plugins: [react(), cityProxyPlugin(readCityProxyOptions(env))],
+    base: process.env.VITE_BASE_PATH, // <--- Add a comma here!
+    define: {
+      // Vite does not expose process.env directly to the client.
+      // Only the city server's URL is made available to the client code; the API
+      // key stays with the server (see server/cityProxy.ts).
+      'process.env.CITY_PROXY_URL': JSON.stringify(env.CITY_PROXY_URL || CITY_PROXY_BASE_PATH),
+    },
+    // Optional: If you need to serve from a subdirectory on a static host
+    // base: '/your-subdirectory/',
+    server: {
+      port: 3000, // You can specify a port for the dev server
+      open: true, // Automatically open the app in the browser on server start
+    },
+    build: {
+      outDir: 'dist', // The output directory for the build
+      sourcemap: true, // Generate source maps for debugging
+    },
+  };
 });
@@ -1,12 +1,16 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
+import { cityProxyPlugin } from './server/vitePlugin';
+import { readCityProxyOptions } from './server/cityProxy';
+import { CITY_PROXY_BASE_PATH } from './services/cityProxyProtocol';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      // GEMINI_API_KEY stays in this Node process; only the city server's URL reaches the client
+      plugins: [cityProxyPlugin(readCityProxyOptions({ ...env, ...process.env }))],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.CITY_PROXY_URL': JSON.stringify(env.CITY_PROXY_URL || CITY_PROXY_BASE_PATH)
       },
       resolve: {
         alias: {